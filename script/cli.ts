@@ -0,0 +1,16 @@
+/**
+ * @title Script Arguments
+ * @notice Command line parsing shared by the scripts
+ * @author Crutrade Team
+ */
+
+/**
+ * @notice Gets the value given after `--<name>`
+ * @param args Command line arguments
+ * @param name Option name without the dashes
+ * @returns The value, or undefined when the option is not given
+ */
+export function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
@@ -7,6 +7,7 @@
  * @author Crutrade Team
  */
 
+import { formatCrutradeError } from "../sdk/errors";
 import {
   getRolesConfig,
   validateRolesConfig,
@@ -143,4 +144,7 @@ async function main() {
 }
 
 // Run the demo
-main().catch(console.error);
+main().catch((error) => {
+  console.error("❌ Fatal error:", formatCrutradeError(error));
+  process.exit(1);
+});
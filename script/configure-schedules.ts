@@ -10,6 +10,8 @@
 import { ethers } from "ethers";
 import * as fs from "fs";
 import * as path from "path";
+import { getBroadcastAddress } from "../sdk/broadcast";
+import { formatCrutradeError } from "../sdk/errors";
 
 // Timezone conversion utilities
 const TIMEZONE_OFFSETS = {
@@ -66,68 +68,13 @@ const chainConfigs = {
 };
 
 /**
- * Gets contract address from deployment files
+ * Gets contract address from the broadcast files of the deployment
  */
 async function getContractAddress(contractName: string): Promise<string> {
   try {
-    const network = process.env.NETWORK || "local";
-    const networkId =
-      network === "local" ? "31337" : network === "testnet" ? "43113" : "43114";
-
-    const broadcastPath = `./broadcast/deploy.s.sol/${networkId}/run-latest.json`;
-
-    if (!fs.existsSync(broadcastPath)) {
-      throw new Error(`Broadcast file not found: ${broadcastPath}`);
-    }
-
-    const broadcastData = JSON.parse(fs.readFileSync(broadcastPath, "utf8"));
-
-    // For upgradeable contracts, use the order-based mapping approach
-    if (
-      contractName !== "Roles" &&
-      contractName !== "CruToken" &&
-      contractName !== "Vesting"
-    ) {
-      const proxyAddresses: string[] = [];
-
-      // Collect all ERC1967Proxy addresses in order
-      for (const tx of broadcastData.transactions) {
-        if (
-          tx.transactionType === "CREATE" &&
-          tx.contractName === "ERC1967Proxy"
-        ) {
-          proxyAddresses.push(tx.contractAddress);
-        }
-      }
-
-      // Map proxy addresses to contract types based on deployment order
-      // The order should be: Roles, Brands, Wrappers, Whitelist, Payments, Sales, Memberships
-      const contractOrder = [
-        "Roles",
-        "Brands",
-        "Wrappers",
-        "Whitelist",
-        "Payments",
-        "Sales",
-        "Memberships",
-      ];
-
-      const contractIndex = contractOrder.indexOf(contractName);
-      if (contractIndex >= 0 && contractIndex < proxyAddresses.length) {
-        return proxyAddresses[contractIndex];
-      }
-    }
-
-    // For non-upgradeable contracts, find the direct deployment
-    const transaction = broadcastData.transactions.find(
-      (tx: any) => tx.contractName === contractName
-    );
-
-    if (!transaction) {
-      throw new Error(`Contract ${contractName} not found in deployment`);
-    }
-
-    return transaction.contractAddress;
+    const network = (process.env.NETWORK || "local") as keyof typeof chainConfigs;
+    const chainId = (chainConfigs[network] ?? chainConfigs.mainnet).chainId;
+    return getBroadcastAddress(contractName, chainId);
   } catch (error) {
     console.error(`Error getting address for ${contractName}:`, error);
     throw error;
@@ -419,7 +366,7 @@ async function readSchedules() {
     console.log(
       "⚠️  Could not fetch current schedules (contract may not be deployed)"
     );
-    console.log("Error:", error);
+    console.log("Error:", formatCrutradeError(error));
   }
 
   console.log("\n✅ Schedule reading complete!");
@@ -608,7 +555,7 @@ async function configureSchedules() {
       console.error("❌ Transaction failed");
     }
   } catch (error) {
-    console.error("❌ Failed to configure schedules:", error);
+    console.error("❌ Failed to configure schedules:", formatCrutradeError(error));
     process.exit(1);
   }
 
@@ -644,7 +591,7 @@ async function configureSchedules() {
       console.log("\n⚠️  Some schedules may not be active yet");
     }
   } catch (error) {
-    console.log("⚠️  Could not verify schedules:", error);
+    console.log("⚠️  Could not verify schedules:", formatCrutradeError(error));
   }
 
   console.log("\n🎉 Schedule configuration complete!");
@@ -712,7 +659,7 @@ async function deleteSchedules() {
     }
     console.log("");
   } catch (error) {
-    console.log("⚠️  Could not fetch current schedules:", error);
+    console.log("⚠️  Could not fetch current schedules:", formatCrutradeError(error));
     return;
   }
 
@@ -800,7 +747,7 @@ async function deleteSchedules() {
       console.error("❌ Transaction failed");
     }
   } catch (error) {
-    console.error("❌ Failed to delete schedules:", error);
+    console.error("❌ Failed to delete schedules:", formatCrutradeError(error));
     process.exit(1);
   }
 
@@ -842,7 +789,7 @@ async function deleteSchedules() {
       );
     }
   } catch (error) {
-    console.log("⚠️  Could not verify deletion:", error);
+    console.log("⚠️  Could not verify deletion:", formatCrutradeError(error));
   }
 
   console.log("\n🎉 Schedule deletion complete!");
@@ -887,6 +834,6 @@ async function main() {
 
 // Run the script
 main().catch((error) => {
-  console.error("❌ Script failed:", error);
+  console.error("❌ Script failed:", formatCrutradeError(error));
   process.exit(1);
 });
@@ -127,6 +127,8 @@ import { ethers } from "ethers";
 import { USDCApprovalProxy__factory } from "../types";
 import type { USDCApprovalProxy } from "../types";
 import * as fs from "fs";
+import { getBroadcastAddress } from "../sdk/broadcast";
+import { decodeCrutradeError } from "../sdk/errors";
 import { exec } from "child_process";
 import { promisify } from "util";
 
@@ -147,11 +149,6 @@ const MAINNET_RPC =
 const FUJI_RPC =
   process.env.FUJI_RPC || "https://api.avax-test.network/ext/bc/C/rpc";
 
-/**
- * Default deployment file path for mainnet
- */
-const DEPLOYMENT_PATH = "./broadcast/deploy.s.sol/43114/run-latest.json";
-
 /**
  * Contract name for USDCApprovalProxy
  */
@@ -189,8 +186,7 @@ const PAYMENTS_ADDRESSES = {
  * @description
  * This function attempts to find the contract address in the following order:
  * 1. Predefined addresses in USDC_PROXY_ADDRESSES
- * 2. Deployment file from Foundry broadcast
- * 3. Direct contract deployment transaction
+ * 2. Foundry broadcast files of the deployment, see getExistingContractAddress
  * 
  * @example
  * const address = getContractAddress('testnet');
@@ -203,39 +199,9 @@ function getContractAddress(environment: string): string {
     if (address) return address;
   }
 
-  // Fallback to reading from deployment file
-  try {
-    const data = JSON.parse(fs.readFileSync(DEPLOYMENT_PATH, "utf8"));
-    const contractOrder = [
-      "Roles",
-      "Brands",
-      "Wrappers",
-      "Whitelist",
-      "Payments",
-      "Sales",
-      "Memberships",
-      "USDCApprovalProxy",
-    ];
-    const proxyAddresses: string[] = [];
-    for (const tx of data.transactions) {
-      if (
-        tx.transactionType === "CREATE" &&
-        tx.contractName === "ERC1967Proxy"
-      ) {
-        proxyAddresses.push(tx.contractAddress);
-      }
-    }
-    const idx = contractOrder.indexOf(CONTRACT_NAME);
-    if (idx >= 0 && idx < proxyAddresses.length) {
-      return proxyAddresses[idx];
-    }
-    const tx = data.transactions.find(
-      (t: any) => t.contractName === CONTRACT_NAME
-    );
-    if (tx) return tx.contractAddress;
-  } catch (error) {
-    console.warn("Could not read deployment file, using predefined address");
-  }
+  // Fallback to the deployment's broadcast files
+  const address = getExistingContractAddress(CONTRACT_NAME, environment);
+  if (address) return address;
 
   throw new Error(
     `Could not find ${CONTRACT_NAME} address for environment: ${environment}`
@@ -871,55 +837,34 @@ contract DeployUSDCApprovalProxy is Script {
   }
 }
 
+/**
+ * Resolves a deployed contract from the Foundry broadcast files of the environment
+ *
+ * @param contractName - The contract name, e.g. 'Roles'
+ * @param environment - The deployment environment ('production', 'staging', 'testnet')
+ * @returns The address to call (the proxy of upgradeable contracts), or null if not deployed
+ */
 function getExistingContractAddress(contractName: string, environment: string): string | null {
   try {
-    const deploymentPath = `./broadcast/deploy.s.sol/${environment === "production" ? "43114" : "43113"}/run-latest.json`;
-    const data = JSON.parse(fs.readFileSync(deploymentPath, "utf8"));
-    
-    const contractOrder = [
-      "Roles",
-      "Brands", 
-      "Wrappers",
-      "Whitelist",
-      "Payments",
-      "Sales",
-      "Memberships",
-      "USDCApprovalProxy",
-    ];
-    
-    const proxyAddresses: string[] = [];
-    for (const tx of data.transactions) {
-      if (tx.transactionType === "CREATE" && tx.contractName === "ERC1967Proxy") {
-        proxyAddresses.push(tx.contractAddress);
-      }
-    }
-    
-    const idx = contractOrder.indexOf(contractName);
-    if (idx >= 0 && idx < proxyAddresses.length) {
-      return proxyAddresses[idx];
-    }
-    
-    return null;
+    return getBroadcastAddress(contractName, environment === "production" ? 43114 : 43113);
   } catch (error) {
-    console.warn(`Could not read deployment file for ${contractName}`);
+    console.warn(`Could not resolve ${contractName} from broadcast files: ${(error as Error).message}`);
     return null;
   }
 }
 
 function handleError(error: any) {
   // Try to decode the error
-  if (error.data) {
-    console.error("📋 Error data:", error.data);
-
-    // Check if it's a custom error
-    if (error.data.startsWith("0xb87a12a9")) {
-      console.error(
-        "🔍 This appears to be a 'NotAllowed' error - your wallet doesn't have the required role"
-      );
+  const decoded = decodeCrutradeError(error);
+  if (decoded) {
+    console.error(`🔍 ${decoded.name}: ${decoded.message}`);
+    if (decoded.name === "NotAllowed") {
       console.error(
         "💡 Make sure your wallet has the OWNER role in the Roles contract"
       );
     }
+  } else if (error.data) {
+    console.error("📋 Error data:", error.data);
   }
 
   if (error.reason) {
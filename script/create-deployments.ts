@@ -1,5 +1,9 @@
 import { resolve } from "path";
-import { writeFileSync, mkdirSync, existsSync, readFileSync } from "fs";
+import { execSync } from "child_process";
+import { appendFileSync, writeFileSync, mkdirSync, existsSync, readFileSync, readdirSync } from "fs";
+import type { Address } from "viem";
+import { loadBroadcastRuns, resolveBroadcast, summarizeBroadcastRuns, type BroadcastContract, type BroadcastOptions } from "../sdk/broadcast";
+import { recordLayout } from "./storage-layouts";
 
 const contracts = [
   "Roles",
@@ -12,108 +16,217 @@ const contracts = [
   "USDCApprovalProxy"
 ];
 
-function extractAddressesFromBroadcast(
-  network: "mainnet" | "testnet"
-): Record<string, string> {
-  const networkId = network === "mainnet" ? "43114" : "43113";
-  const broadcastPath = resolve(
-    `broadcast/deploy.s.sol/${networkId}/run-latest.json`
-  );
+// A contract as recorded in deployments/<network>/history.ndjson
+interface LedgerContract {
+  address: string;
+  proxy?: string;
+  implementation?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+interface LedgerEntry {
+  network: string;
+  chainId: number;
+  timestamp: string;
+  version?: string;
+  commit?: string;
+  contracts: Record<string, LedgerContract>;
+}
+
+// Chain ids of the networks deploy.ts knows about
+const defaultNetworks: Record<string, number> = {
+  mainnet: 43114,
+  testnet: 43113,
+  local: 31337,
+};
+
+/**
+ * Lists every network to write, including custom networks that already have a manifest
+ */
+function getNetworks(): Record<string, number> {
+  const networks = { ...defaultNetworks };
+  const deploymentsDir = resolve("deployments");
+  if (!existsSync(deploymentsDir)) return networks;
 
-  if (!existsSync(broadcastPath)) {
-    console.log(`⚠️  No broadcast file found for ${network}: ${broadcastPath}`);
-    return {};
+  for (const entry of readdirSync(deploymentsDir, { withFileTypes: true })) {
+    const latestPath = resolve(deploymentsDir, entry.name, "latest.json");
+    if (!entry.isDirectory() || networks[entry.name] || !existsSync(latestPath)) continue;
+    try {
+      const { chainId } = JSON.parse(readFileSync(latestPath, "utf8"));
+      if (chainId) networks[entry.name] = Number(chainId);
+    } catch {}
   }
 
+  return networks;
+}
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * The broadcast directory with every script's runs
+ */
+function broadcastOptions(): Required<BroadcastOptions> {
+  const dir = resolve("broadcast");
+  const scripts = existsSync(dir) ? readdirSync(dir).filter((entry) => entry.endsWith(".s.sol")) : [];
+  return { dir, scripts };
+}
+
+/**
+ * Resolves the suite's contracts from the broadcast files, keyed by lowercase name
+ * @dev Runs of every script are replayed, so upgrade scripts update the implementations
+ */
+function extractFromBroadcast(network: string, chainId: number): Record<string, BroadcastContract> {
+  const deployed: Record<string, BroadcastContract> = {};
+
   try {
-    const broadcastData = JSON.parse(readFileSync(broadcastPath, "utf8"));
-    const addresses: Record<string, string> = {};
-    const implementationToProxy: Record<string, string> = {};
-
-    // First, collect all implementation addresses and their corresponding proxies
-    for (const tx of broadcastData.transactions) {
-      if (tx.transactionType === "CREATE" && tx.contractName === "ERC1967Proxy") {
-        const proxyAddress = tx.contractAddress;
-        const implementationAddress = tx.arguments[0]; // First argument is the implementation address
-        
-        implementationToProxy[implementationAddress.toLowerCase()] = proxyAddress;
-        console.log(`  Found ${network} proxy ${proxyAddress} -> implementation ${implementationAddress}`);
-      }
+    const { contracts: resolved, files } = resolveBroadcast(chainId, broadcastOptions());
+    if (files.length === 0) {
+      console.log(`⚠️  No broadcast file found for ${network}: ${resolve(`broadcast/deploy.s.sol/${chainId}`)}`);
+    }
+
+    for (const contractName of contracts) {
+      const contract = resolved[contractName];
+      if (!contract) continue;
+      deployed[contractName.toLowerCase()] = contract;
+      console.log(`  Mapped ${network} ${contractName} implementation ${contract.implementation} -> proxy ${contract.address}`);
     }
+  } catch (error) {
+    console.error(`Error reading broadcast files for ${network}:`, error);
+  }
+
+  return deployed;
+}
 
-    // Now map implementation addresses to contract names and get their proxies
-    for (const tx of broadcastData.transactions) {
-      if (tx.transactionType === "CREATE" && tx.contractAddress) {
-        const contractName = tx.contractName.toLowerCase();
-        if (contractName === "roles" || 
-            contractName === "brands" || 
-            contractName === "wrappers" || 
-            contractName === "whitelist" || 
-            contractName === "payments" || 
-            contractName === "sales" || 
-            contractName === "memberships" ||
-            contractName === "usdcapprovalproxy") {
-          
-          const implementationAddress = tx.contractAddress.toLowerCase();
-          const proxyAddress = implementationToProxy[implementationAddress];
-          
-          if (proxyAddress) {
-            addresses[contractName] = proxyAddress;
-            console.log(`  Mapped ${network} ${contractName} implementation ${implementationAddress} -> proxy ${proxyAddress}`);
-          } else {
-            console.log(`  ⚠️  No proxy found for ${network} ${contractName} implementation ${implementationAddress}`);
-          }
+function loadDeployments(networks: Record<string, number>) {
+  const deployments: Record<string, Record<string, string>> = {};
+  const blocks: Record<string, Record<string, number>> = {};
+  const records: Record<string, Record<string, LedgerContract>> = {};
+
+  for (const [network, chainId] of Object.entries(networks)) {
+    // Extract addresses from broadcast files
+    const broadcast = extractFromBroadcast(network, chainId);
+    deployments[network] = Object.fromEntries(Object.entries(broadcast).map(([name, contract]) => [name, contract.address]));
+    let recordedBlocks: Record<string, number> = {};
+
+    // Also load from existing deployment files (for manual addresses)
+    const latestPath = resolve(`deployments/${network}/latest.json`);
+    if (existsSync(latestPath)) {
+      try {
+        const latestData = JSON.parse(readFileSync(latestPath, "utf8"));
+        recordedBlocks = latestData.blocks ?? {};
+        // Mined broadcast proxies are newer than the previous manifest; it only fills in what they lack
+        for (const [contractName, address] of Object.entries<string>(latestData.contracts ?? {})) {
+          if (broadcast[contractName] || !address || address.toLowerCase() === ZERO_ADDRESS) continue;
+          deployments[network][contractName] = address;
         }
+        console.log(`  Loaded ${network} addresses from deployments file`);
+      } catch (error) {
+        console.log(`  Could not load ${network} deployments file`);
       }
     }
 
-    return addresses;
-  } catch (error) {
-    console.error(`Error reading broadcast file for ${network}:`, error);
-    return {};
+    // Blocks of the final addresses, from the broadcast or else from the previous manifest
+    blocks[network] = { ...recordedBlocks };
+    records[network] = {};
+    for (const [contractName, address] of Object.entries(deployments[network])) {
+      const contract = broadcast[contractName];
+      if (contract && address.toLowerCase() === contract.address.toLowerCase()) {
+        blocks[network][contractName] = Number(contract.blockNumber);
+        records[network][contractName] = {
+          address: contract.address,
+          proxy: contract.proxy,
+          implementation: contract.implementation,
+          transactionHash: contract.transactionHash,
+          blockNumber: Number(contract.blockNumber),
+        };
+      } else {
+        records[network][contractName] = { address, blockNumber: recordedBlocks[contractName] };
+      }
+    }
   }
-}
 
-function loadDeployments() {
-  const deployments: any = { mainnet: {}, testnet: {} };
+  return { deployments, blocks, records };
+}
 
-  // Extract addresses from broadcast files
-  deployments.mainnet = extractAddressesFromBroadcast("mainnet");
-  deployments.testnet = extractAddressesFromBroadcast("testnet");
+/**
+ * Reads the package version and git commit the deployment files are built from
+ */
+function getBuildInfo(): { version?: string; commit?: string } {
+  let version: string | undefined;
+  let commit: string | undefined;
+  try {
+    version = JSON.parse(readFileSync(resolve("package.json"), "utf8")).version;
+  } catch {}
+  try {
+    commit = execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+  } catch {}
+  return { version, commit };
+}
 
-  // Also load from existing deployment files (for manual addresses)
-  const mainnetPath = resolve('deployments/mainnet/latest.json');
-  if (existsSync(mainnetPath)) {
-    try {
-      const mainnetData = JSON.parse(readFileSync(mainnetPath, 'utf8'));
-      // Merge with broadcast data, preferring deployment file data if available
-      deployments.mainnet = { ...deployments.mainnet, ...mainnetData.contracts };
-      console.log("  Loaded mainnet addresses from deployments file");
-    } catch (error) {
-      console.log("  Could not load mainnet deployments file");
+/**
+ * Appends an entry to deployments/<network>/history.ndjson when the contracts changed
+ * @dev The ledger is append-only: entries are never rewritten, so it records
+ *      which proxy and implementation were live from which point on
+ * @returns Whether an entry was appended
+ */
+function appendHistory(network: string, entry: LedgerEntry): boolean {
+  const historyPath = resolve(`deployments/${network}/history.ndjson`);
+  if (existsSync(historyPath)) {
+    const lines = readFileSync(historyPath, "utf8").trimEnd().split("\n").filter(Boolean);
+    const last = lines.length ? (JSON.parse(lines[lines.length - 1]!) as LedgerEntry) : undefined;
+    if (last && last.chainId === entry.chainId && JSON.stringify(last.contracts) === JSON.stringify(entry.contracts)) {
+      return false;
     }
   }
+  appendFileSync(historyPath, `${JSON.stringify(entry)}\n`);
+  return true;
+}
+
+/**
+ * Lists the contracts created by the newest broadcast run, keyed by lowercase address
+ */
+function createdByLatestRun(chainId: number): Set<string> {
+  try {
+    const latest = loadBroadcastRuns(chainId, broadcastOptions()).at(-1);
+    if (!latest) return new Set();
+    const { creations } = summarizeBroadcastRuns([latest.run]);
+    return new Set(creations.filter((step) => !step.reverted).map((step) => step.address.toLowerCase()));
+  } catch {
+    return new Set();
+  }
+}
 
-  const testnetPath = resolve('deployments/testnet/latest.json');
-  if (existsSync(testnetPath)) {
+/**
+ * Records the out/ storage layout of the implementations of a new history entry
+ * @dev upgrade-check compares upgrades against these; implementations that
+ *      already have a layout keep it. Only implementations created by the
+ *      newest broadcast run are recorded: out/ was built for that run, not
+ *      for older implementations the broadcast still names
+ */
+function recordLayouts(network: string, chainId: number, recorded: Record<string, LedgerContract>, commit?: string) {
+  const created = createdByLatestRun(chainId);
+  for (const contract of contracts) {
+    const implementation = recorded[contract.toLowerCase()]?.implementation;
+    if (!implementation || !created.has(implementation.toLowerCase())) continue;
+    if (!existsSync(resolve(`out/${contract}.sol/${contract}.json`))) continue;
     try {
-      const testnetData = JSON.parse(readFileSync(testnetPath, 'utf8'));
-      // Merge with broadcast data, preferring deployment file data if available
-      deployments.testnet = { ...deployments.testnet, ...testnetData.contracts };
-      console.log("  Loaded testnet addresses from deployments file");
+      if (recordLayout(network, contract, implementation as Address, { commit })) {
+        console.log(`  🧱 Recorded ${network} ${contract} storage layout`);
+      }
     } catch (error) {
-      console.log("  Could not load testnet deployments file");
+      console.log(`  ⚠️  Could not record ${network} ${contract} storage layout: ${(error as Error).message}`);
     }
   }
-
-  return deployments;
 }
 
 async function createDeployments() {
   console.log("📁 Creating deployments folder...");
-  
-  const deployments = loadDeployments();
+
+  const networks = getNetworks();
+  const { deployments, blocks, records } = loadDeployments(networks);
   const timestamp = new Date().toISOString();
+  const build = getBuildInfo();
 
   // Create deployments directory
   const deploymentsDir = resolve("deployments");
@@ -121,58 +234,50 @@ async function createDeployments() {
     mkdirSync(deploymentsDir, { recursive: true });
   }
 
-  // Create mainnet directory
-  const mainnetDir = resolve("deployments/mainnet");
-  if (!existsSync(mainnetDir)) {
-    mkdirSync(mainnetDir, { recursive: true });
-  }
+  const deploymentsIndex: Record<string, unknown> = {};
 
-  // Create testnet directory
-  const testnetDir = resolve("deployments/testnet");
-  if (!existsSync(testnetDir)) {
-    mkdirSync(testnetDir, { recursive: true });
-  }
+  for (const [network, chainId] of Object.entries(networks)) {
+    // Create network directory
+    const networkDir = resolve(`deployments/${network}`);
+    if (!existsSync(networkDir)) {
+      mkdirSync(networkDir, { recursive: true });
+    }
 
-  // Create mainnet deployment file
-  const mainnetDeployment = {
-    network: "mainnet",
-    chainId: 43114,
-    timestamp,
-    contracts: contracts.reduce((acc, contract) => {
-      const addr = deployments.mainnet[contract.toLowerCase()] || "0x0000000000000000000000000000000000000000";
-      acc[contract.toLowerCase()] = addr;
-      return acc;
-    }, {} as Record<string, string>)
-  };
+    // Create network deployment file
+    const deployment = {
+      network,
+      chainId,
+      timestamp,
+      // Contracts without an address are left out rather than written as the zero address
+      contracts: contracts.reduce((acc, contract) => {
+        const addr = deployments[network][contract.toLowerCase()];
+        if (addr) acc[contract.toLowerCase()] = addr;
+        return acc;
+      }, {} as Record<string, string>),
+      // Proxy deployment blocks, where event scans start by default
+      blocks: blocks[network]
+    };
 
-  writeFileSync(
-    resolve("deployments/mainnet/latest.json"),
-    JSON.stringify(mainnetDeployment, null, 2)
-  );
+    writeFileSync(
+      resolve(`deployments/${network}/latest.json`),
+      JSON.stringify(deployment, null, 2)
+    );
 
-  // Create testnet deployment file
-  const testnetDeployment = {
-    network: "testnet",
-    chainId: 43113,
-    timestamp,
-    contracts: contracts.reduce((acc, contract) => {
-      const addr = deployments.testnet[contract.toLowerCase()] || "0x0000000000000000000000000000000000000000";
-      acc[contract.toLowerCase()] = addr;
-      return acc;
-    }, {} as Record<string, string>)
-  };
+    deploymentsIndex[network] = deployment;
 
-  writeFileSync(
-    resolve("deployments/testnet/latest.json"),
-    JSON.stringify(testnetDeployment, null, 2)
-  );
+    const recorded = contracts.reduce((acc, contract) => {
+      const record = records[network][contract.toLowerCase()];
+      if (record) acc[contract.toLowerCase()] = record;
+      return acc;
+    }, {} as Record<string, LedgerContract>);
+    if (Object.keys(recorded).length > 0 && appendHistory(network, { network, chainId, timestamp, ...build, contracts: recorded })) {
+      console.log(`  📜 Recorded ${network} deployment in history.ndjson`);
+      recordLayouts(network, chainId, recorded, build.commit);
+    }
+  }
 
   // Create index file for easy access
-  const deploymentsIndex = {
-    mainnet: mainnetDeployment,
-    testnet: testnetDeployment,
-    timestamp
-  };
+  deploymentsIndex.timestamp = timestamp;
 
   writeFileSync(
     resolve("deployments/index.json"),
@@ -181,9 +286,13 @@ async function createDeployments() {
 
   console.log("✅ Deployments folder created successfully!");
   console.log(`📄 Created files:`);
-  console.log(`  - deployments/mainnet/latest.json`);
-  console.log(`  - deployments/testnet/latest.json`);
+  for (const network of Object.keys(networks)) {
+    console.log(`  - deployments/${network}/latest.json`);
+    if (existsSync(resolve(`deployments/${network}/history.ndjson`))) {
+      console.log(`  - deployments/${network}/history.ndjson`);
+    }
+  }
   console.log(`  - deployments/index.json`);
 }
 
-createDeployments().catch(console.error); 
\ No newline at end of file
+createDeployments().catch(console.error);
\ No newline at end of file
@@ -0,0 +1,181 @@
+/**
+ * @title Deployment Plan
+ * @notice Runs the full deployment on a local Anvil fork and reports what it would do
+ * @dev The fork runs under its own chain id, so nothing signed for it can be
+ *      replayed on the real chain, and forge writes its broadcast files under
+ *      .cache/plan-<network> instead of ./broadcast. The report lists every
+ *      contract created, role granted and parameter set, with gas totals, as
+ *      Markdown that can be attached to the change request
+ * @author Crutrade Team
+ */
+
+import { $ } from "bun";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { createPublicClient, createTestClient, formatEther, http, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { loadBroadcastRuns, summarizeBroadcastRuns, type BroadcastStep, type BroadcastSummary } from "../sdk/broadcast";
+import { serializeEvent, type CrutradeEvent } from "../sdk/events";
+import { labelHash } from "../sdk/labels";
+
+/// @notice Chain id of the fork, so transactions signed for it are invalid on Avalanche
+export const PLAN_CHAIN_ID = 31337;
+
+export interface DeploymentPlanConfig {
+  network: string;
+  /// @notice RPC of the chain to fork
+  rpc: string;
+  /// @notice Key the deployment is signed with on the fork
+  privateKey: Hex;
+  /// @notice Environment of the forge script, as for a real deployment
+  env: Record<string, string | undefined>;
+  forgeArgs?: string;
+  /// @notice Port of the fork (default 8546, next to a local Anvil)
+  port?: number;
+  /// @notice Markdown report destination, besides .cache/plan-<network>/plan.md
+  out?: string;
+}
+
+// Events shown as role changes; Initialized and Upgraded are part of the contract creations
+const ROLE_EVENTS = ["RoleGranted", "RoleRevoked", "RoleAdminChanged", "DelegateRoleGranted", "DelegateRoleRevoked", "PrimaryAddressChanged"];
+const CREATION_EVENTS = ["Initialized", "Upgraded"];
+
+/**
+ * @notice Names an argument: role labels for bytes32, contract names for suite addresses
+ */
+function describeValue(value: unknown, names: Map<string, string>): string {
+  if (typeof value === "string" && /^0x[0-9a-fA-F]{64}$/.test(value)) return labelHash(value as Hex) ?? value;
+  if (typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value)) {
+    const name = names.get(value.toLowerCase());
+    return name ? `${value} (${name})` : value;
+  }
+  if (Array.isArray(value)) return `[${value.map((item) => describeValue(item, names)).join(", ")}]`;
+  if (value && typeof value === "object") {
+    return `{ ${Object.entries(value).map(([key, item]) => `${key}: ${describeValue(item, names)}`).join(", ")} }`;
+  }
+  return String(value);
+}
+
+function describeEvent(event: CrutradeEvent, names: Map<string, string>): string {
+  const args = Object.entries(serializeEvent(event.args as Record<string, unknown>))
+    .map(([key, value]) => `${key}: ${describeValue(value, names)}`)
+    .join(", ");
+  return `${event.contract}.${event.eventName}(${args})`;
+}
+
+const bullets = (items: string[]) => (items.length ? items.map((item) => `- ${item}`) : ["- None"]);
+
+const gas = (step: BroadcastStep) => `${step.gasUsed.toLocaleString("en-US")}${step.reverted ? " (reverted)" : ""}`;
+
+/**
+ * @notice Renders a plan summary as Markdown
+ * @param summary Summary of the fork runs
+ * @param context Network, forked block and deployer
+ */
+export function formatPlan(
+  summary: BroadcastSummary,
+  context: { network: string; forkBlock: bigint; deployer: Address; commit?: string }
+): string {
+  const names = new Map<string, string>();
+  for (const contract of Object.values(summary.contracts)) {
+    names.set(contract.address.toLowerCase(), contract.name);
+    names.set(contract.implementation.toLowerCase(), `${contract.name} implementation`);
+  }
+  const events = summary.events.filter((event) => !CREATION_EVENTS.includes(event.eventName));
+  const lines = [
+    `# Deployment plan: ${context.network}`,
+    "",
+    `- Forked block: ${context.forkBlock}`,
+    `- Deployer: ${context.deployer}`,
+    ...(context.commit ? [`- Commit: ${context.commit}`] : []),
+    `- Generated: ${new Date().toISOString()}`,
+    "",
+    `## Contracts created (${summary.creations.length})`,
+    "",
+    "| Contract | Address | Gas |",
+    "| --- | --- | ---: |",
+    ...summary.creations.map(
+      (step) => `| ${step.proxyOf ? `${step.proxyOf} (${step.contract})` : step.contract} | ${step.address} | ${gas(step)} |`
+    ),
+    "",
+    `## Calls (${summary.calls.length})`,
+    "",
+    "| Contract | Function | Gas |",
+    "| --- | --- | ---: |",
+    ...summary.calls.map((step) => `| ${step.proxyOf ?? step.contract} | ${step.function ?? "-"} | ${gas(step)} |`),
+    "",
+    "## Roles granted",
+    "",
+    ...bullets(events.filter((event) => ROLE_EVENTS.includes(event.eventName)).map((event) => describeEvent(event, names))),
+    "",
+    "## Parameters set",
+    "",
+    ...bullets(events.filter((event) => !ROLE_EVENTS.includes(event.eventName)).map((event) => describeEvent(event, names))),
+    "",
+    "## Gas",
+    "",
+    `- Transactions: ${summary.creations.length + summary.calls.length}`,
+    `- Gas used: ${summary.gasUsed.toLocaleString("en-US")}`,
+    `- Cost at the fork's gas price: ${formatEther(summary.cost)} AVAX`,
+    "",
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * @notice Waits until the fork answers RPC requests
+ */
+async function waitForFork(url: string, anvil: ReturnType<typeof Bun.spawn>): Promise<bigint> {
+  const client = createPublicClient({ transport: http(url, { retryCount: 0 }) });
+  for (let attempt = 0; attempt < 120; attempt++) {
+    if (anvil.exitCode !== null) throw new Error(`Anvil exited with code ${anvil.exitCode}`);
+    try {
+      return await client.getBlockNumber();
+    } catch {
+      await Bun.sleep(500);
+    }
+  }
+  throw new Error(`Anvil fork did not start on ${url}`);
+}
+
+/**
+ * @notice Deploys on a fresh Anvil fork and writes the plan report
+ * @returns The Markdown report
+ */
+export async function runDeploymentPlan(config: DeploymentPlanConfig): Promise<string> {
+  const { network, rpc, privateKey, env, forgeArgs = "", port = 8546 } = config;
+  const dir = `.cache/plan-${network}`;
+  if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+  mkdirSync(dir, { recursive: true });
+
+  const url = `http://127.0.0.1:${port}`;
+  console.log(`\n🍴 Forking ${network} on ${url}...`);
+  const anvil = Bun.spawn(
+    ["anvil", "--fork-url", rpc, "--port", String(port), "--chain-id", String(PLAN_CHAIN_ID), "--silent"],
+    { stdout: "ignore", stderr: "inherit" }
+  );
+
+  try {
+    const forkBlock = await waitForFork(url, anvil);
+    const deployer = privateKeyToAccount(privateKey).address;
+    // The plan must not depend on the deployer being funded yet
+    await createTestClient({ mode: "anvil", transport: http(url) }).setBalance({ address: deployer, value: 10n ** 21n });
+    console.log(`✅ Fork ready at block ${forkBlock}`);
+
+    console.log("\n🚀 Running the deployment on the fork...");
+    await $`forge script script/deploy.s.sol --rpc-url ${url} --private-key ${privateKey} --broadcast --via-ir ${forgeArgs}`.env({
+      ...env,
+      FOUNDRY_BROADCAST: `${dir}/broadcast`,
+    });
+
+    const runs = loadBroadcastRuns(PLAN_CHAIN_ID, { dir: `${dir}/broadcast` });
+    const commit = (await $`git rev-parse HEAD`.quiet().nothrow()).stdout.toString().trim() || undefined;
+    const report = formatPlan(summarizeBroadcastRuns(runs.map((entry) => entry.run)), { network, forkBlock, deployer, commit });
+
+    writeFileSync(`${dir}/plan.md`, report);
+    if (config.out) writeFileSync(config.out, report);
+    return report;
+  } finally {
+    anvil.kill();
+    await anvil.exited;
+  }
+}
@@ -2,6 +2,7 @@
 /// <reference types="node" />
 import { $ } from "bun";
 import { argv, env } from "process";
+import type { Hex } from "viem";
 import { avalanche, avalancheFuji, anvil } from "viem/chains";
 import {
   getPaymentsConfig,
@@ -15,6 +16,7 @@ import {
   generateEnvVars,
   checkSecurityIssues,
 } from "./roles-config";
+import { runDeploymentPlan } from "./deploy-plan";
 
 const ANVIL_ADDRESS_1_PRIVATE_KEY =
   "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
@@ -48,7 +50,13 @@ const chainConfigs = {
   },
 };
 
-const network = (argv[2] ||
+// bun script/deploy.ts <network> [--plan [--out plan.md]]
+const args = argv.slice(2);
+const plan = args.includes("--plan");
+const outIndex = args.indexOf("--out");
+const out = outIndex === -1 ? undefined : args[outIndex + 1];
+
+const network = (args.find((arg, i) => !arg.startsWith("--") && args[i - 1] !== "--out") ||
   env.NETWORK ||
   "local") as keyof typeof chainConfigs;
 const config = chainConfigs[network];
@@ -58,11 +66,18 @@ if (!config) {
   process.exit(1);
 }
 
-if (!config.privateKey) {
+// A plan only signs for the fork, so it can run before the deployer key is available
+const privateKey = config.privateKey || (plan ? ANVIL_ADDRESS_1_PRIVATE_KEY : undefined);
+
+if (!privateKey) {
   console.error(`Missing PRIVATE_KEY for network: ${network}`);
   process.exit(1);
 }
 
+if (plan && !config.privateKey) {
+  console.warn("⚠️  No PRIVATE_KEY: planning with Anvil account #1 as deployer");
+}
+
 // Get and validate roles configuration
 const rolesConfig = getRolesConfig(network);
 
@@ -110,6 +125,7 @@ const rolesEnvVars = generateEnvVars(rolesConfig);
 const envVars = {
   ...env,
   NETWORK: network,
+  PRIVATE_KEY: privateKey,
   USDC_ADDRESS: config.usdc || "",
   // Roles configuration
   ...rolesEnvVars,
@@ -119,10 +135,25 @@ const envVars = {
   MEMBERSHIP_FEES: JSON.stringify(paymentsConfig.membershipFees),
 };
 
+if (plan) {
+  // Deploys on an Anvil fork; no transaction reaches the network
+  const report = await runDeploymentPlan({
+    network,
+    rpc: config.rpc,
+    privateKey: privateKey as Hex,
+    env: envVars,
+    forgeArgs: config.forgeArgs,
+    out,
+  });
+  console.log(`\n${report}`);
+  console.log(`📄 Plan saved to .cache/plan-${network}/plan.md${out ? ` and ${out}` : ""}`);
+  process.exit(0);
+}
+
 console.log("\n🚀 Starting deployment...");
 
 // For local, usdc is set by the deploy script after deploying MockUSDC
-await $`forge script script/deploy.s.sol --rpc-url ${config.rpc} --private-key ${config.privateKey} --broadcast --via-ir ${config.forgeArgs}`.env(
+await $`forge script script/deploy.s.sol --rpc-url ${config.rpc} --private-key ${privateKey} --broadcast --via-ir ${config.forgeArgs}`.env(
   envVars
 );
 
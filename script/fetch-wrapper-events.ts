@@ -1,15 +1,21 @@
 /// <reference types="bun-types" />
 
 import { argv, env } from "process";
-import { createPublicClient, http, getContract, parseEventLogs } from "viem";
-import { avalanche } from "viem/chains";
-import { readFileSync, existsSync } from "fs";
-import { resolve } from "path";
+import { createPublicClient, http, getContract, type Address, type PublicClient } from "viem";
+import { writeFileSync } from "fs";
+import { abis } from "../contracts";
+import { formatCrutradeError } from "../sdk/errors";
+import { decodeContractLog, type ContractEvent, type RawLog } from "../sdk/events";
+import { EXPORT_FORMATS, formatEvents, sortEvents, type ExportableEvent, type ExportFormat } from "../sdk/export";
+import { createLogFetcher } from "../sdk/logs";
+import { getAddresses, getDeploymentBlock } from "../sdk/networks";
+import { createTimestampResolver, type TimestampResolver } from "../sdk/timestamps";
+import { getNetworkConfig, resolveNetwork } from "./network-config";
 
 // Type definitions for events
 interface ImportEvent {
   user: string;
-  importData: {
+  importData: readonly {
     metaKey: string;
     sku: string;
     tokenId: bigint;
@@ -17,14 +23,16 @@ interface ImportEvent {
   }[];
   blockNumber: bigint;
   transactionHash: string;
+  logIndex: number;
   timestamp?: number;
 }
 
 interface ExportEvent {
   user: string;
-  wrapperIds: bigint[];
+  wrapperIds: readonly bigint[];
   blockNumber: bigint;
   transactionHash: string;
+  logIndex: number;
   timestamp?: number;
 }
 
@@ -34,15 +42,17 @@ interface MarketplaceTransferEvent {
   wrapperId: bigint;
   blockNumber: bigint;
   transactionHash: string;
+  logIndex: number;
   timestamp?: number;
 }
 
 interface BatchTransferEvent {
   from: string;
   to: string;
-  tokenIds: bigint[];
+  tokenIds: readonly bigint[];
   blockNumber: bigint;
   transactionHash: string;
+  logIndex: number;
   timestamp?: number;
 }
 
@@ -52,43 +62,78 @@ interface TransferEvent {
   tokenId: bigint;
   blockNumber: bigint;
   transactionHash: string;
+  logIndex: number;
   timestamp?: number;
 }
 
+interface WrapperEvents {
+  imports: ImportEvent[];
+  exports: ExportEvent[];
+  marketplaceTransfers: MarketplaceTransferEvent[];
+  batchTransfers: BatchTransferEvent[];
+  transfers: TransferEvent[];
+}
+
+// Event type arguments and the Wrappers events they select
+const EVENT_TYPES = {
+  import: "Import",
+  export: "Export",
+  marketplace: "MarketplaceTransfer",
+  batch: "BatchTransfer",
+  transfer: "Transfer",
+} as const;
+
 /**
- * Loads the Wrapper contract ABI from the built artifacts
+ * Finds a Wrappers event in the packaged ABI
  */
-function loadWrapperABI(): any[] {
-  const abiPath = resolve("out/Wrappers.sol/Wrappers.json");
-  
-  if (!existsSync(abiPath)) {
-    throw new Error(`ABI file not found: ${abiPath}. Please run 'forge build' first.`);
+function wrapperEvent<N extends WrapperEvent["eventName"]>(name: N) {
+  const event = abis.Wrappers.find(
+    (item): item is Extract<(typeof abis.Wrappers)[number], { type: "event"; name: N }> =>
+      item.type === "event" && item.name === name
+  );
+  if (!event) {
+    throw new Error(`Event ${name} not found in Wrappers ABI`);
   }
+  return event;
+}
 
-  try {
-    const abiData = JSON.parse(readFileSync(abiPath, "utf8"));
-    return abiData.abi;
-  } catch (error) {
-    throw new Error(`Failed to load Wrapper ABI: ${error}`);
+type WrapperEvent = ContractEvent<"Wrappers">;
+
+// Where progress messages are printed
+type Log = (...message: unknown[]) => void;
+
+/**
+ * Decodes a Wrappers log, checking it is the expected event
+ */
+function decodeWrapperEvent<N extends WrapperEvent["eventName"]>(
+  log: RawLog,
+  eventName: N
+): Extract<WrapperEvent, { eventName: N }> {
+  const event = decodeContractLog(log, "Wrappers");
+  if (event?.eventName !== eventName) {
+    throw new Error(`Log ${log.transactionHash} is not a Wrappers ${eventName} event`);
   }
+  return event as Extract<WrapperEvent, { eventName: N }>;
 }
 
-// Mainnet configuration
-const MAINNET_CONFIG = {
-  chain: avalanche,
-  rpc: avalanche.rpcUrls.default.http[0],
-  // You'll need to replace this with the actual mainnet Wrapper contract address
-  wrapperAddress: "0x5C85e3b6C537E8933092c91005F6F037F8CF07f1" as `0x${string}` // TODO: Replace with actual address
-};
+// The Wrappers proxy of the selected network
+interface WrapperSource {
+  address: Address;
+  // Block the proxy was deployed in; nothing is searched before it
+  deploymentBlock: bigint;
+}
 
 /**
  * Fetches events from the Wrapper contract
  */
 async function fetchWrapperEvents(
+  address: Address,
   fromBlock: bigint,
   toBlock: bigint,
-  client: ReturnType<typeof createPublicClient>,
-  eventTypes: string[] = []
+  client: PublicClient,
+  timestamps: TimestampResolver,
+  eventTypes: string[] = [],
+  log: Log = console.log
 ): Promise<{
   imports: ImportEvent[];
   exports: ExportEvent[];
@@ -96,25 +141,18 @@ async function fetchWrapperEvents(
   batchTransfers: BatchTransferEvent[];
   transfers: TransferEvent[];
 }> {
-  console.log(`🔍 Fetching events from block ${fromBlock} to ${toBlock}...`);
+  log(`🔍 Fetching events from block ${fromBlock} to ${toBlock}...`);
   
   if (eventTypes.length > 0) {
-    console.log(`📋 Filtering for event types: ${eventTypes.join(', ')}`);
+    log(`📋 Filtering for event types: ${eventTypes.join(', ')}`);
   }
 
-  // Load the Wrapper contract ABI
-  const wrapperABI = loadWrapperABI();
-  
-  // Find event definitions in the ABI
-  const importEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'Import');
-  const exportEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'Export');
-  const marketplaceTransferEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'MarketplaceTransfer');
-  const batchTransferEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'BatchTransfer');
-  const transferEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'Transfer');
-
-  if (!importEvent || !exportEvent || !marketplaceTransferEvent || !batchTransferEvent || !transferEvent) {
-    throw new Error('Required events not found in Wrapper ABI');
-  }
+  // Event definitions from the packaged Wrappers ABI
+  const importEvent = wrapperEvent("Import");
+  const exportEvent = wrapperEvent("Export");
+  const marketplaceTransferEvent = wrapperEvent("MarketplaceTransfer");
+  const batchTransferEvent = wrapperEvent("BatchTransfer");
+  const transferEvent = wrapperEvent("Transfer");
 
   // Define which events to fetch based on filter
   const shouldFetchImport = eventTypes.length === 0 || eventTypes.includes('import');
@@ -123,37 +161,40 @@ async function fetchWrapperEvents(
   const shouldFetchBatchTransfer = eventTypes.length === 0 || eventTypes.includes('batch');
   const shouldFetchTransfer = eventTypes.length === 0 || eventTypes.includes('transfer');
 
+  // Splits the range whenever the RPC rejects it as too large
+  const logFetcher = createLogFetcher({ publicClient: client });
+
   // Fetch events based on filter
-  const importLogs = shouldFetchImport ? await client.getLogs({
-    address: MAINNET_CONFIG.wrapperAddress,
+  const importLogs = shouldFetchImport ? await logFetcher.getLogs({
+    address,
     event: importEvent,
     fromBlock,
     toBlock
   }) : [];
 
-  const exportLogs = shouldFetchExport ? await client.getLogs({
-    address: MAINNET_CONFIG.wrapperAddress,
+  const exportLogs = shouldFetchExport ? await logFetcher.getLogs({
+    address,
     event: exportEvent,
     fromBlock,
     toBlock
   }) : [];
 
-  const marketplaceTransferLogs = shouldFetchMarketplaceTransfer ? await client.getLogs({
-    address: MAINNET_CONFIG.wrapperAddress,
+  const marketplaceTransferLogs = shouldFetchMarketplaceTransfer ? await logFetcher.getLogs({
+    address,
     event: marketplaceTransferEvent,
     fromBlock,
     toBlock
   }) : [];
 
-  const batchTransferLogs = shouldFetchBatchTransfer ? await client.getLogs({
-    address: MAINNET_CONFIG.wrapperAddress,
+  const batchTransferLogs = shouldFetchBatchTransfer ? await logFetcher.getLogs({
+    address,
     event: batchTransferEvent,
     fromBlock,
     toBlock
   }) : [];
 
-  const transferLogs = shouldFetchTransfer ? await client.getLogs({
-    address: MAINNET_CONFIG.wrapperAddress,
+  const transferLogs = shouldFetchTransfer ? await logFetcher.getLogs({
+    address,
     event: transferEvent,
     fromBlock,
     toBlock
@@ -162,53 +203,40 @@ async function fetchWrapperEvents(
   // Parse and enrich events with timestamps
   const imports: ImportEvent[] = await Promise.all(
     importLogs.map(async (log) => {
-      const parsed = parseEventLogs({
-        abi: wrapperABI,
-        logs: [log]
-      })[0];
-      
-      const block = await client.getBlock({ blockNumber: log.blockNumber });
-      const args = parsed.args as any;
+      const { args } = decodeWrapperEvent(log, "Import");
+      const timestamp = await timestamps.getTimestamp(log.blockNumber);
       
       return {
         user: args.user,
         importData: args.importData,
         blockNumber: log.blockNumber,
         transactionHash: log.transactionHash,
-        timestamp: Number(block.timestamp)
+        logIndex: log.logIndex,
+        timestamp: Number(timestamp)
       };
     })
   );
 
   const exports: ExportEvent[] = await Promise.all(
     exportLogs.map(async (log) => {
-      const parsed = parseEventLogs({
-        abi: wrapperABI,
-        logs: [log]
-      })[0];
-      
-      const block = await client.getBlock({ blockNumber: log.blockNumber });
-      const args = parsed.args as any;
+      const { args } = decodeWrapperEvent(log, "Export");
+      const timestamp = await timestamps.getTimestamp(log.blockNumber);
       
       return {
         user: args.user,
         wrapperIds: args.wrapperIds,
         blockNumber: log.blockNumber,
         transactionHash: log.transactionHash,
-        timestamp: Number(block.timestamp)
+        logIndex: log.logIndex,
+        timestamp: Number(timestamp)
       };
     })
   );
 
   const marketplaceTransfers: MarketplaceTransferEvent[] = await Promise.all(
     marketplaceTransferLogs.map(async (log) => {
-      const parsed = parseEventLogs({
-        abi: wrapperABI,
-        logs: [log]
-      })[0];
-      
-      const block = await client.getBlock({ blockNumber: log.blockNumber });
-      const args = parsed.args as any;
+      const { args } = decodeWrapperEvent(log, "MarketplaceTransfer");
+      const timestamp = await timestamps.getTimestamp(log.blockNumber);
       
       return {
         from: args.from,
@@ -216,20 +244,16 @@ async function fetchWrapperEvents(
         wrapperId: args.wrapperId,
         blockNumber: log.blockNumber,
         transactionHash: log.transactionHash,
-        timestamp: Number(block.timestamp)
+        logIndex: log.logIndex,
+        timestamp: Number(timestamp)
       };
     })
   );
 
   const batchTransfers: BatchTransferEvent[] = await Promise.all(
     batchTransferLogs.map(async (log) => {
-      const parsed = parseEventLogs({
-        abi: wrapperABI,
-        logs: [log]
-      })[0];
-      
-      const block = await client.getBlock({ blockNumber: log.blockNumber });
-      const args = parsed.args as any;
+      const { args } = decodeWrapperEvent(log, "BatchTransfer");
+      const timestamp = await timestamps.getTimestamp(log.blockNumber);
       
       return {
         from: args.from,
@@ -237,20 +261,16 @@ async function fetchWrapperEvents(
         tokenIds: args.tokenIds,
         blockNumber: log.blockNumber,
         transactionHash: log.transactionHash,
-        timestamp: Number(block.timestamp)
+        logIndex: log.logIndex,
+        timestamp: Number(timestamp)
       };
     })
   );
 
   const transfers: TransferEvent[] = await Promise.all(
     transferLogs.map(async (log) => {
-      const parsed = parseEventLogs({
-        abi: wrapperABI,
-        logs: [log]
-      })[0];
-      
-      const block = await client.getBlock({ blockNumber: log.blockNumber });
-      const args = parsed.args as any;
+      const { args } = decodeWrapperEvent(log, "Transfer");
+      const timestamp = await timestamps.getTimestamp(log.blockNumber);
       
       return {
         from: args.from,
@@ -258,7 +278,8 @@ async function fetchWrapperEvents(
         tokenId: args.tokenId,
         blockNumber: log.blockNumber,
         transactionHash: log.transactionHash,
-        timestamp: Number(block.timestamp)
+        logIndex: log.logIndex,
+        timestamp: Number(timestamp)
       };
     })
   );
@@ -387,10 +408,66 @@ function displayEvents(events: {
   console.log(`Total Events: ${events.imports.length + events.exports.length + events.marketplaceTransfers.length + events.batchTransfers.length + filteredTransfers.length}`);
 }
 
+/**
+ * Converts fetched events to the export shape, in chain order
+ */
+function exportableEvents(events: WrapperEvents): ExportableEvent[] {
+  const entry = (
+    eventName: string,
+    { blockNumber, transactionHash, logIndex, timestamp, ...args }: WrapperEvents[keyof WrapperEvents][number]
+  ): ExportableEvent => ({
+    contract: "Wrappers",
+    eventName,
+    args,
+    blockNumber,
+    transactionHash: transactionHash as `0x${string}`,
+    logIndex,
+    timestamp,
+  });
+
+  return sortEvents([
+    ...events.imports.map((event) => entry("Import", event)),
+    ...events.exports.map((event) => entry("Export", event)),
+    ...events.marketplaceTransfers.map((event) => entry("MarketplaceTransfer", event)),
+    ...events.batchTransfers.map((event) => entry("BatchTransfer", event)),
+    ...events.transfers.map((event) => entry("Transfer", event)),
+  ]);
+}
+
+/**
+ * Writes events as CSV, NDJSON or JSON to a file or stdout
+ */
+function exportEvents(events: WrapperEvents, format: ExportFormat, eventTypes: string[], out?: string): void {
+  const selected = eventTypes.length > 0 ? eventTypes : Object.keys(EVENT_TYPES);
+  const columns = selected.map((type) => ({
+    contract: "Wrappers" as const,
+    eventName: EVENT_TYPES[type as keyof typeof EVENT_TYPES],
+  }));
+  const rows = exportableEvents(events);
+  const text = formatEvents(rows, format, columns);
+
+  if (!out) {
+    process.stdout.write(text);
+    return;
+  }
+  writeFileSync(out, text);
+  console.log(`💾 Wrote ${rows.length} events to ${out} (${format})`);
+}
+
+/**
+ * Removes an option and its value from the arguments
+ */
+function takeOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const [, value] = args.splice(index, 2);
+  return value;
+}
+
 /**
  * Gets the latest block number
  */
-async function getLatestBlockNumber(client: ReturnType<typeof createPublicClient>): Promise<bigint> {
+async function getLatestBlockNumber(client: PublicClient): Promise<bigint> {
   const block = await client.getBlock();
   return block.number!;
 }
@@ -399,9 +476,12 @@ async function getLatestBlockNumber(client: ReturnType<typeof createPublicClient
  * Fetches the latest N events from the Wrapper contract
  */
 async function fetchLatestEvents(
+  wrapper: WrapperSource,
   numberOfEvents: number,
-  client: ReturnType<typeof createPublicClient>,
-  eventTypes: string[] = []
+  client: PublicClient,
+  timestamps: TimestampResolver,
+  eventTypes: string[] = [],
+  log: Log = console.log
 ): Promise<{
   imports: ImportEvent[];
   exports: ExportEvent[];
@@ -409,25 +489,18 @@ async function fetchLatestEvents(
   batchTransfers: BatchTransferEvent[];
   transfers: TransferEvent[];
 }> {
-  console.log(`🔍 Fetching latest ${numberOfEvents} events...`);
+  log(`🔍 Fetching latest ${numberOfEvents} events...`);
   
   if (eventTypes.length > 0) {
-    console.log(`📋 Filtering for event types: ${eventTypes.join(', ')}`);
+    log(`📋 Filtering for event types: ${eventTypes.join(', ')}`);
   }
 
-  // Load the Wrapper contract ABI
-  const wrapperABI = loadWrapperABI();
-  
-  // Find event definitions in the ABI
-  const importEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'Import');
-  const exportEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'Export');
-  const marketplaceTransferEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'MarketplaceTransfer');
-  const batchTransferEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'BatchTransfer');
-  const transferEvent = wrapperABI.find((item: any) => item.type === 'event' && item.name === 'Transfer');
-
-  if (!importEvent || !exportEvent || !marketplaceTransferEvent || !batchTransferEvent || !transferEvent) {
-    throw new Error('Required events not found in Wrapper ABI');
-  }
+  // Event definitions from the packaged Wrappers ABI
+  const importEvent = wrapperEvent("Import");
+  const exportEvent = wrapperEvent("Export");
+  const marketplaceTransferEvent = wrapperEvent("MarketplaceTransfer");
+  const batchTransferEvent = wrapperEvent("BatchTransfer");
+  const transferEvent = wrapperEvent("Transfer");
 
   // Define which events to fetch based on filter
   const shouldFetchImport = eventTypes.length === 0 || eventTypes.includes('import');
@@ -436,6 +509,9 @@ async function fetchLatestEvents(
   const shouldFetchBatchTransfer = eventTypes.length === 0 || eventTypes.includes('batch');
   const shouldFetchTransfer = eventTypes.length === 0 || eventTypes.includes('transfer');
 
+  // Splits the range whenever the RPC rejects it as too large
+  const logFetcher = createLogFetcher({ publicClient: client });
+
   const latestBlock = await getLatestBlockNumber(client);
   let currentBlock = latestBlock;
   const chunkSize = 1000; // Fetch 1000 blocks at a time
@@ -452,42 +528,43 @@ async function fetchLatestEvents(
     (allImports.length + allExports.length + allMarketplaceTransfers.length + allBatchTransfers.length + allTransfers.length) < numberOfEvents &&
     blocksSearched < maxBlocksToSearch
   ) {
-    const fromBlock = currentBlock - BigInt(chunkSize) + 1n;
+    const chunkStart = currentBlock - BigInt(chunkSize) + 1n;
+    const fromBlock = chunkStart > wrapper.deploymentBlock ? chunkStart : wrapper.deploymentBlock;
     const toBlock = currentBlock;
 
-    console.log(`🔍 Searching blocks ${fromBlock} to ${toBlock}...`);
+    log(`🔍 Searching blocks ${fromBlock} to ${toBlock}...`);
 
     // Fetch events based on filter
-    const importLogs = shouldFetchImport ? await client.getLogs({
-      address: MAINNET_CONFIG.wrapperAddress,
+    const importLogs = shouldFetchImport ? await logFetcher.getLogs({
+      address: wrapper.address,
       event: importEvent,
       fromBlock,
       toBlock
     }) : [];
 
-    const exportLogs = shouldFetchExport ? await client.getLogs({
-      address: MAINNET_CONFIG.wrapperAddress,
+    const exportLogs = shouldFetchExport ? await logFetcher.getLogs({
+      address: wrapper.address,
       event: exportEvent,
       fromBlock,
       toBlock
     }) : [];
 
-    const marketplaceTransferLogs = shouldFetchMarketplaceTransfer ? await client.getLogs({
-      address: MAINNET_CONFIG.wrapperAddress,
+    const marketplaceTransferLogs = shouldFetchMarketplaceTransfer ? await logFetcher.getLogs({
+      address: wrapper.address,
       event: marketplaceTransferEvent,
       fromBlock,
       toBlock
     }) : [];
 
-    const batchTransferLogs = shouldFetchBatchTransfer ? await client.getLogs({
-      address: MAINNET_CONFIG.wrapperAddress,
+    const batchTransferLogs = shouldFetchBatchTransfer ? await logFetcher.getLogs({
+      address: wrapper.address,
       event: batchTransferEvent,
       fromBlock,
       toBlock
     }) : [];
 
-    const transferLogs = shouldFetchTransfer ? await client.getLogs({
-      address: MAINNET_CONFIG.wrapperAddress,
+    const transferLogs = shouldFetchTransfer ? await logFetcher.getLogs({
+      address: wrapper.address,
       event: transferEvent,
       fromBlock,
       toBlock
@@ -496,53 +573,40 @@ async function fetchLatestEvents(
     // Parse and enrich events with timestamps
     const imports = await Promise.all(
       importLogs.map(async (log) => {
-        const parsed = parseEventLogs({
-          abi: wrapperABI,
-          logs: [log]
-        })[0];
-        
-        const block = await client.getBlock({ blockNumber: log.blockNumber });
-        const args = parsed.args as any;
+        const { args } = decodeWrapperEvent(log, "Import");
+        const timestamp = await timestamps.getTimestamp(log.blockNumber);
         
         return {
           user: args.user,
           importData: args.importData,
           blockNumber: log.blockNumber,
           transactionHash: log.transactionHash,
-          timestamp: Number(block.timestamp)
+          logIndex: log.logIndex,
+          timestamp: Number(timestamp)
         };
       })
     );
 
     const exports = await Promise.all(
       exportLogs.map(async (log) => {
-        const parsed = parseEventLogs({
-          abi: wrapperABI,
-          logs: [log]
-        })[0];
-        
-        const block = await client.getBlock({ blockNumber: log.blockNumber });
-        const args = parsed.args as any;
+        const { args } = decodeWrapperEvent(log, "Export");
+        const timestamp = await timestamps.getTimestamp(log.blockNumber);
         
         return {
           user: args.user,
           wrapperIds: args.wrapperIds,
           blockNumber: log.blockNumber,
           transactionHash: log.transactionHash,
-          timestamp: Number(block.timestamp)
+          logIndex: log.logIndex,
+          timestamp: Number(timestamp)
         };
       })
     );
 
     const marketplaceTransfers = await Promise.all(
       marketplaceTransferLogs.map(async (log) => {
-        const parsed = parseEventLogs({
-          abi: wrapperABI,
-          logs: [log]
-        })[0];
-        
-        const block = await client.getBlock({ blockNumber: log.blockNumber });
-        const args = parsed.args as any;
+        const { args } = decodeWrapperEvent(log, "MarketplaceTransfer");
+        const timestamp = await timestamps.getTimestamp(log.blockNumber);
         
         return {
           from: args.from,
@@ -550,20 +614,16 @@ async function fetchLatestEvents(
           wrapperId: args.wrapperId,
           blockNumber: log.blockNumber,
           transactionHash: log.transactionHash,
-          timestamp: Number(block.timestamp)
+          logIndex: log.logIndex,
+          timestamp: Number(timestamp)
         };
       })
     );
 
     const batchTransfers = await Promise.all(
       batchTransferLogs.map(async (log) => {
-        const parsed = parseEventLogs({
-          abi: wrapperABI,
-          logs: [log]
-        })[0];
-        
-        const block = await client.getBlock({ blockNumber: log.blockNumber });
-        const args = parsed.args as any;
+        const { args } = decodeWrapperEvent(log, "BatchTransfer");
+        const timestamp = await timestamps.getTimestamp(log.blockNumber);
         
         return {
           from: args.from,
@@ -571,20 +631,16 @@ async function fetchLatestEvents(
           tokenIds: args.tokenIds,
           blockNumber: log.blockNumber,
           transactionHash: log.transactionHash,
-          timestamp: Number(block.timestamp)
+          logIndex: log.logIndex,
+          timestamp: Number(timestamp)
         };
       })
     );
 
     const transfers = await Promise.all(
       transferLogs.map(async (log) => {
-        const parsed = parseEventLogs({
-          abi: wrapperABI,
-          logs: [log]
-        })[0];
-        
-        const block = await client.getBlock({ blockNumber: log.blockNumber });
-        const args = parsed.args as any;
+        const { args } = decodeWrapperEvent(log, "Transfer");
+        const timestamp = await timestamps.getTimestamp(log.blockNumber);
         
         return {
           from: args.from,
@@ -592,7 +648,8 @@ async function fetchLatestEvents(
           tokenId: args.tokenId,
           blockNumber: log.blockNumber,
           transactionHash: log.transactionHash,
-          timestamp: Number(block.timestamp)
+          logIndex: log.logIndex,
+          timestamp: Number(timestamp)
         };
       })
     );
@@ -608,8 +665,8 @@ async function fetchLatestEvents(
     currentBlock = fromBlock - 1n;
     blocksSearched += chunkSize;
 
-    // Stop if we've reached the beginning of the chain
-    if (currentBlock < 0n) {
+    // Stop once the proxy's deployment block has been searched
+    if (currentBlock < wrapper.deploymentBlock) {
       break;
     }
   }
@@ -632,7 +689,7 @@ async function fetchLatestEvents(
     transfers: allEvents.filter(e => e.type === 'transfer').map(e => ({ ...e, type: undefined }))
   };
 
-  console.log(`✅ Found ${allEvents.length} events after searching ${blocksSearched} blocks`);
+  log(`✅ Found ${allEvents.length} events after searching ${blocksSearched} blocks`);
   
   return result;
 }
@@ -642,59 +699,99 @@ async function fetchLatestEvents(
  */
 async function main(): Promise<void> {
   try {
-    console.log(`🚀 Starting Wrapper Events Fetcher`);
-    console.log(`Network: Mainnet (Avalanche)`);
-    console.log(`Chain: ${MAINNET_CONFIG.chain.name} (ID: ${MAINNET_CONFIG.chain.id})`);
-    console.log(`RPC: ${MAINNET_CONFIG.rpc}`);
-    console.log(`Contract: ${MAINNET_CONFIG.wrapperAddress}`);
-    console.log("");
-
-    // Check if contract address is set
-    if (MAINNET_CONFIG.wrapperAddress === "0x0000000000000000000000000000000000000000") {
-      console.error("❌ Please set the mainnet Wrapper contract address in the script");
-      console.error("Update the wrapperAddress in MAINNET_CONFIG");
+    const args = argv.slice(2);
+    const format = takeOption(args, "format") as ExportFormat | undefined;
+    const out = takeOption(args, "out");
+
+    if (format && !EXPORT_FORMATS.includes(format)) {
+      console.error(`Unknown format: ${format}. Available: ${EXPORT_FORMATS.join(", ")}`);
+      process.exit(1);
+    }
+    if (out && !format) {
+      console.error("--out needs --format csv|ndjson|json");
+      process.exit(1);
+    }
+    // Progress messages go to stderr so stdout only holds the export
+    const log = format && !out ? console.error : console.log;
+
+    const network = resolveNetwork(takeOption(args, "network") ?? "mainnet");
+    const networkConfig = getNetworkConfig(network);
+    const address = getAddresses(network).Wrappers;
+
+    log(`🚀 Starting Wrapper Events Fetcher`);
+    log(`Network: ${network} (ID: ${networkConfig.chainId})`);
+    log(`RPC: ${networkConfig.rpc}`);
+    log(`Contract: ${address}`);
+    log("");
+
+    // Addresses come from deployments/<network>/latest.json or the package
+    if (BigInt(address) === 0n) {
+      console.error(`❌ No Wrappers address for ${network}`);
+      console.error(`Deploy it, or write deployments/${network}/latest.json (bun run create-deployments)`);
       process.exit(1);
     }
 
     // Create public client
-    console.log("🔌 Creating RPC client...");
+    log("🔌 Creating RPC client...");
     const client = createPublicClient({
-      chain: MAINNET_CONFIG.chain,
-      transport: http(MAINNET_CONFIG.rpc),
+      transport: http(networkConfig.rpc),
     });
-    console.log("✅ RPC client created");
+    log("✅ RPC client created");
+
+    // Block timestamps are shared by every run of the script on the network
+    const timestamps = createTimestampResolver({
+      publicClient: client,
+      cacheFile: `.cache/timestamps-${network}.json`,
+    });
+
+    // The deployment block is only looked up by the modes that need it
+    const deploymentBlock = async () => {
+      const block = await getDeploymentBlock(network, client, "Wrappers");
+      log(`📦 Wrappers deployed at block ${block}`);
+      return block;
+    };
 
     // Parse arguments
-    const arg1 = argv[2];
-    const arg2 = argv[3];
-    const arg3 = argv[4];
+    const [arg1, arg2] = args;
     
     let fromBlock: bigint;
     let toBlock: bigint;
     let eventTypes: string[] = [];
 
-    if (!arg1) {
+    if (!arg1 || arg1 === "help" || arg1 === "--help") {
       console.error("Usage:");
+      console.error("  bun run fetch-wrapper-events.ts all [eventTypes...]");
       console.error("  bun run fetch-wrapper-events.ts [fromBlock] [toBlock] [eventTypes...]");
       console.error("  bun run fetch-wrapper-events.ts latest [numberOfBlocks] [eventTypes...]");
       console.error("  bun run fetch-wrapper-events.ts events [numberOfEvents] [eventTypes...]");
       console.error("");
       console.error("Event Types: import, export, marketplace, batch, transfer");
       console.error("");
+      console.error("Options:");
+      console.error("  --network local|testnet|mainnet   Network to read (default mainnet); addresses come from");
+      console.error("                                    deployments/<network>/latest.json or the package");
+      console.error("  --format csv|ndjson|json          Write the events in a machine-readable format");
+      console.error("  --out <file>                      Write the export to a file instead of stdout");
+      console.error("");
+      console.error("all and events start at the Wrappers proxy deployment block");
+      console.error("");
       console.error("Examples:");
+      console.error("  bun run fetch-wrapper-events.ts all --network testnet");
+      console.error("  bun run fetch-wrapper-events.ts all import --network local --format csv --out imports.csv");
       console.error("  bun run fetch-wrapper-events.ts 1000000 1000100");
       console.error("  bun run fetch-wrapper-events.ts latest 100");
       console.error("  bun run fetch-wrapper-events.ts latest 100 import export");
       console.error("  bun run fetch-wrapper-events.ts 1000000 1000100 marketplace transfer");
       console.error("  bun run fetch-wrapper-events.ts events 10");
       console.error("  bun run fetch-wrapper-events.ts events 20 import export");
+      console.error("  bun run fetch-wrapper-events.ts latest 5000 import batch --format csv --out wrappers.csv");
       process.exit(1);
     }
 
-    // Parse event types (all arguments after the first two)
-    const eventTypeArgs = argv.slice(4);
+    // Parse event types (all arguments after the mode and its value)
+    const eventTypeArgs = args.slice(arg1 === "all" ? 1 : 2);
     if (eventTypeArgs.length > 0) {
-      const validEventTypes = ['import', 'export', 'marketplace', 'batch', 'transfer'];
+      const validEventTypes = Object.keys(EVENT_TYPES);
       eventTypes = eventTypeArgs.filter(type => validEventTypes.includes(type));
       
       if (eventTypes.length !== eventTypeArgs.length) {
@@ -717,11 +814,13 @@ async function main(): Promise<void> {
         console.warn("⚠️  Requesting more than 1000 events may take a long time");
       }
 
-      console.log(`📝 Fetching latest ${numberOfEvents} events`);
-      console.log("");
+      log(`📝 Fetching latest ${numberOfEvents} events`);
+      log("");
 
-      const events = await fetchLatestEvents(numberOfEvents, client, eventTypes);
-      displayEvents(events);
+      const wrapper: WrapperSource = { address, deploymentBlock: await deploymentBlock() };
+      const events = await fetchLatestEvents(wrapper, numberOfEvents, client, timestamps, eventTypes, log);
+      if (format) exportEvents(events, format, eventTypes, out);
+      else displayEvents(events);
       return;
     } else if (arg1 === "latest") {
       // Fetch from latest N blocks
@@ -736,7 +835,13 @@ async function main(): Promise<void> {
       toBlock = latestBlock;
       fromBlock = latestBlock - BigInt(numberOfBlocks) + 1n;
       
-      console.log(`📝 Fetching events from latest ${numberOfBlocks} blocks (${fromBlock} to ${toBlock})`);
+      log(`📝 Fetching events from latest ${numberOfBlocks} blocks (${fromBlock} to ${toBlock})`);
+    } else if (arg1 === "all") {
+      // Fetch everything since the proxy was deployed
+      fromBlock = await deploymentBlock();
+      toBlock = await getLatestBlockNumber(client);
+
+      log(`📝 Fetching all events (${fromBlock} to ${toBlock})`);
     } else {
       // Fetch from specific block range
       if (!arg2) {
@@ -753,15 +858,16 @@ async function main(): Promise<void> {
         process.exit(1);
       }
 
-      console.log(`📝 Fetching events from block ${fromBlock} to ${toBlock}`);
+      log(`📝 Fetching events from block ${fromBlock} to ${toBlock}`);
     }
 
-    console.log("");
+    log("");
 
-    const events = await fetchWrapperEvents(fromBlock, toBlock, client, eventTypes);
-    displayEvents(events);
+    const events = await fetchWrapperEvents(address, fromBlock, toBlock, client, timestamps, eventTypes, log);
+    if (format) exportEvents(events, format, eventTypes, out);
+    else displayEvents(events);
   } catch (error) {
-    console.error("❌ Fatal error:", error instanceof Error ? error.message : "Unknown error");
+    console.error("❌ Fatal error:", formatCrutradeError(error));
     if (error instanceof Error && error.stack) {
       console.error("Stack trace:", error.stack);
     }
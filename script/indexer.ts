@@ -0,0 +1,138 @@
+#!/usr/bin/env bun
+
+/**
+ * @title Event Indexer
+ * @notice Indexes the events of every contract into a local SQLite database
+ * @dev Resumes from the per-contract checkpoints stored in the database, so it
+ *      can be stopped and restarted at any time. Without --once it keeps
+ *      polling for new blocks until interrupted
+ * @author Crutrade Team
+ */
+
+import { writeFileSync } from "fs";
+import { createPublicClient, http } from "viem";
+import { abis } from "../contracts";
+import { formatCrutradeError } from "../sdk/errors";
+import { EXPORT_FORMATS, formatEvents, type ExportFormat } from "../sdk/export";
+import { createIndexer, openEventStore, type EventQuery } from "../sdk/indexer";
+import { contractNames, getDeploymentBlock, type ContractName } from "../sdk/networks";
+import { createTimestampResolver } from "../sdk/timestamps";
+import { option } from "./cli";
+import { getNetworkConfig, resolveNetwork } from "./network-config";
+
+function usage(): never {
+  console.error("Usage:");
+  console.error("  bun script/indexer.ts <network> [--db file] [--from block] [--batch blocks] [--confirmations n] [--once]");
+  console.error("  bun script/indexer.ts <network> query [--db file] [--contract name] [--event name] [--limit n]");
+  console.error("      [--format csv|ndjson|json] [--out file]");
+  console.error("");
+  console.error("--from defaults to the block the proxies were deployed in");
+  console.error("");
+  console.error("Examples:");
+  console.error("  bun script/indexer.ts mainnet --from 60000000");
+  console.error("  bun script/indexer.ts mainnet query --event Buy --limit 20");
+  console.error("  bun script/indexer.ts mainnet query --event Import --limit 0 --format csv --out imports.csv");
+  process.exit(1);
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args[0] || args[0].startsWith("--")) usage();
+  const network = resolveNetwork(args[0]);
+
+  const db = option(args, "db") ?? `indexer-${network}.sqlite`;
+
+  if (args[1] === "query") {
+    const contract = option(args, "contract") as ContractName | undefined;
+    if (contract && !contractNames.includes(contract)) {
+      console.error(`Unknown contract: ${contract}. Available: ${contractNames.join(", ")}`);
+      process.exit(1);
+    }
+
+    const format = option(args, "format") as ExportFormat | undefined;
+    if (format && !EXPORT_FORMATS.includes(format)) {
+      console.error(`Unknown format: ${format}. Available: ${EXPORT_FORMATS.join(", ")}`);
+      process.exit(1);
+    }
+
+    const store = openEventStore(db);
+    const limit = Number(option(args, "limit") ?? 50);
+    const query: EventQuery = {
+      contract,
+      eventName: option(args, "event") as EventQuery["eventName"],
+      descending: true,
+      limit: limit > 0 ? limit : undefined,
+    };
+    const events = store.getEvents(query);
+    store.close();
+
+    if (!format) {
+      for (const event of events) console.log(JSON.stringify(event));
+      return;
+    }
+    // Exports read oldest first, with the columns of the queried event even when nothing matched
+    const eventTypes = query.eventName
+      ? (contract ? [contract] : contractNames)
+          .filter((name) => abis[name].some((item) => item.type === "event" && item.name === query.eventName))
+          .map((name) => ({ contract: name, eventName: query.eventName! }))
+      : events;
+    const text = formatEvents(events.reverse(), format, eventTypes);
+    const out = option(args, "out");
+    if (out) {
+      writeFileSync(out, text);
+      console.log(`💾 Wrote ${events.length} events to ${out} (${format})`);
+    } else {
+      process.stdout.write(text);
+    }
+    return;
+  }
+
+  const config = getNetworkConfig(network);
+  const publicClient = createPublicClient({ transport: http(config.rpc) });
+
+  const from = option(args, "from");
+  const indexer = createIndexer({
+    network,
+    publicClient,
+    store: db,
+    // Contracts without a checkpoint start where the suite was deployed
+    fromBlock: from ? BigInt(from) : await getDeploymentBlock(network, publicClient),
+    batchSize: BigInt(option(args, "batch") ?? 2_000),
+    confirmations: BigInt(option(args, "confirmations") ?? 0),
+    timestamps: createTimestampResolver({ publicClient, cacheFile: `.cache/timestamps-${network}.json` }),
+    onEvents: (events) => {
+      for (const event of events) {
+        console.log(`📥 ${event.contract}.${event.eventName} block ${event.blockNumber} tx ${event.transactionHash}`);
+      }
+    },
+    onReorg: (forkBlock, removed) => {
+      console.log(`🔀 Reorg: rolled back ${removed} events after block ${forkBlock}`);
+    },
+  });
+
+  console.log(`🚀 Indexing ${network} into ${db}`);
+  for (const contract of contractNames) {
+    const checkpoint = indexer.getCheckpoint(contract);
+    console.log(`  ${contract}: ${checkpoint ? `resuming after block ${checkpoint.blockNumber}` : "starting fresh"}`);
+  }
+
+  if (args.includes("--once")) {
+    const stored = await indexer.sync();
+    console.log(`✅ Stored ${stored} events`);
+    indexer.store.close();
+    return;
+  }
+
+  process.on("SIGINT", () => {
+    console.log("\n👋 Stopping after the current poll...");
+    indexer.stop();
+  });
+
+  await indexer.start((error) => console.error("⚠️  Poll failed:", formatCrutradeError(error)));
+  indexer.store.close();
+}
+
+main().catch((error) => {
+  console.error("❌ Fatal error:", formatCrutradeError(error));
+  process.exit(1);
+});
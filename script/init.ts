@@ -4,6 +4,7 @@ import { privateKeyToAccount } from 'viem/accounts';
 import { avalanche, avalancheFuji } from 'viem/chains';
 import { readFileSync, existsSync } from 'fs';
 import { resolve } from 'path';
+import { formatCrutradeError } from '../sdk/errors';
 
 // Simple config
 const isDev = process.env.NODE_ENV === 'dev';
@@ -126,7 +127,7 @@ async function main() {
     console.log('✅ Initialization complete');
 
   } catch (error) {
-    console.error('❌ Init failed:', error.shortMessage || error.message);
+    console.error('❌ Init failed:', formatCrutradeError(error));
     process.exit(1);
   }
 }
@@ -49,6 +49,20 @@ export const NETWORK_CONFIGS: Record<string, NetworkConfig> = {
   },
 };
 
+// Names deploy.ts uses for networks whose manifests and package addresses are kept under another name
+const NETWORK_ALIASES: Record<string, string> = {
+  fuji: "testnet",
+};
+
+/**
+ * @notice Resolve a network alias to the name its deployments are kept under
+ * @param network The network name, e.g. "fuji"
+ * @returns The deployments name, e.g. "testnet"
+ */
+export function resolveNetwork(network: string): string {
+  return NETWORK_ALIASES[network] ?? network;
+}
+
 /**
  * @notice Get network configuration for a specific network
  * @param network The network name
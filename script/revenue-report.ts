@@ -0,0 +1,108 @@
+#!/usr/bin/env bun
+
+/**
+ * @title Revenue Report
+ * @notice Aggregates fee and payment events into a CSV and prints a summary table
+ * @dev Rows are grouped by period, payment token, fee name, operation and
+ *      membership tier. The CSV goes to --out or stdout; the summary always
+ *      goes to the console (stderr when the CSV is on stdout)
+ * @author Crutrade Team
+ */
+
+import { writeFileSync } from "fs";
+import { createPublicClient, http } from "viem";
+import { formatCrutradeError } from "../sdk/errors";
+import { registerLabels } from "../sdk/labels";
+import { getDeploymentBlock } from "../sdk/networks";
+import {
+  REVENUE_PERIODS,
+  createRevenueReporter,
+  formatRevenueAmount,
+  formatRevenueCsv,
+  type RevenuePeriod,
+  type RevenueRow,
+} from "../sdk/revenue";
+import { createTimestampResolver } from "../sdk/timestamps";
+import { option } from "./cli";
+import { getNetworkConfig, resolveNetwork } from "./network-config";
+
+function usage(): never {
+  console.error("Usage:");
+  console.error("  bun script/revenue-report.ts <network> [--from block] [--to block] [--period day|week|month]");
+  console.error("      [--out file] [--fee-names NAME,...]");
+  console.error("");
+  console.error("--fee-names registers custom Payments fee names so they are shown instead of their hash");
+  console.error("--from defaults to the block the proxies were deployed in");
+  console.error("");
+  console.error("Examples:");
+  console.error("  bun script/revenue-report.ts mainnet --from 60000000 --period month --out revenue.csv");
+  console.error("  bun script/revenue-report.ts mainnet --from 60000000 --period week > revenue.csv");
+  process.exit(1);
+}
+
+/**
+ * @notice Totals per token, operation and fee name over the whole range
+ */
+function summarize(rows: readonly RevenueRow[]) {
+  const totals = new Map<string, RevenueRow>();
+  for (const row of rows) {
+    const key = [row.token ?? "", row.operation, row.feeName].join("|");
+    const total = totals.get(key) ?? totals.set(key, { ...row, period: "", tier: 0n, count: 0, amount: 0n }).get(key)!;
+    total.count += row.count;
+    total.amount += row.amount;
+  }
+  return [...totals.values()].map((total) => ({
+    token: total.token ?? "unknown",
+    operation: total.operation,
+    fee: total.feeName,
+    count: total.count,
+    amount: formatRevenueAmount(total.amount, total.decimals),
+  }));
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args[0] || args[0].startsWith("--")) usage();
+  const network = resolveNetwork(args[0]);
+
+  const period = (option(args, "period") ?? "month") as RevenuePeriod;
+  if (!REVENUE_PERIODS.includes(period)) {
+    console.error(`Unknown period: ${period}. Available: ${REVENUE_PERIODS.join(", ")}`);
+    process.exit(1);
+  }
+  const feeNames = option(args, "fee-names");
+  if (feeNames) registerLabels(...feeNames.split(","));
+
+  const out = option(args, "out");
+  const log = out ? console.log : console.error;
+  const to = option(args, "to");
+  const from = option(args, "from");
+
+  const publicClient = createPublicClient({ transport: http(getNetworkConfig(network).rpc) });
+  const reporter = createRevenueReporter({
+    network,
+    publicClient,
+    fromBlock: from ? BigInt(from) : await getDeploymentBlock(network, publicClient),
+    timestamps: createTimestampResolver({ publicClient, cacheFile: `.cache/timestamps-${network}.json` }),
+  });
+
+  log(`💰 Collecting revenue on ${network}...`);
+  const { lines, rows } = await reporter.report({ period, toBlock: to ? BigInt(to) : undefined });
+
+  const csv = formatRevenueCsv(rows);
+  if (out) {
+    writeFileSync(out, csv);
+    log(`💾 Wrote ${rows.length} rows to ${out}`);
+  } else {
+    process.stdout.write(csv);
+  }
+
+  log(`\n=== SUMMARY (${lines.length} charges) ===`);
+  if (out) console.table(summarize(rows));
+  else console.error(Bun.inspect.table(summarize(rows)));
+}
+
+main().catch((error) => {
+  console.error("❌ Fatal error:", formatCrutradeError(error));
+  process.exit(1);
+});
@@ -37,6 +37,10 @@ echo "🔨 Building contracts..."
 forge clean
 forge build --skip test
 
+# Block the upgrade when the new storage layout is incompatible with the deployed one
+echo "🧱 Checking storage layout compatibility..."
+bun script/upgrade-check.ts fuji --contracts Wrappers --rpc $FUJI_RPC
+
 # Run the custom upgrade script
 echo "🚀 Running custom upgrade script..."
 echo "🔍 Using Snowtrace for verification..."
@@ -46,6 +50,9 @@ forge script script/safe-upgrade-v1.5.0-custom.s.sol:SafeUpgradeV1_5_0Custom \
     --broadcast \
     --verify
 
+# Record the layout of the new implementation for the next upgrade
+bun script/upgrade-check.ts fuji --contracts Wrappers --rpc $FUJI_RPC --record
+
 echo ""
 echo "✅ Custom UUPS Upgrade Completed!"
 echo "=================================="
@@ -2,13 +2,14 @@
 
 import { ethers } from "ethers";
 import * as fs from "fs";
+import { getBroadcastAddress } from "../sdk/broadcast";
+import { decodeCrutradeError } from "../sdk/errors";
 
 // --- Config ---
 const MAINNET_RPC =
   process.env.MAINNET_RPC || "https://api.avax.network/ext/bc/C/rpc";
 const FUJI_RPC =
   process.env.FUJI_RPC || "https://api.avax-test.network/ext/bc/C/rpc";
-const DEPLOYMENT_PATH = "./broadcast/deploy.s.sol/43114/run-latest.json";
 const ABI_PATH = "./out/Wrappers.sol/Wrappers.json";
 const CONTRACT_NAME = "Wrappers";
 
@@ -47,38 +48,11 @@ function getContractAddress(environment: string): string {
     return CONTRACT_ADDRESSES[environment as keyof typeof CONTRACT_ADDRESSES];
   }
 
-  // Fallback to reading from deployment file
+  // Fallback to the deployment's broadcast files
   try {
-    const data = JSON.parse(fs.readFileSync(DEPLOYMENT_PATH, "utf8"));
-    const contractOrder = [
-      "Roles",
-      "Brands",
-      "Wrappers",
-      "Whitelist",
-      "Payments",
-      "Sales",
-      "Memberships",
-      "USDCApprovalProxy",
-    ];
-    const proxyAddresses: string[] = [];
-    for (const tx of data.transactions) {
-      if (
-        tx.transactionType === "CREATE" &&
-        tx.contractName === "ERC1967Proxy"
-      ) {
-        proxyAddresses.push(tx.contractAddress);
-      }
-    }
-    const idx = contractOrder.indexOf(CONTRACT_NAME);
-    if (idx >= 0 && idx < proxyAddresses.length) {
-      return proxyAddresses[idx];
-    }
-    const tx = data.transactions.find(
-      (t: any) => t.contractName === CONTRACT_NAME
-    );
-    if (tx) return tx.contractAddress;
+    return getBroadcastAddress(CONTRACT_NAME, environment === "production" ? 43114 : 43113);
   } catch (error) {
-    console.warn("Could not read deployment file, using predefined address");
+    console.warn(`Could not resolve from broadcast files: ${(error as Error).message}`);
   }
 
   throw new Error(
@@ -177,18 +151,16 @@ async function main() {
       console.error("❌ Transaction failed!");
 
       // Try to decode the error
-      if (error.data) {
-        console.error("📋 Error data:", error.data);
-
-        // Check if it's a custom error
-        if (error.data.startsWith("0xb87a12a9")) {
-          console.error(
-            "🔍 This appears to be a 'NotAllowed' error - your wallet doesn't have the required role"
-          );
+      const decoded = decodeCrutradeError(error);
+      if (decoded) {
+        console.error(`🔍 ${decoded.name}: ${decoded.message}`);
+        if (decoded.name === "NotAllowed") {
           console.error(
             "💡 Make sure your wallet has the OWNER role in the Roles contract"
           );
         }
+      } else if (error.data) {
+        console.error("📋 Error data:", error.data);
       }
 
       if (error.reason) {
@@ -0,0 +1,202 @@
+/**
+ * @title Storage Layouts
+ * @notice Records the storage layout of each deployed implementation and checks upgrades against it
+ * @dev Layouts come from the storageLayout output of the out/ artifacts
+ *      (extra_output in foundry.toml) and are kept per implementation in
+ *      deployments/<network>/layouts/<implementation>.json, so the layout of
+ *      the version a proxy runs is known after out/ has moved on. Comparison
+ *      uses @openzeppelin/upgrades-core; the OpenZeppelin parents keep their
+ *      state in ERC-7201 namespaces, outside of these layouts
+ * @author Crutrade Team
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { resolve } from "path";
+import {
+  getStorageUpgradeReport,
+  withValidationDefaults,
+  type StorageItem,
+  type StorageLayout,
+  type TypeItem,
+} from "@openzeppelin/upgrades-core";
+import type { Address } from "viem";
+
+/// @notice The storageLayout of a forge artifact, as emitted by solc
+export interface ArtifactStorageLayout {
+  storage: Omit<StorageItem, "src">[];
+  /// @notice null when the contract has no storage
+  types: Record<string, TypeItem> | null;
+}
+
+/// @notice Content of deployments/<network>/layouts/<implementation>.json
+export interface RecordedLayout {
+  contract: string;
+  implementation: Address;
+  timestamp: string;
+  commit?: string;
+  storageLayout: ArtifactStorageLayout;
+}
+
+export type StorageChangeKind = "inserted" | "removed" | "retyped" | "renamed" | "replaced" | "moved" | "gap";
+
+/// @notice A difference that makes the new layout incompatible with the deployed one
+export interface StorageChange {
+  kind: StorageChangeKind;
+  /// @notice Variable, or struct member, affected
+  label: string;
+  /// @notice Slot of the variable in the deployed layout, or in the new one for insertions
+  slot?: string;
+  /// @notice Deployed type, or name for renames
+  from?: string;
+  /// @notice New type, or name for renames
+  to?: string;
+}
+
+export interface LayoutCheck {
+  contract: string;
+  implementation: Address;
+  /// @notice "unrecorded" when no layout was recorded for the deployed implementation
+  status: "compatible" | "incompatible" | "unrecorded";
+  changes: StorageChange[];
+  /// @notice upgrades-core's explanation of the changes
+  explanation?: string;
+}
+
+export interface LayoutOptions {
+  /// @notice Forge output directory (default ./out)
+  out?: string;
+  /// @notice Deployments directory (default ./deployments)
+  dir?: string;
+}
+
+/**
+ * @notice Reads the storage layout of a contract from its forge artifact
+ * @throws When the artifact is missing or was built without the storageLayout output
+ */
+export function readArtifactLayout(contract: string, options: LayoutOptions = {}): ArtifactStorageLayout {
+  const path = resolve(options.out ?? "out", `${contract}.sol`, `${contract}.json`);
+  if (!existsSync(path)) throw new Error(`No artifact for ${contract} at ${path}; run forge build first`);
+  const layout = JSON.parse(readFileSync(path, "utf8")).storageLayout as ArtifactStorageLayout | undefined;
+  if (!layout) throw new Error(`${path} has no storageLayout; check extra_output in foundry.toml`);
+  return layout;
+}
+
+const layoutPath = (network: string, implementation: Address, options: LayoutOptions) =>
+  resolve(options.dir ?? "deployments", network, "layouts", `${implementation.toLowerCase()}.json`);
+
+/**
+ * @notice Loads the layout recorded for an implementation
+ * @returns undefined when none was recorded
+ */
+export function loadRecordedLayout(
+  network: string,
+  implementation: Address,
+  options: LayoutOptions = {}
+): RecordedLayout | undefined {
+  const path = layoutPath(network, implementation, options);
+  return existsSync(path) ? (JSON.parse(readFileSync(path, "utf8")) as RecordedLayout) : undefined;
+}
+
+/**
+ * @notice Records the current out/ layout of a contract as the one of a deployed implementation
+ * @dev Only valid while out/ is built from the sources the implementation was
+ *      deployed from. An existing record is kept, as an implementation's layout never changes
+ * @returns Whether a layout was written
+ */
+export function recordLayout(
+  network: string,
+  contract: string,
+  implementation: Address,
+  options: LayoutOptions & { commit?: string } = {}
+): boolean {
+  const path = layoutPath(network, implementation, options);
+  if (existsSync(path)) return false;
+  const record: RecordedLayout = {
+    contract,
+    implementation,
+    timestamp: new Date().toISOString(),
+    commit: options.commit,
+    storageLayout: readArtifactLayout(contract, options),
+  };
+  mkdirSync(resolve(path, ".."), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(record, null, 2)}\n`);
+  return true;
+}
+
+/// @notice Adds the src field upgrades-core reports locations with; solc only gives "file:Contract"
+function toStorageLayout(layout: ArtifactStorageLayout): StorageLayout {
+  return {
+    storage: layout.storage.map((item) => ({ ...item, src: item.contract.split(":")[0]! })),
+    types: layout.types ?? {},
+  };
+}
+
+type Operation = ReturnType<typeof getStorageUpgradeReport>["ops"][number];
+
+const typeLabel = (item: { type: { item: { label: string } } }) => item.type.item.label;
+
+function describeOperation(op: Operation): StorageChange {
+  switch (op.kind) {
+    case "insert":
+    // Appends are compatible and never reported
+    case "append":
+      return { kind: "inserted", label: op.updated.label, slot: op.updated.slot, to: typeLabel(op.updated) };
+    case "delete":
+      return { kind: "removed", label: op.original.label, slot: op.original.slot, from: typeLabel(op.original) };
+    case "delete-namespace":
+      return { kind: "removed", label: op.namespace };
+    case "typechange":
+      return { kind: "retyped", label: op.original.label, slot: op.original.slot, from: typeLabel(op.original), to: typeLabel(op.updated) };
+    case "rename":
+      return { kind: "renamed", label: op.original.label, slot: op.original.slot, from: op.original.label, to: op.updated.label };
+    case "replace":
+      return { kind: "replaced", label: op.original.label, slot: op.original.slot, from: typeLabel(op.original), to: `${op.updated.label}: ${typeLabel(op.updated)}` };
+    case "layoutchange":
+      return {
+        kind: "moved",
+        label: op.original.label,
+        slot: op.original.slot,
+        from: `slot ${op.original.slot}, offset ${op.original.offset}`,
+        to: `slot ${op.updated.slot}, offset ${op.updated.offset}`,
+      };
+    case "shrinkgap":
+    case "finishgap":
+      return { kind: "gap", label: op.original.label, slot: op.original.slot, from: typeLabel(op.original), to: typeLabel(op.updated) };
+  }
+}
+
+/**
+ * @notice Compares a deployed layout with a new one
+ * @dev Appending variables is compatible; inserting, removing, retyping,
+ *      renaming or moving them is not. Enums are reported as incompatible,
+ *      as solc's storage layout output does not list their members
+ */
+export function compareStorageLayouts(
+  deployed: ArtifactStorageLayout,
+  updated: ArtifactStorageLayout
+): { changes: StorageChange[]; explanation?: string } {
+  const report = getStorageUpgradeReport(toStorageLayout(deployed), toStorageLayout(updated), withValidationDefaults({}));
+  if (report.ok) return { changes: [] };
+  // As in the explanation, variables shifted by an earlier change are not listed again
+  const ops = report.ops.filter((op, i) => op.kind !== "layoutchange" || i === 0);
+  return { changes: ops.map(describeOperation), explanation: report.explain(false) };
+}
+
+/**
+ * @notice Checks the out/ layouts against the ones recorded for the deployed implementations
+ * @param network Deployments network, e.g. "testnet"
+ * @param implementations Deployed implementation of each contract to check
+ * @returns One entry per contract; the upgrade is safe only when all are compatible
+ */
+export function checkStorageLayouts(
+  network: string,
+  implementations: Record<string, Address>,
+  options: LayoutOptions = {}
+): LayoutCheck[] {
+  return Object.entries(implementations).map(([contract, implementation]) => {
+    const recorded = loadRecordedLayout(network, implementation, options);
+    if (!recorded) return { contract, implementation, status: "unrecorded", changes: [] };
+    const { changes, explanation } = compareStorageLayouts(recorded.storageLayout, readArtifactLayout(contract, options));
+    return { contract, implementation, status: changes.length ? "incompatible" : "compatible", changes, explanation };
+  });
+}
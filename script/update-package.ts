@@ -1,13 +1,16 @@
 #!/usr/bin/env bun
-import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { writeFileSync, readFileSync, existsSync, readdirSync } from 'fs';
 import { resolve } from 'path';
 
 const contracts = ['Roles', 'Brands', 'Wrappers', 'Whitelist', 'Payments', 'Sales', 'Memberships', 'USDCApprovalProxy'] as const;
 
+// Networks that are always present in the package, even before their first deployment
+const defaultNetworks = ['mainnet', 'testnet', 'local'];
+
 async function loadAbi(contractName: string) {
   const abiPath = resolve(`out/${contractName}.sol/${contractName}.json`);
   if (!existsSync(abiPath)) return [];
-  
+
   try {
     const artifact = JSON.parse(readFileSync(abiPath, 'utf8'));
     return artifact.abi;
@@ -17,40 +20,50 @@ async function loadAbi(contractName: string) {
 }
 
 function loadDeployments() {
-  const deployments: any = { mainnet: {}, testnet: {} };
-  
-  // Load mainnet
-  const mainnetPath = resolve('deployments/mainnet/latest.json');
-  if (existsSync(mainnetPath)) {
-    try {
-      const mainnetData = JSON.parse(readFileSync(mainnetPath, 'utf8'));
-      deployments.mainnet = mainnetData.contracts || {};
-    } catch {}
+  const deployments: Record<string, Record<string, string>> = {};
+  const blocks: Record<string, Record<string, number>> = {};
+  for (const network of defaultNetworks) {
+    deployments[network] = {};
+    blocks[network] = {};
   }
-  
-  // Load testnet  
-  const testnetPath = resolve('deployments/testnet/latest.json');
-  if (existsSync(testnetPath)) {
+
+  // Every deployments/<network>/latest.json becomes a network in the package
+  const deploymentsDir = resolve('deployments');
+  const networks = existsSync(deploymentsDir)
+    ? readdirSync(deploymentsDir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name)
+    : [];
+
+  for (const network of networks) {
+    const latestPath = resolve(deploymentsDir, network, 'latest.json');
+    if (!existsSync(latestPath)) continue;
+
     try {
-      const testnetData = JSON.parse(readFileSync(testnetPath, 'utf8'));
-      deployments.testnet = testnetData.contracts || {};
+      const data = JSON.parse(readFileSync(latestPath, 'utf8'));
+      deployments[network] = data.contracts || {};
+      blocks[network] = data.blocks || {};
     } catch {}
   }
-  
-  return deployments;
+
+  return { deployments, blocks };
+}
+
+function networkKey(network: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(network) ? network : `'${network}'`;
 }
 
 async function updatePackage() {
-  const deployments = loadDeployments();
+  const { deployments, blocks } = loadDeployments();
   const timestamp = new Date().toISOString();
-  
+
   // Load all ABIs
   const abis: Record<string, any> = {};
   for (const contract of contracts) {
     abis[contract] = await loadAbi(contract);
   }
-  
-  const indexContent = `// Auto-generated - Do not edit manually
+
+  const contractsContent = `// Auto-generated - Do not edit manually
 // Updated: ${timestamp}
 
 import type { Address } from 'viem';
@@ -62,33 +75,27 @@ ${contracts.map(name => `  ${name}: ${JSON.stringify(abis[name], null, 2)} as co
 
 // Contract addresses
 export const addresses = {
-  mainnet: {
-${contracts.map(name => {
-    const addr = deployments.mainnet[name.toLowerCase()] || '0x0000000000000000000000000000000000000000';
-    return `    ${name}: '${addr}' as Address,`;
-  }).join('\n')}
-  },
-  testnet: {
+${Object.entries(deployments).map(([network, deployed]) => `  ${networkKey(network)}: {
 ${contracts.map(name => {
-    const addr = deployments.testnet[name.toLowerCase()] || '0x0000000000000000000000000000000000000000';
+    const addr = deployed[name.toLowerCase()] || '0x0000000000000000000000000000000000000000';
     return `    ${name}: '${addr}' as Address,`;
   }).join('\n')}
-  }
+  },`).join('\n')}
 };
 
-// Helper function
-export function getContract(name: keyof typeof addresses.mainnet, network: 'mainnet' | 'testnet') {
-  return {
-    address: addresses[network][name],
-    abi: abis[name]
-  };
-}
-
-// Default export
-export default { abis, addresses, getContract };`;
+// Proxy deployment blocks, so event scans need no historical state to find them
+export const deploymentBlocks: Record<string, Partial<Record<keyof typeof abis, bigint>>> = {
+${Object.entries(blocks).map(([network, recorded]) => {
+    const lines = contracts
+      .filter(name => recorded[name.toLowerCase()] !== undefined)
+      .map(name => `    ${name}: ${recorded[name.toLowerCase()]}n,\n`);
+    return `  ${networkKey(network)}: {${lines.length ? `\n${lines.join('')}  ` : ''}},`;
+  }).join('\n')}
+};
+`;
 
-  writeFileSync(resolve('index.ts'), indexContent);
+  writeFileSync(resolve('contracts.ts'), contractsContent);
   console.log('📦 Package updated');
 }
 
-updatePackage().catch(console.error);
\ No newline at end of file
+updatePackage().catch(console.error);
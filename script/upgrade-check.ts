@@ -0,0 +1,111 @@
+#!/usr/bin/env bun
+
+/**
+ * @title Upgrade Check
+ * @notice Blocks an upgrade whose storage layout is incompatible with the deployed one
+ * @dev Reads the implementation behind each proxy on-chain and compares the
+ *      layout recorded for it with the one of the new out/ artifacts. Run it
+ *      after `forge build` and before the safe-upgrade scripts: it exits with 1
+ *      when a slot was inserted, removed or retyped, or when no layout was
+ *      recorded for a deployed implementation. `--record` records the out/
+ *      layouts for the deployed implementations, right after an upgrade
+ * @author Crutrade Team
+ */
+
+import { createPublicClient, getAddress, http, zeroAddress, zeroHash, type Address } from "viem";
+import { $ } from "bun";
+import { formatCrutradeError } from "../sdk/errors";
+import { contractNames, getAddresses, type ContractName } from "../sdk/networks";
+import { IMPLEMENTATION_SLOT } from "../sdk/verify";
+import { option } from "./cli";
+import { getNetworkConfig, resolveNetwork } from "./network-config";
+import { checkStorageLayouts, recordLayout, type LayoutCheck } from "./storage-layouts";
+
+function usage(): never {
+  console.error("Usage:");
+  console.error("  bun script/upgrade-check.ts <network> [--contracts A,B] [--rpc url] [--out dir] [--json]");
+  console.error("  bun script/upgrade-check.ts <network> --record [--contracts A,B] [--rpc url] [--out dir]");
+  console.error("");
+  console.error("Layouts are recorded in deployments/<network>/layouts/<implementation>.json");
+  console.error("");
+  console.error("Examples:");
+  console.error("  bun run upgrade-check fuji --contracts Wrappers");
+  console.error("  bun script/upgrade-check.ts mainnet --record");
+  process.exit(1);
+}
+
+function printReport(network: string, checks: LayoutCheck[]): void {
+  console.log(`🧱 Storage layouts of ${network}\n`);
+  for (const check of checks) {
+    if (check.status === "compatible") {
+      console.log(`  ✅ ${check.contract}`);
+    } else if (check.status === "unrecorded") {
+      console.log(`  ❌ ${check.contract}: no layout recorded for ${check.implementation}`);
+    } else {
+      console.log(`  ❌ ${check.contract}: incompatible with ${check.implementation}`);
+      for (const change of check.changes) {
+        const detail = change.from || change.to ? ` (${change.from ?? "-"} → ${change.to ?? "-"})` : "";
+        console.log(`       ${change.kind} ${change.label}${change.slot ? ` at slot ${change.slot}` : ""}${detail}`);
+      }
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args[0] || args[0].startsWith("--")) usage();
+  const network = resolveNetwork(args[0]);
+  const addresses = getAddresses(network);
+  const out = option(args, "out");
+  const names = option(args, "contracts")?.split(",") ?? contractNames;
+  for (const name of names) {
+    if (!contractNames.includes(name as ContractName)) throw new Error(`Unknown contract ${name}`);
+  }
+
+  // The implementation each proxy runs now, whatever the manifests say
+  const publicClient = createPublicClient({ transport: http(option(args, "rpc") ?? getNetworkConfig(network).rpc) });
+  const implementations: Record<string, Address> = {};
+  for (const name of names as ContractName[]) {
+    const proxy = addresses[name];
+    if (proxy.toLowerCase() === zeroAddress) continue;
+    const slot = await publicClient.getStorageAt({ address: proxy, slot: IMPLEMENTATION_SLOT });
+    implementations[name] = getAddress(`0x${(slot ?? zeroHash).slice(-40)}`);
+  }
+
+  if (args.includes("--record")) {
+    const commit = (await $`git rev-parse HEAD`.quiet().nothrow()).stdout.toString().trim() || undefined;
+    for (const [name, implementation] of Object.entries(implementations)) {
+      const written = recordLayout(network, name, implementation, { out, commit });
+      console.log(`${written ? "📝 Recorded" : "⏭️  Kept"} ${name} layout for ${implementation}`);
+    }
+    return;
+  }
+
+  const checks = checkStorageLayouts(network, implementations, { out });
+  const blocked = checks.filter((check) => check.status !== "compatible");
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(checks, null, 2));
+  } else {
+    printReport(network, checks);
+    for (const check of blocked) {
+      if (check.explanation) console.log(`\n${check.explanation}`);
+    }
+    console.log("");
+    console.log(
+      blocked.length === 0
+        ? `✅ All ${checks.length} layouts are compatible with the deployed implementations`
+        : `❌ Upgrade blocked: ${blocked.map((check) => check.contract).join(", ")} cannot be upgraded safely`
+    );
+    if (blocked.some((check) => check.status === "unrecorded")) {
+      console.log(`   Record the deployed layouts from a build of the deployed commit with --record`);
+    }
+  }
+
+  if (blocked.length > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("❌ Fatal error:", formatCrutradeError(error));
+  process.exit(1);
+});
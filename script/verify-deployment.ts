@@ -0,0 +1,130 @@
+#!/usr/bin/env bun
+
+/**
+ * @title Deployment Verification
+ * @notice Checks a deployment's on-chain setup after `bun script/deploy.ts <network>`
+ * @dev Reads the addresses from the manifest and compares the live state with
+ *      what deploy.ts configured from RoleConfig and PaymentsConfig. Prints a
+ *      pass/fail report and exits with 1 on any drift
+ * @author Crutrade Team
+ */
+
+import type { Address } from "viem";
+import { createPublicClient, http } from "viem";
+import { formatCrutradeError } from "../sdk/errors";
+import { getAddresses } from "../sdk/networks";
+import { verifyDeployment, type DeploymentCheck, type DeploymentExpectations, type RoleGrant } from "../sdk/verify";
+import { option } from "./cli";
+import { NETWORK_CONFIGS, getNetworkConfig, resolveNetwork } from "./network-config";
+import { getPaymentsConfig } from "./payments-config";
+import { getRolesConfig, type RoleConfig } from "./roles-config";
+
+function usage(): never {
+  console.error("Usage:");
+  console.error("  bun script/verify-deployment.ts <network> [--rpc url] [--json]");
+  console.error("");
+  console.error("Addresses come from deployments/<network>/latest.json or the package; expected");
+  console.error("implementations from deployments/<network>/history.ndjson when it exists");
+  console.error("");
+  console.error("Examples:");
+  console.error("  bun script/verify-deployment.ts local");
+  console.error("  bun script/verify-deployment.ts mainnet --rpc https://api.avax.network/ext/bc/C/rpc");
+  process.exit(1);
+}
+
+// Optional RoleConfig entries and the role they stand for
+const OPTIONAL_ROLES = {
+  lister: "LISTER",
+  buyer: "BUYER",
+  renewer: "RENEWER",
+  withdrawer: "WITHDRAWER",
+} as const satisfies Partial<Record<keyof RoleConfig, RoleGrant["role"]>>;
+
+/**
+ * @notice The state deploy.ts leaves behind for a network
+ * @dev deploy.s.sol grants the admin roles to the owner; treasury, fiat, pauser
+ *      and upgrader are expected to hold their role as configured
+ */
+function getExpectations(network: string): DeploymentExpectations {
+  const roles = getRolesConfig(network);
+  const payments = getPaymentsConfig(network);
+  const grant = (role: RoleGrant["role"], account: string): RoleGrant => ({ role, account: account as Address });
+
+  const grants = [
+    grant("DEFAULT_ADMIN_ROLE", roles.owner),
+    grant("OWNER", roles.owner),
+    grant("OPERATIONAL", roles.operational1),
+    grant("OPERATIONAL", roles.operational2),
+    grant("TREASURY", roles.treasury),
+    grant("FIAT", roles.fiat),
+    grant("PAUSER", roles.pauser),
+    grant("UPGRADER", roles.upgrader),
+  ];
+  for (const [key, role] of Object.entries(OPTIONAL_ROLES)) {
+    const account = roles[key as keyof typeof OPTIONAL_ROLES];
+    if (account) grants.push(grant(role, account));
+  }
+
+  return {
+    grants,
+    // Payments pays fiat settlements from the FIAT primary address
+    roleAddresses: { FIAT: roles.fiat as Address },
+    // deploy.ts overrides the Payments treasury with the roles config one
+    treasury: roles.treasury as Address,
+    fiatFeePercentage: BigInt(payments.fiatFeePercentage),
+    membershipFees: Object.fromEntries(
+      payments.membershipFees.map((fee) => [
+        fee.membershipId.toString(),
+        { sellerFee: BigInt(fee.sellerFee), buyerFee: BigInt(fee.buyerFee) },
+      ])
+    ),
+    // Local deployments use a MockUSDC deployed alongside
+    paymentToken: NETWORK_CONFIGS[network]?.usdc as Address | undefined,
+  };
+}
+
+function printReport(network: string, checks: DeploymentCheck[]): void {
+  console.log(`🔎 Deployment of ${network}\n`);
+  for (const category of [...new Set(checks.map((check) => check.category))]) {
+    console.log(`${category}:`);
+    for (const check of checks.filter((candidate) => candidate.category === category)) {
+      if (check.ok) {
+        console.log(`  ✅ ${check.name}`);
+      } else {
+        console.log(`  ❌ ${check.name}`);
+        console.log(`       expected ${check.expected ?? "-"}, got ${check.actual ?? "-"}`);
+      }
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args[0] || args[0].startsWith("--")) usage();
+  const network = resolveNetwork(args[0]);
+  // Fails early for networks without addresses
+  getAddresses(network);
+
+  const publicClient = createPublicClient({ transport: http(option(args, "rpc") ?? getNetworkConfig(network).rpc) });
+  const checks = await verifyDeployment({ network, publicClient, expected: getExpectations(network) });
+  const failed = checks.filter((check) => !check.ok);
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(checks, null, 2));
+  } else {
+    printReport(network, checks);
+    console.log("");
+    console.log(
+      failed.length === 0
+        ? `✅ All ${checks.length} checks passed`
+        : `❌ ${failed.length} of ${checks.length} checks failed: the deployment drifted from its configuration`
+    );
+  }
+
+  if (failed.length > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("❌ Fatal error:", formatCrutradeError(error));
+  process.exit(1);
+});
@@ -0,0 +1,101 @@
+#!/usr/bin/env bun
+
+/**
+ * @title Event Watcher
+ * @notice Watches every contract and POSTs signed webhooks to the configured endpoints
+ * @dev Endpoints come from a JSON file (default webhooks.json, git-ignored):
+ *      { "endpoints": [{ "url": "...", "secret": "$WEBHOOK_SECRET", "topics": ["Sales.*"] }],
+ *        "maxAttempts": 8, "baseDelayMs": 1000 }
+ *      A secret starting with $ is read from that environment variable. The
+ *      outbox, cursors and dead letters live in .cache/webhooks-<network>/, so
+ *      a restarted watcher resends what was pending and re-scans what it missed
+ * @author Crutrade Team
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { createPublicClient, http } from "viem";
+import { formatCrutradeError } from "../sdk/errors";
+import { createTimestampResolver } from "../sdk/timestamps";
+import { createEventWatcher } from "../sdk/watcher";
+import { createWebhookOutbox, type WebhookEndpoint, type WebhookOutboxConfig } from "../sdk/webhooks";
+import { option } from "./cli";
+import { getNetworkConfig, resolveNetwork } from "./network-config";
+
+function usage(): never {
+  console.error("Usage:");
+  console.error("  bun script/watch-events.ts <network> [--config file] [--from block] [--interval ms]");
+  console.error("");
+  console.error("--from only applies to contracts that have no cursor yet; by default they start at the head");
+  console.error("");
+  console.error("Examples:");
+  console.error("  bun script/watch-events.ts mainnet");
+  console.error("  bun script/watch-events.ts fuji --config webhooks.fuji.json --from 38000000");
+  process.exit(1);
+}
+
+/**
+ * @notice Reads the endpoints and retry policy, resolving $VARIABLE secrets
+ */
+function loadConfig(file: string): Omit<WebhookOutboxConfig, "file" | "deadLetterFile"> {
+  if (!existsSync(file)) {
+    console.error(`Webhook config not found: ${file}`);
+    process.exit(1);
+  }
+  const config = JSON.parse(readFileSync(file, "utf8")) as Omit<WebhookOutboxConfig, "file" | "deadLetterFile">;
+  if (!Array.isArray(config.endpoints) || config.endpoints.length === 0) {
+    throw new Error(`${file} has no endpoints`);
+  }
+
+  const endpoints = config.endpoints.map((endpoint): WebhookEndpoint => {
+    if (!endpoint.secret?.startsWith("$")) return endpoint;
+    const secret = process.env[endpoint.secret.slice(1)];
+    if (!secret) throw new Error(`Environment variable ${endpoint.secret.slice(1)} is not set (secret of ${endpoint.url})`);
+    return { ...endpoint, secret };
+  });
+  return { ...config, endpoints };
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (!args[0] || args[0].startsWith("--")) usage();
+  const network = resolveNetwork(args[0]);
+
+  const config = loadConfig(option(args, "config") ?? "webhooks.json");
+  const dir = `.cache/webhooks-${network}`;
+  const from = option(args, "from");
+
+  const outbox = createWebhookOutbox({ ...config, file: `${dir}/outbox.json`, deadLetterFile: `${dir}/dead-letter.ndjson` });
+  const publicClient = createPublicClient({ transport: http(getNetworkConfig(network).rpc) });
+  const watcher = createEventWatcher({
+    network,
+    publicClient,
+    outbox,
+    stateFile: `${dir}/state.json`,
+    fromBlock: from ? BigInt(from) : undefined,
+    pollingInterval: Number(option(args, "interval") ?? 4_000),
+    timestamps: createTimestampResolver({ publicClient, cacheFile: `.cache/timestamps-${network}.json` }),
+    onError: (error) => console.error("⚠️ ", formatCrutradeError(error)),
+  });
+
+  console.log(`🚀 Watching ${network} for ${config.endpoints.length} endpoint(s)`);
+  for (const endpoint of config.endpoints) {
+    console.log(`  ${endpoint.url}: ${endpoint.topics?.join(", ") ?? "all topics"}`);
+  }
+  if (outbox.pending().length) console.log(`📬 Resending ${outbox.pending().length} pending deliveries`);
+
+  const head = await watcher.start();
+  console.log(`👀 Caught up to block ${head}, waiting for new events...`);
+
+  process.on("SIGINT", async () => {
+    console.log("\n👋 Stopping...");
+    await watcher.stop();
+    const pending = outbox.pending().length;
+    console.log(pending ? `📬 ${pending} deliveries pending, sent on next start` : "✅ Nothing pending");
+    process.exit(0);
+  });
+}
+
+main().catch((error) => {
+  console.error("❌ Fatal error:", formatCrutradeError(error));
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+#!/usr/bin/env bun
+
+/**
+ * @title Wrapper Provenance
+ * @notice Prints the chain of custody of a wrapper and its current data
+ * @dev Combines Import, Transfer, MarketplaceTransfer, BatchTransfer, the
+ *      List / Renew / Withdraw / Buy events of its sales and Export into one
+ *      timeline, followed by the getWrapperData snapshot
+ * @author Crutrade Team
+ */
+
+import { createPublicClient, http } from "viem";
+import { formatCrutradeError } from "../sdk/errors";
+import { serializeEvent } from "../sdk/events";
+import { isoTimestamp } from "../sdk/export";
+import { getDeploymentBlock } from "../sdk/networks";
+import { createProvenanceResolver, type ProvenanceEvent } from "../sdk/provenance";
+import { createTimestampResolver } from "../sdk/timestamps";
+import { option } from "./cli";
+import { getNetworkConfig, resolveNetwork } from "./network-config";
+
+function usage(): never {
+  console.error("Usage:");
+  console.error("  bun script/wrapper-provenance.ts <network> <wrapperId> [--from block] [--json]");
+  console.error("");
+  console.error("--from defaults to the block the proxies were deployed in");
+  console.error("");
+  console.error("Examples:");
+  console.error("  bun script/wrapper-provenance.ts mainnet 1234 --from 60000000");
+  console.error("  bun script/wrapper-provenance.ts mainnet 1234 --json > wrapper-1234.json");
+  process.exit(1);
+}
+
+/**
+ * @notice One line describing what an event did to the wrapper
+ */
+function describe(event: ProvenanceEvent, wrapperId: bigint): string {
+  switch (event.eventName) {
+    case "Import": {
+      const item = event.args.importData.find((data) => data.wrapperId === wrapperId)!;
+      return `Imported for ${event.args.user} (metaKey ${item.metaKey}, sku ${item.sku}, token ${item.tokenId})`;
+    }
+    case "Transfer":
+      return `ERC-721 transfer ${event.args.from} -> ${event.args.to}`;
+    case "MarketplaceTransfer":
+      return `Marketplace transfer ${event.args.from} -> ${event.args.to}`;
+    case "BatchTransfer":
+      return `Batch transfer ${event.args.from} -> ${event.args.to} (${event.args.tokenIds.length} wrappers)`;
+    case "List":
+      return `Listed as sale ${event.args.salesId} by ${event.args.wallet} for ${event.args.output.price} (${event.args.output.erc20})`;
+    case "Renew":
+      return `Sale ${event.args.salesId} renewed until ${isoTimestamp(event.args.date.expireListDate)}`;
+    case "Withdraw":
+      return `Sale ${event.args.salesId} withdrawn by ${event.args.wallet}`;
+    case "Buy":
+      return `Sale ${event.args.salesId} bought by ${event.args.wallet}`;
+    case "Export":
+      return `Exported by ${event.args.user}`;
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const [name, id] = args;
+  if (!name || !id || id.startsWith("--")) usage();
+  const network = resolveNetwork(name);
+
+  const wrapperId = BigInt(id);
+  const from = option(args, "from");
+  const publicClient = createPublicClient({ transport: http(getNetworkConfig(network).rpc) });
+  const resolver = createProvenanceResolver({
+    network,
+    publicClient,
+    fromBlock: from ? BigInt(from) : await getDeploymentBlock(network, publicClient, "Wrappers"),
+    timestamps: createTimestampResolver({ publicClient, cacheFile: `.cache/timestamps-${network}.json` }),
+  });
+
+  const provenance = await resolver.resolve(wrapperId);
+
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(serializeEvent(provenance), null, 2));
+    return;
+  }
+
+  console.log(`📜 Wrapper ${wrapperId} on ${network} (block ${provenance.blockNumber})\n`);
+  if (provenance.timeline.length === 0) console.log("  No events found");
+  for (const event of provenance.timeline) {
+    console.log(`  ${isoTimestamp(event.timestamp)}  ${describe(event, wrapperId)}`);
+    console.log(`    block ${event.blockNumber} tx ${event.transactionHash}`);
+  }
+
+  console.log("");
+  if (provenance.owner) console.log(`👤 Holder: ${provenance.owner}`);
+  if (provenance.saleIds.length > 0) console.log(`🏷️  Sales: ${provenance.saleIds.join(", ")}`);
+
+  const { snapshot } = provenance;
+  if (!snapshot) {
+    console.log("❌ getWrapperData: wrapper not found");
+    return;
+  }
+  console.log("📦 getWrapperData:");
+  console.log(`  uri:        ${snapshot.uri}`);
+  console.log(`  metaKey:    ${snapshot.metaKey}`);
+  console.log(`  tokenId:    ${snapshot.tokenId}`);
+  console.log(`  brandId:    ${snapshot.brandId}`);
+  console.log(`  collection: ${snapshot.collection}`);
+  console.log(`  amount:     ${snapshot.amount}`);
+  console.log(`  active:     ${snapshot.active ? "yes" : "no (exported)"}`);
+}
+
+main().catch((error) => {
+  console.error("❌ Fatal error:", formatCrutradeError(error));
+  process.exit(1);
+});
@@ -0,0 +1,287 @@
+/**
+ * @title Broadcast Resolver
+ * @notice Resolves contract addresses from Foundry broadcast files
+ * @dev Proxies are matched to their contract through the implementation
+ *      address passed to the ERC1967Proxy constructor, never through deploy
+ *      order. Every run of the given scripts is replayed in time order from
+ *      the latest run that deployed a Roles proxy (a fresh deployment), so
+ *      later partial runs (a single new proxy, upgradeToAndCall calls) apply
+ *      on top while older deployments are ignored. Transactions without a
+ *      successful receipt, e.g. of an interrupted run, are skipped.
+ *      summarizeBroadcastRuns lists what runs did, for deployment plans
+ * @author Crutrade Team
+ */
+
+import type { Address, Hex } from "viem";
+import { decodeCrutradeLogs, type CrutradeEvent, type RawLog } from "./events";
+import { nodeFs } from "./fs";
+import { contractNames, type ContractAddresses } from "./networks";
+
+/// @notice A transaction as recorded in run-*.json
+export interface BroadcastTransaction {
+  hash: Hex | null;
+  transactionType: string;
+  contractName: string | null;
+  /// @notice Created address for CREATE, called address for CALL
+  contractAddress: Address | null;
+  function?: string | null;
+  arguments?: string[] | null;
+}
+
+/// @notice A receipt as recorded in run-*.json
+export interface BroadcastReceipt {
+  transactionHash: Hex;
+  blockNumber: string | number;
+  status?: string;
+  gasUsed?: string | number;
+  effectiveGasPrice?: string | number;
+  logs?: RawLog[];
+}
+
+/// @notice The content of a run-*.json file
+export interface BroadcastRun {
+  transactions: BroadcastTransaction[];
+  receipts?: BroadcastReceipt[];
+  /// @notice Unix time of the run
+  timestamp?: number;
+}
+
+export interface BroadcastContract {
+  name: string;
+  /// @notice Address to call: the proxy of upgradeable contracts
+  address: Address;
+  proxy?: Address;
+  /// @notice Current implementation, following upgradeToAndCall calls
+  implementation: Address;
+  /// @notice Block the contract (its proxy when proxied) was deployed in
+  blockNumber: bigint;
+  transactionHash: Hex;
+}
+
+export interface BroadcastOptions {
+  /// @notice Broadcast directory (default ./broadcast)
+  dir?: string;
+  /// @notice Scripts whose runs are replayed, e.g. upgrade scripts (default deploy.s.sol)
+  scripts?: string[];
+}
+
+/// @notice A broadcast file and its content
+export interface BroadcastRunFile {
+  file: string;
+  run: BroadcastRun;
+}
+
+/// @notice A transaction of a run, as listed in a deployment plan
+export interface BroadcastStep {
+  transactionHash: Hex;
+  /// @notice Contract created, or the contract called
+  contract: string;
+  address: Address;
+  /// @notice Function signature of calls; undefined for creations
+  function?: string;
+  /// @notice Suite contract behind a created or called proxy
+  proxyOf?: string;
+  reverted: boolean;
+  gasUsed: bigint;
+  /// @notice gasUsed times the effective gas price, in wei
+  cost: bigint;
+}
+
+/// @notice What a set of runs did, from their transactions and receipts
+export interface BroadcastSummary {
+  contracts: Record<string, BroadcastContract>;
+  creations: BroadcastStep[];
+  calls: BroadcastStep[];
+  /// @notice Events emitted by the suite's contracts, e.g. RoleGranted or MembershipFeesUpdated
+  events: CrutradeEvent[];
+  gasUsed: bigint;
+  cost: bigint;
+}
+
+export interface BroadcastDeployment {
+  chainId: number;
+  contracts: Record<string, BroadcastContract>;
+  /// @notice Files replayed, oldest first
+  files: string[];
+}
+
+const PROXY_NAME = "ERC1967Proxy";
+const ROOT_CONTRACT = "Roles";
+
+const isCreate = (tx: BroadcastTransaction) => tx.transactionType === "CREATE" || tx.transactionType === "CREATE2";
+const isProxy = (tx: BroadcastTransaction) => isCreate(tx) && tx.contractName === PROXY_NAME;
+
+/// @notice Blocks of the transactions of a run that succeeded, keyed by lowercase hash
+function minedBlocks(run: BroadcastRun): Map<string, bigint> {
+  const mined = new Map<string, bigint>();
+  for (const receipt of run.receipts ?? []) {
+    if (receipt.status === undefined || BigInt(receipt.status) === 1n) {
+      mined.set(receipt.transactionHash.toLowerCase(), BigInt(receipt.blockNumber));
+    }
+  }
+  return mined;
+}
+
+/**
+ * @notice Replays broadcast runs into the contracts they leave deployed
+ * @param runs Runs in time order
+ * @returns Contracts keyed by name; suite contracts are only listed once their proxy is mined
+ */
+export function replayBroadcastRuns(runs: readonly BroadcastRun[]): Record<string, BroadcastContract> {
+  const mined = runs.map(minedBlocks);
+  const isMined = (tx: BroadcastTransaction, i: number) => !!tx.hash && mined[i]!.has(tx.hash.toLowerCase());
+
+  // A fresh deployment makes everything before it irrelevant
+  let start = 0;
+  runs.forEach((run, i) => {
+    const roles = new Set(
+      run.transactions.filter((tx) => tx.contractName === ROOT_CONTRACT).map((tx) => tx.contractAddress?.toLowerCase())
+    );
+    if (run.transactions.some((tx) => isProxy(tx) && isMined(tx, i) && roles.has(tx.arguments?.[0]?.toLowerCase()))) {
+      start = i;
+    }
+  });
+
+  const implementations = new Map<string, string>();
+  const proxied = new Set<string>(contractNames);
+  const direct: Record<string, BroadcastContract> = {};
+  const contracts: Record<string, BroadcastContract> = {};
+
+  for (let i = start; i < runs.length; i++) {
+    for (const tx of runs[i]!.transactions) {
+      const blockNumber = tx.hash ? mined[i]!.get(tx.hash.toLowerCase()) : undefined;
+      if (blockNumber === undefined || !tx.contractAddress) continue;
+      const location = { blockNumber, transactionHash: tx.hash! };
+
+      if (isProxy(tx)) {
+        const implementation = tx.arguments?.[0] as Address | undefined;
+        const name = implementation && implementations.get(implementation.toLowerCase());
+        if (!name) continue;
+        proxied.add(name);
+        contracts[name] = { name, address: tx.contractAddress, proxy: tx.contractAddress, implementation, ...location };
+      } else if (isCreate(tx) && tx.contractName) {
+        implementations.set(tx.contractAddress.toLowerCase(), tx.contractName);
+        direct[tx.contractName] = { name: tx.contractName, address: tx.contractAddress, implementation: tx.contractAddress, ...location };
+      } else if (tx.transactionType === "CALL" && tx.function?.startsWith("upgradeToAndCall(")) {
+        const upgraded = Object.values(contracts).find((contract) => contract.proxy?.toLowerCase() === tx.contractAddress!.toLowerCase());
+        if (upgraded) upgraded.implementation = tx.arguments![0] as Address;
+      }
+    }
+  }
+
+  // Contracts that are never behind a proxy are called directly
+  for (const [name, contract] of Object.entries(direct)) {
+    if (!proxied.has(name)) contracts[name] = contract;
+  }
+  return contracts;
+}
+
+/**
+ * @notice Lists the run files of a script on a chain, oldest first
+ * @dev run-latest.json is a copy of the newest run and only used when it is the only file
+ */
+function runFiles(dir: string, script: string, chainId: number): string[] {
+  const fs = nodeFs();
+  const path = `${dir}/${script}/${chainId}`;
+  if (!fs || !fs.existsSync(path)) return [];
+
+  const files = fs.readdirSync(path).filter((file) => /^run-\d+\.json$/.test(file));
+  if (files.length === 0) return fs.existsSync(`${path}/run-latest.json`) ? [`${path}/run-latest.json`] : [];
+  return files.sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0])).map((file) => `${path}/${file}`);
+}
+
+/**
+ * @notice Loads the runs of the given scripts on a chain, oldest first
+ * @param chainId Chain id of the broadcast directory
+ * @param options Broadcast directory and scripts to load
+ */
+export function loadBroadcastRuns(chainId: number, options: BroadcastOptions = {}): BroadcastRunFile[] {
+  const { dir = "broadcast", scripts = ["deploy.s.sol"] } = options;
+  const fs = nodeFs();
+  if (!fs) throw new Error("Broadcast files can only be read with file system access");
+
+  const runs = scripts
+    .flatMap((script) => runFiles(dir, script, chainId))
+    .map((file) => ({ file, run: JSON.parse(fs.readFileSync(file, "utf8")) as BroadcastRun }))
+    .map((entry) => ({ ...entry, order: entry.run.timestamp ?? Number(entry.file.match(/run-(\d+)\.json$/)?.[1] ?? 0) }));
+  // Runs of different scripts interleave by time
+  runs.sort((a, b) => a.order - b.order);
+  return runs.map(({ file, run }) => ({ file, run }));
+}
+
+/**
+ * @notice Resolves the contracts deployed on a chain from its broadcast files
+ * @param chainId Chain id of the broadcast directory
+ * @param options Broadcast directory and scripts to replay
+ */
+export function resolveBroadcast(chainId: number, options: BroadcastOptions = {}): BroadcastDeployment {
+  const runs = loadBroadcastRuns(chainId, options);
+  return {
+    chainId,
+    contracts: replayBroadcastRuns(runs.map((entry) => entry.run)),
+    files: runs.map((entry) => entry.file),
+  };
+}
+
+/**
+ * @notice Lists the contracts created, the calls made, the events emitted and the gas spent by runs
+ * @param runs Runs in time order, e.g. of a deployment on a fork
+ * @dev Only transactions with a receipt are listed; events are decoded with the replayed addresses
+ */
+export function summarizeBroadcastRuns(runs: readonly BroadcastRun[]): BroadcastSummary {
+  const contracts = replayBroadcastRuns(runs);
+  const proxies = new Map(
+    Object.values(contracts)
+      .filter((contract) => contract.proxy)
+      .map((contract) => [contract.proxy!.toLowerCase(), contract.name])
+  );
+  const addresses = Object.fromEntries(
+    Object.values(contracts).map((contract) => [contract.name, contract.address])
+  ) as Partial<ContractAddresses>;
+
+  const summary: BroadcastSummary = { contracts, creations: [], calls: [], events: [], gasUsed: 0n, cost: 0n };
+  for (const run of runs) {
+    const receipts = new Map((run.receipts ?? []).map((receipt) => [receipt.transactionHash.toLowerCase(), receipt]));
+    for (const tx of run.transactions) {
+      const receipt = tx.hash ? receipts.get(tx.hash.toLowerCase()) : undefined;
+      if (!receipt || !tx.contractAddress) continue;
+
+      const gasUsed = BigInt(receipt.gasUsed ?? 0);
+      const step: BroadcastStep = {
+        transactionHash: receipt.transactionHash,
+        contract: tx.contractName ?? proxies.get(tx.contractAddress.toLowerCase()) ?? "unknown",
+        address: tx.contractAddress,
+        proxyOf: proxies.get(tx.contractAddress.toLowerCase()),
+        reverted: receipt.status !== undefined && BigInt(receipt.status) !== 1n,
+        gasUsed,
+        cost: gasUsed * BigInt(receipt.effectiveGasPrice ?? 0),
+      };
+      if (isCreate(tx)) {
+        summary.creations.push(step);
+      } else {
+        summary.calls.push({ ...step, function: tx.function ?? undefined });
+      }
+      summary.gasUsed += step.gasUsed;
+      summary.cost += step.cost;
+      summary.events.push(...decodeCrutradeLogs(receipt.logs ?? [], { addresses }));
+    }
+  }
+  return summary;
+}
+
+/**
+ * @notice Gets the address to call for a contract from the broadcast files
+ * @param name Contract name as compiled, e.g. "Sales"
+ * @param chainId Chain id of the broadcast directory
+ * @param options Broadcast directory and scripts to replay
+ * @returns The proxy of upgradeable contracts, the contract itself otherwise
+ */
+export function getBroadcastAddress(name: string, chainId: number, options: BroadcastOptions = {}): Address {
+  const { contracts, files } = resolveBroadcast(chainId, options);
+  const contract = contracts[name];
+  if (!contract) {
+    const source = files.length ? files.join(", ") : `${options.dir ?? "broadcast"} (no runs for chain ${chainId})`;
+    throw new Error(`${name} is not deployed according to ${source}`);
+  }
+  return contract.address;
+}
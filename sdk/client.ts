@@ -0,0 +1,137 @@
+/**
+ * @title Crutrade Client
+ * @notice Builds typed viem contract instances for the whole contract suite
+ * @dev Every instance shares the same public and wallet client, and the
+ *      network's chain id is checked against both clients on creation
+ * @author Crutrade Team
+ */
+
+import {
+  getContract as viemGetContract,
+  type Account,
+  type Chain,
+  type Client,
+  type GetContractReturnType,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { abis } from "../contracts";
+import {
+  contractNames,
+  getAddresses,
+  getChainId,
+  type ContractAddresses,
+  type ContractName,
+  type Network,
+} from "./networks";
+
+export interface CrutradeClientConfig<
+  TPublicClient extends PublicClient<Transport, Chain | undefined> = PublicClient,
+  TWalletClient extends WalletClient<Transport, Chain | undefined, Account | undefined> | undefined = undefined,
+> {
+  network: Network;
+  publicClient: TPublicClient;
+  walletClient?: TWalletClient;
+}
+
+export type CrutradeContracts<
+  TPublicClient extends PublicClient<Transport, Chain | undefined> = PublicClient,
+  TWalletClient extends WalletClient<Transport, Chain | undefined, Account | undefined> | undefined = undefined,
+> = {
+  [TName in ContractName]: GetContractReturnType<
+    (typeof abis)[TName],
+    TWalletClient extends WalletClient<Transport, Chain | undefined, Account | undefined>
+      ? { public: TPublicClient; wallet: TWalletClient }
+      : TPublicClient
+  >;
+};
+
+export type CrutradeClient<
+  TPublicClient extends PublicClient<Transport, Chain | undefined> = PublicClient,
+  TWalletClient extends WalletClient<Transport, Chain | undefined, Account | undefined> | undefined = undefined,
+> = CrutradeContracts<TPublicClient, TWalletClient> & {
+  network: Network;
+  chainId: number;
+  addresses: ContractAddresses;
+  publicClient: TPublicClient;
+  walletClient: TWalletClient;
+};
+
+/**
+ * @notice Throws if a client is bound to a different chain than the network
+ * @param label Name of the client, used in the error message
+ * @param chain The chain the client is configured with
+ * @param network The selected network
+ * @param chainId The network's chain id
+ */
+function assertChain(label: string, chain: Chain | undefined, network: Network, chainId: number): void {
+  if (chain && chain.id !== chainId) {
+    throw new Error(
+      `${label} is on chain ${chain.id} but network "${network}" is chain ${chainId}`
+    );
+  }
+}
+
+/**
+ * @notice Creates typed contract instances for every Crutrade contract
+ * @param config The network and the viem clients to bind
+ * @returns The contract instances keyed by name, plus the resolved addresses
+ */
+export function createCrutradeClient<
+  TPublicClient extends PublicClient<Transport, Chain | undefined>,
+  TWalletClient extends WalletClient<Transport, Chain | undefined, Account | undefined> | undefined = undefined,
+>(
+  config: CrutradeClientConfig<TPublicClient, TWalletClient>
+): CrutradeClient<TPublicClient, TWalletClient> {
+  const { network, publicClient, walletClient } = config;
+
+  const chainId = getChainId(network) ?? publicClient.chain?.id;
+  if (chainId === undefined) {
+    throw new Error(
+      `Unknown chain id for network "${network}". Pass it to registerAddresses or configure the client's chain`
+    );
+  }
+  assertChain("publicClient", publicClient.chain, network, chainId);
+  assertChain("walletClient", walletClient?.chain, network, chainId);
+
+  const addresses = getAddresses(network);
+  const client: Client | { public: Client; wallet: Client } = walletClient
+    ? { public: publicClient, wallet: walletClient }
+    : publicClient;
+
+  const contracts = {} as Record<ContractName, unknown>;
+  for (const name of contractNames) {
+    contracts[name] = viemGetContract({
+      address: addresses[name],
+      abi: abis[name],
+      client,
+    });
+  }
+
+  return {
+    ...(contracts as CrutradeContracts<TPublicClient, TWalletClient>),
+    network,
+    chainId,
+    addresses,
+    publicClient,
+    walletClient: walletClient as TWalletClient,
+  };
+}
+
+/**
+ * @notice Asks the node which chain it is on and compares it with the network
+ * @param client A client created with createCrutradeClient
+ * @dev Useful when the viem clients were created without a chain, in which
+ *      case createCrutradeClient cannot check them synchronously
+ */
+export async function verifyCrutradeClient(
+  client: Pick<CrutradeClient<PublicClient<Transport, Chain | undefined>>, "network" | "chainId" | "publicClient">
+): Promise<void> {
+  const actual = await client.publicClient.getChainId();
+  if (actual !== client.chainId) {
+    throw new Error(
+      `RPC is on chain ${actual} but network "${client.network}" is chain ${client.chainId}`
+    );
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * @title EIP-712 Messages
+ * @notice Typed data builders and signers for the messages verified by ModifiersBase
+ * @dev Types mirror the *_TYPEHASH constants in ModifiersBase.sol; the function
+ *      selector is computed from the packaged ABI so it follows signature changes
+ * @author Crutrade Team
+ */
+
+import {
+  encodeAbiParameters,
+  getAbiItem,
+  keccak256,
+  recoverTypedDataAddress,
+  toFunctionSelector,
+  type Abi,
+  type Account,
+  type Address,
+  type Hex,
+  type SignTypedDataParameters,
+  type TypedDataDomain,
+} from "viem";
+import { abis } from "../contracts";
+import { getAddresses, getChainId, type Network } from "./networks";
+
+/// @notice EIP-712 domain version used by every Crutrade contract
+export const DOMAIN_VERSION = "1";
+
+/// @notice EIP-712 domain name of the Sales contract
+export const SALES_DOMAIN_NAME = "Crutrade Sales";
+
+/// @notice EIP-712 domain name of the Payments contract
+export const PAYMENTS_DOMAIN_NAME = "Crutrade Payments";
+
+const EIP712_DOMAIN_TYPE = [
+  { name: "name", type: "string" },
+  { name: "version", type: "string" },
+  { name: "chainId", type: "uint256" },
+  { name: "verifyingContract", type: "address" },
+] as const;
+
+/// @notice Typed data definitions of the Sales messages
+export const salesMessageTypes = {
+  CrutradeListMessage: [
+    { name: "functionSelector", type: "bytes4" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "wrapperId", type: "uint256" },
+    { name: "directSaleId", type: "uint256" },
+    { name: "isFiat", type: "bool" },
+    { name: "price", type: "uint256" },
+    { name: "expireType", type: "uint256" },
+  ],
+  CrutradeBuyMessage: [
+    { name: "functionSelector", type: "bytes4" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "directSaleId", type: "uint256" },
+    { name: "saleId", type: "uint256" },
+    { name: "isFiat", type: "bool" },
+  ],
+  CrutradeWithdrawMessage: [
+    { name: "functionSelector", type: "bytes4" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "directSaleId", type: "uint256" },
+    { name: "saleId", type: "uint256" },
+    { name: "isFiat", type: "bool" },
+  ],
+  CrutradeRenewMessage: [
+    { name: "functionSelector", type: "bytes4" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "directSaleId", type: "uint256" },
+    { name: "saleId", type: "uint256" },
+    { name: "isFiat", type: "bool" },
+    { name: "expireType", type: "uint256" },
+  ],
+} as const;
+
+export type SalesMessageType = keyof typeof salesMessageTypes;
+
+/// @notice Typed data definition of the generic message checked by checkSignatureEIP712
+export const crutradeMessageTypes = {
+  CrutradeMessage: [
+    { name: "functionSelector", type: "bytes4" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "dataHash", type: "bytes32" },
+  ],
+} as const;
+
+export interface EIP712Domain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: Address;
+}
+
+interface BaseMessage {
+  nonce: bigint;
+  expiry: bigint;
+}
+
+export interface ListMessage extends BaseMessage {
+  wrapperId: bigint;
+  directSaleId: bigint;
+  isFiat: boolean;
+  price: bigint;
+  expireType: bigint;
+}
+
+export interface BuyMessage extends BaseMessage {
+  directSaleId: bigint;
+  saleId: bigint;
+  isFiat: boolean;
+}
+
+export type WithdrawMessage = BuyMessage;
+
+export interface RenewMessage extends BuyMessage {
+  expireType: bigint;
+}
+
+export interface CrutradeMessage extends BaseMessage {
+  dataHash: Hex;
+}
+
+export interface SendMessage extends BaseMessage {
+  erc20: Address;
+  to: Address;
+  amount: bigint;
+}
+
+/**
+ * @notice Typed data ready for signTypedData / hashTypedData
+ * @dev message always carries the functionSelector filled from the ABI
+ */
+export interface TypedMessage<TPrimaryType extends string, TMessage> {
+  domain: EIP712Domain;
+  types: Record<string, readonly { name: string; type: string }[]>;
+  primaryType: TPrimaryType;
+  message: TMessage & { functionSelector: Hex };
+}
+
+/// @notice Anything that can sign typed data: a viem local account or a wallet client
+export interface TypedDataSigner {
+  account?: Account | Address;
+  signTypedData: (args: SignTypedDataParameters<Record<string, unknown>, string, Account>) => Promise<Hex>;
+}
+
+/**
+ * @notice Returns the selector of a contract function from its ABI
+ * @param contract Contract whose ABI declares the function
+ * @param functionName The function name
+ */
+export function getFunctionSelector(contract: keyof typeof abis, functionName: string): Hex {
+  const abi: Abi = abis[contract];
+  const item = getAbiItem({ abi, name: functionName });
+  if (!item || item.type !== "function") {
+    throw new Error(`Function ${functionName} not found in ${contract} ABI`);
+  }
+  return toFunctionSelector(item);
+}
+
+/**
+ * @notice Builds the Sales EIP-712 domain
+ * @param chainId Chain id the Sales proxy is deployed on
+ * @param verifyingContract The Sales proxy address
+ */
+export function getSalesDomain(chainId: number, verifyingContract: Address): EIP712Domain {
+  return { name: SALES_DOMAIN_NAME, version: DOMAIN_VERSION, chainId, verifyingContract };
+}
+
+/**
+ * @notice Resolves the Sales EIP-712 domain of a network
+ * @param network The network name
+ */
+export function resolveSalesDomain(network: Network): EIP712Domain {
+  const chainId = getChainId(network);
+  if (chainId === undefined) throw new Error(`Unknown chain id for network "${network}"`);
+  return getSalesDomain(chainId, getAddresses(network).Sales);
+}
+
+/**
+ * @notice Builds the Payments EIP-712 domain
+ * @param chainId Chain id the Payments proxy is deployed on
+ * @param verifyingContract The Payments proxy address
+ */
+export function getPaymentsDomain(chainId: number, verifyingContract: Address): EIP712Domain {
+  return { name: PAYMENTS_DOMAIN_NAME, version: DOMAIN_VERSION, chainId, verifyingContract };
+}
+
+/**
+ * @notice Resolves the Payments EIP-712 domain of a network
+ * @param network The network name
+ */
+export function resolvePaymentsDomain(network: Network): EIP712Domain {
+  const chainId = getChainId(network);
+  if (chainId === undefined) throw new Error(`Unknown chain id for network "${network}"`);
+  return getPaymentsDomain(chainId, getAddresses(network).Payments);
+}
+
+function buildSalesMessage<TPrimaryType extends SalesMessageType, TMessage>(
+  primaryType: TPrimaryType,
+  functionName: string,
+  domain: EIP712Domain,
+  message: TMessage
+): TypedMessage<TPrimaryType, TMessage> {
+  return {
+    domain,
+    types: { [primaryType]: salesMessageTypes[primaryType] },
+    primaryType,
+    message: { functionSelector: getFunctionSelector("Sales", functionName), ...message },
+  };
+}
+
+/**
+ * @notice Builds the typed data a seller signs to list a wrapper
+ * @param domain The Sales domain
+ * @param message The list parameters
+ */
+export function buildListMessage(domain: EIP712Domain, message: ListMessage) {
+  return buildSalesMessage("CrutradeListMessage", "list", domain, message);
+}
+
+/**
+ * @notice Builds the typed data a buyer signs to buy a sale
+ * @param domain The Sales domain
+ * @param message The buy parameters
+ */
+export function buildBuyMessage(domain: EIP712Domain, message: BuyMessage) {
+  return buildSalesMessage("CrutradeBuyMessage", "buy", domain, message);
+}
+
+/**
+ * @notice Builds the typed data a seller signs to withdraw a sale
+ * @param domain The Sales domain
+ * @param message The withdraw parameters
+ */
+export function buildWithdrawMessage(domain: EIP712Domain, message: WithdrawMessage) {
+  return buildSalesMessage("CrutradeWithdrawMessage", "withdraw", domain, message);
+}
+
+/**
+ * @notice Builds the typed data a seller signs to renew an expired sale
+ * @param domain The Sales domain
+ * @param message The renew parameters
+ */
+export function buildRenewMessage(domain: EIP712Domain, message: RenewMessage) {
+  return buildSalesMessage("CrutradeRenewMessage", "renew", domain, message);
+}
+
+/**
+ * @notice Builds a generic CrutradeMessage
+ * @param domain Domain of the contract verifying the message
+ * @param contract Contract declaring the protected function
+ * @param functionName The protected function
+ * @param message Nonce, expiry and the hash of the function's data
+ */
+export function buildCrutradeMessage(
+  domain: EIP712Domain,
+  contract: keyof typeof abis,
+  functionName: string,
+  message: CrutradeMessage
+): TypedMessage<"CrutradeMessage", CrutradeMessage> {
+  return {
+    domain,
+    types: { ...crutradeMessageTypes },
+    primaryType: "CrutradeMessage",
+    message: { functionSelector: getFunctionSelector(contract, functionName), ...message },
+  };
+}
+
+/**
+ * @notice Computes the dataHash Payments.send checks
+ * @param erc20 Token address
+ * @param to Address receiving the tokens
+ * @param amount Amount to send
+ * @returns keccak256(abi.encode(erc20, to, amount))
+ */
+export function getSendDataHash(erc20: Address, to: Address, amount: bigint): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "address" }, { type: "uint256" }],
+      [erc20, to, amount]
+    )
+  );
+}
+
+/**
+ * @notice Builds the typed data a sender signs to authorise Payments.send
+ * @param domain The Payments domain
+ * @param message The send parameters
+ */
+export function buildSendMessage(domain: EIP712Domain, message: SendMessage) {
+  const { nonce, expiry, erc20, to, amount } = message;
+  return buildCrutradeMessage(domain, "Payments", "send", {
+    nonce,
+    expiry,
+    dataHash: getSendDataHash(erc20, to, amount),
+  });
+}
+
+/**
+ * @notice Signs typed data with a local account or wallet client
+ * @param signer The account or wallet client
+ * @param typedData Typed data from one of the build* functions
+ * @returns The 65-byte signature
+ */
+export async function signTypedMessage(
+  signer: TypedDataSigner,
+  typedData: TypedMessage<string, object>
+): Promise<Hex> {
+  return signer.signTypedData({
+    ...(signer.account ? { account: signer.account } : {}),
+    ...typedData,
+  });
+}
+
+/**
+ * @notice Builds and signs a list message
+ * @param signer The seller's account or wallet client
+ * @param domain The Sales domain
+ * @param message The list parameters
+ */
+export function signListMessage(signer: TypedDataSigner, domain: EIP712Domain, message: ListMessage) {
+  return signTypedMessage(signer, buildListMessage(domain, message));
+}
+
+/**
+ * @notice Builds and signs a buy message
+ * @param signer The buyer's account or wallet client
+ * @param domain The Sales domain
+ * @param message The buy parameters
+ */
+export function signBuyMessage(signer: TypedDataSigner, domain: EIP712Domain, message: BuyMessage) {
+  return signTypedMessage(signer, buildBuyMessage(domain, message));
+}
+
+/**
+ * @notice Builds and signs a withdraw message
+ * @param signer The seller's account or wallet client
+ * @param domain The Sales domain
+ * @param message The withdraw parameters
+ */
+export function signWithdrawMessage(signer: TypedDataSigner, domain: EIP712Domain, message: WithdrawMessage) {
+  return signTypedMessage(signer, buildWithdrawMessage(domain, message));
+}
+
+/**
+ * @notice Builds and signs a renew message
+ * @param signer The seller's account or wallet client
+ * @param domain The Sales domain
+ * @param message The renew parameters
+ */
+export function signRenewMessage(signer: TypedDataSigner, domain: EIP712Domain, message: RenewMessage) {
+  return signTypedMessage(signer, buildRenewMessage(domain, message));
+}
+
+/**
+ * @notice Builds and signs a Payments.send authorisation
+ * @param signer The sender's account or wallet client
+ * @param domain The Payments domain
+ * @param message The send parameters
+ */
+export function signSendMessage(signer: TypedDataSigner, domain: EIP712Domain, message: SendMessage) {
+  return signTypedMessage(signer, buildSendMessage(domain, message));
+}
+
+/**
+ * @notice Recovers the address that signed typed data
+ * @param typedData Typed data from one of the build* functions
+ * @param signature The signature
+ */
+export function recoverMessageSigner(
+  typedData: TypedMessage<string, object>,
+  signature: Hex
+): Promise<Address> {
+  return recoverTypedDataAddress({ ...typedData, signature });
+}
+
+/**
+ * @notice Checks a signature the way ModifiersBase does, before spending gas on it
+ * @param typedData Typed data from one of the build* functions
+ * @param signature The signature
+ * @param wallet The wallet expected to have signed
+ * @returns True when the recovered signer is the wallet
+ */
+export async function verifyMessageSignature(
+  typedData: TypedMessage<string, object>,
+  signature: Hex,
+  wallet: Address
+): Promise<boolean> {
+  const signer = await recoverMessageSigner(typedData, signature);
+  return signer.toLowerCase() === wallet.toLowerCase();
+}
+
+/**
+ * @notice Serialises typed data as the JSON payload of eth_signTypedData_v4
+ * @param typedData Typed data from one of the build* functions
+ * @returns JSON with the EIP712Domain type included and integers as decimal strings
+ */
+export function toSignTypedDataV4(typedData: TypedMessage<string, object>): string {
+  return JSON.stringify(
+    {
+      types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...typedData.types },
+      domain: typedData.domain satisfies TypedDataDomain,
+      primaryType: typedData.primaryType,
+      message: typedData.message,
+    },
+    (_, value) => (typeof value === "bigint" ? value.toString() : value)
+  );
+}
@@ -0,0 +1,259 @@
+/**
+ * @title Error Decoder
+ * @notice Decodes custom error reverts from any Crutrade contract
+ * @dev The error fragments of every packaged ABI are merged, so revert data can
+ *      be decoded without knowing which contract (or which inner call) reverted
+ * @author Crutrade Team
+ */
+
+import {
+  decodeErrorResult,
+  formatUnits,
+  type Abi,
+  type Hex,
+} from "viem";
+import { formatAbiItem } from "viem/utils";
+import { abis } from "../contracts";
+import { labelHash } from "./labels";
+
+type AbiError = Extract<Abi[number], { type: "error" }>;
+
+export interface DecodeErrorOptions {
+  /// @notice Decimals of the payment token, used for amounts (default 6, USDC)
+  decimals?: number;
+  /// @notice Symbol appended to amounts
+  symbol?: string;
+}
+
+export interface DecodedArg {
+  name: string;
+  type: string;
+  value: unknown;
+  formatted: string;
+}
+
+export interface DecodedError {
+  name: string;
+  signature: string;
+  selector: Hex;
+  args: Record<string, unknown>;
+  params: DecodedArg[];
+  message: string;
+}
+
+/// @notice Every error fragment declared by the packaged ABIs, deduplicated by signature
+export const crutradeErrorsAbi: AbiError[] = (() => {
+  const seen = new Map<string, AbiError>();
+  for (const abi of Object.values(abis)) {
+    for (const item of abi as readonly { type: string }[]) {
+      if (item.type !== "error") continue;
+      const signature = formatAbiItem(item as AbiError);
+      if (!seen.has(signature)) seen.set(signature, item as AbiError);
+    }
+  }
+  return [...seen.values()];
+})();
+
+type ArgFormat = "timestamp" | "amount" | "duration" | "bps";
+
+/// @notice Arguments holding unix timestamps, token amounts, seconds or basis points, per error
+const ARG_FORMATS: Record<string, Record<string, ArgFormat>> = {
+  SignatureExpired: { expiry: "timestamp", current: "timestamp" },
+  SaleExpired: { endTime: "timestamp" },
+  SaleNotStarted: { startTime: "timestamp" },
+  InvalidTimestamp: { timestamp: "timestamp" },
+  InsufficientPayment: { required: "amount", provided: "amount" },
+  PaymentFailed: { amount: "amount" },
+  InvalidSalePrice: { price: "amount" },
+  InvalidListingDelay: { delay: "duration" },
+  InvalidSaleDuration: { duration: "duration" },
+  InvalidPercentage: { percentage: "bps" },
+};
+
+type Args = Record<string, string>;
+
+/// @notice Readable explanations keyed by error name, fed the formatted arguments
+const explanations: Record<string, (args: Args) => string> = {
+  AccessControlUnauthorizedAccount: (a) => `${a.account} does not have role ${a.neededRole}`,
+  AddressInsufficientBalance: (a) => `${a.account} does not have enough native balance`,
+  BrandNotFound: (a) => `Brand ${a.brandId} does not exist`,
+  CollectionNotFound: (a) => `Collection ${a.collection} does not exist`,
+  DuplicateFee: (a) => `A fee named ${a.name} is already configured`,
+  ECDSAInvalidSignature: () => "The signature is malformed",
+  ECDSAInvalidSignatureLength: (a) => `The signature is ${a.length} bytes, expected 65`,
+  EmptyInput: () => "The input list is empty",
+  EnforcedPause: () => "The contract is paused",
+  ExpectedPause: () => "The contract is not paused",
+  FeeNotFound: (a) => `No fee named ${a.name} is configured`,
+  HashAlreadyUsed: (a) => `Hash ${a.hash} has already been used`,
+  InsufficientPayment: (a) => `Payment of ${a.provided} is below the required ${a.required}`,
+  InvalidBrand: (a) => `Brand ${a.brandId} is not valid`,
+  InvalidBrandOwner: (a) => `${a.owner} cannot own a brand`,
+  InvalidCollection: (a) => `Collection ${a.collection} does not belong to brand ${a.brandId}`,
+  InvalidContract: (a) => `${a.contractAddress} is not a valid contract`,
+  InvalidDurationId: (a) => `Sale duration ${a.durationId} is not configured`,
+  InvalidInitialization: () => "The contract is already initialized",
+  InvalidListingDelay: (a) => `Listing delay of ${a.delay} is not allowed`,
+  InvalidMembership: (a) => `Membership ${a.membershipId} is not valid`,
+  InvalidMembershipOperation: () => "The membership operation is not allowed",
+  InvalidNonce: (a) => `Nonce ${a.provided} was used but the contract expects ${a.expected}`,
+  InvalidPaymentToken: (a) => `${a.token} is not an accepted payment token`,
+  InvalidPercentage: (a) => `Percentage ${a.percentage} is out of range`,
+  InvalidPermitSignature: () => "The permit signature is invalid",
+  InvalidRole: (a) => `Role ${a.role} is not valid`,
+  InvalidSaleDuration: (a) => `Sale duration ${a.duration} is not allowed`,
+  InvalidSaleOperation: (a) => `Sale operation rejected: ${a.reason}`,
+  InvalidSalePrice: (a) => `Price ${a.price} is not allowed`,
+  InvalidSignature: (a) => `Signature was made by ${a.actual}, expected ${a.expected}`,
+  InvalidTimestamp: (a) => `Timestamp ${a.timestamp} is not valid`,
+  InvalidToken: () => "The token is not valid",
+  InvalidTokenAddress: () => "The token address is not valid",
+  MembershipNotFound: (a) => `${a.member} has no membership`,
+  NotAllowed: (a) => `${a.account} does not have role ${a.role}`,
+  NotAllowedDelegate: (a) => `${a.account} is not an allowed delegate`,
+  NotInitializing: () => "The contract is not initializing",
+  NotOwner: (a) => `${a.claimer} is not the owner, ${a.actualOwner} is`,
+  NotTransferable: () => "The token cannot be transferred",
+  NotWhitelisted: (a) => `${a.wallet} is not whitelisted`,
+  PaymentFailed: (a) => `Payment of ${a.amount} in ${a.token} failed`,
+  PaymentNotAllowed: (a) => `${a.payment} is not an allowed payment token`,
+  PaymentNotConfigured: (a) => `Payment token ${a.token} is not configured in Roles`,
+  PaymentsContractNotSet: () => "The Payments contract is not set",
+  PermitExpired: () => "The permit has expired",
+  ReentrancyGuardReentrantCall: () => "Reentrant call",
+  SafeERC20FailedOperation: (a) => `Token operation on ${a.token} failed`,
+  SaleExpired: (a) => `The sale ended at ${a.endTime}`,
+  SaleNotActive: (a) => `Sale ${a.saleId} is not active`,
+  SaleNotExpired: (a) => `Sale ${a.saleId} has not expired yet`,
+  SaleNotFound: (a) => `Sale ${a.saleId} does not exist`,
+  SaleNotStarted: (a) => `The sale starts at ${a.startTime}`,
+  SignatureExpired: (a) => `The signature expired at ${a.expiry} (block time ${a.current})`,
+  TotalPercentageExceedsLimit: () => "Fee percentages add up to more than 100%",
+  TransferFailed: () => "The transfer failed",
+  USDCTokenNotSet: () => "The USDC token is not set",
+  UUPSUnauthorizedCallContext: () => "Upgrade called outside of the proxy",
+  UnauthorizedTransfer: (a) => `Transfer from ${a.from} to ${a.to} is not allowed`,
+  WrapperNotFound: (a) => `Wrapper ${a.wrapperId} does not exist`,
+  ZeroAddress: () => "An address argument is the zero address",
+  Error: (a) => a.message,
+  Panic: (a) => `Panic code ${a.code}`,
+};
+
+function formatDuration(seconds: bigint): string {
+  const days = seconds / 86400n;
+  const hours = (seconds % 86400n) / 3600n;
+  const minutes = (seconds % 3600n) / 60n;
+  const parts = [days && `${days}d`, hours && `${hours}h`, minutes && `${minutes}m`].filter(Boolean);
+  return parts.length ? parts.join(" ") : `${seconds}s`;
+}
+
+/**
+ * @notice Formats a decoded argument for display
+ * @param format How the error's argument is displayed, if not as is
+ * @param type The Solidity type
+ * @param value The decoded value
+ * @param options Token decimals and symbol for amounts
+ */
+function formatArg(format: ArgFormat | undefined, type: string, value: unknown, options: DecodeErrorOptions): string {
+  if (typeof value === "bigint") {
+    if (format === "timestamp") return new Date(Number(value) * 1000).toISOString();
+    if (format === "amount") {
+      const amount = formatUnits(value, options.decimals ?? 6);
+      return options.symbol ? `${amount} ${options.symbol}` : amount;
+    }
+    if (format === "duration") return formatDuration(value);
+    if (format === "bps") return `${Number(value) / 100}%`;
+    return value.toString();
+  }
+  if (type === "bytes32" && typeof value === "string") {
+    return labelHash(value as Hex) ?? value;
+  }
+  return String(value);
+}
+
+/**
+ * @notice Finds revert data inside an error thrown by viem, ethers or a raw RPC
+ * @param error The thrown error, or the revert data itself
+ * @returns The revert data, or undefined when there is none
+ */
+export function getRevertData(error: unknown): Hex | undefined {
+  const seen = new Set<unknown>();
+  const visit = (value: unknown, depth: number): Hex | undefined => {
+    if (typeof value === "string") {
+      return /^0x[0-9a-fA-F]{8}([0-9a-fA-F]{2})*$/.test(value) ? (value as Hex) : undefined;
+    }
+    if (!value || typeof value !== "object" || seen.has(value) || depth > 6) return undefined;
+    seen.add(value);
+
+    const record = value as Record<string, unknown>;
+    for (const key of ["raw", "data", "revertData"]) {
+      const found = visit(record[key], depth + 1);
+      if (found) return found;
+    }
+    for (const key of ["cause", "error", "info", "details"]) {
+      const found = visit(record[key], depth + 1);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  return visit(error, 0);
+}
+
+/**
+ * @notice Decodes a revert against the combined Crutrade error ABI
+ * @param error Revert data, or an error thrown by viem, ethers or a raw RPC
+ * @param options Token decimals and symbol for amounts
+ * @returns The decoded error, or undefined when it is not a known error
+ */
+export function decodeCrutradeError(error: unknown, options: DecodeErrorOptions = {}): DecodedError | undefined {
+  const data = getRevertData(error);
+  if (!data) return undefined;
+
+  let decoded;
+  try {
+    decoded = decodeErrorResult({ abi: crutradeErrorsAbi, data });
+  } catch {
+    return undefined;
+  }
+
+  const inputs = decoded.abiItem.inputs ?? [];
+  const values = (decoded.args ?? []) as readonly unknown[];
+  const formats = ARG_FORMATS[decoded.errorName] ?? {};
+  const params = inputs.map((input, i) => {
+    const name = input.name || `arg${i}`;
+    return { name, type: input.type, value: values[i], formatted: formatArg(formats[name], input.type, values[i], options) };
+  });
+
+  const args: Record<string, unknown> = {};
+  const formatted: Args = {};
+  for (const param of params) {
+    args[param.name] = param.value;
+    formatted[param.name] = param.formatted;
+  }
+
+  const signature = formatAbiItem(decoded.abiItem as AbiError);
+  const explain = explanations[decoded.errorName];
+  return {
+    name: decoded.errorName,
+    signature,
+    selector: data.slice(0, 10) as Hex,
+    args,
+    params,
+    message: explain
+      ? explain(formatted)
+      : `${decoded.errorName}(${params.map((p) => p.formatted).join(", ")})`,
+  };
+}
+
+/**
+ * @notice Describes any thrown error in one line, decoding custom errors when possible
+ * @param error The thrown error
+ * @param options Token decimals and symbol for amounts
+ */
+export function formatCrutradeError(error: unknown, options: DecodeErrorOptions = {}): string {
+  const decoded = decodeCrutradeError(error, options);
+  if (decoded) return `${decoded.name}: ${decoded.message}`;
+
+  const e = error as { shortMessage?: string; reason?: string; message?: string } | undefined;
+  return e?.shortMessage ?? e?.reason ?? e?.message ?? String(error);
+}
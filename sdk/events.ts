@@ -0,0 +1,176 @@
+/**
+ * @title Event Decoding
+ * @notice Decodes the logs of every contract in the suite into typed events
+ * @dev The emitting contract is identified by address, so events shared by
+ *      several contracts (Transfer, NonceUsed, Paused, ...) are decoded with
+ *      the right ABI and logs from other contracts (e.g. USDC) are skipped.
+ *      Integers stay bigint; serializeEvent turns them into decimal strings
+ * @author Crutrade Team
+ */
+
+import { decodeEventLog, type Abi, type Address, type DecodeEventLogReturnType, type Hex, type Log } from "viem";
+import { abis } from "../contracts";
+import { contractNames, getAddresses, type ContractAddresses, type ContractName, type Network } from "./networks";
+
+/// @notice Where a decoded event was emitted; null fields belong to pending logs
+export interface EventLocation {
+  address: Address;
+  blockNumber: bigint | null;
+  blockHash: Hex | null;
+  transactionHash: Hex | null;
+  transactionIndex: number | null;
+  logIndex: number | null;
+}
+
+type DecodedContractEvent<C extends ContractName> = DecodeEventLogReturnType<
+  (typeof abis)[C],
+  undefined,
+  [Hex, ...Hex[]],
+  Hex,
+  true
+>;
+
+/// @notice Any event emitted by contract C, with eventName and args typed from its ABI
+export type ContractEvent<C extends ContractName = ContractName> = {
+  [K in C]: DecodedContractEvent<K> & EventLocation & { contract: K };
+}[C];
+
+/// @notice Any event emitted by any contract of the suite
+export type CrutradeEvent = ContractEvent;
+
+export type CrutradeEventName = CrutradeEvent["eventName"];
+
+/// @notice Events with a given name, e.g. CrutradeEventOf<"Buy">
+export type CrutradeEventOf<N extends CrutradeEventName> = Extract<CrutradeEvent, { eventName: N }>;
+
+/// @notice T with every bigint replaced by its decimal string
+export type JsonSafe<T> = T extends bigint
+  ? string
+  : T extends readonly (infer U)[]
+    ? JsonSafe<U>[]
+    : T extends object
+      ? { [K in keyof T]: JsonSafe<T[K]> }
+      : T;
+
+export interface DecodeEventsOptions {
+  /// @notice Network whose addresses identify the emitting contracts
+  network?: Network;
+  /// @notice Explicit addresses, merged over the network's
+  addresses?: Partial<ContractAddresses>;
+}
+
+/// @notice The minimal log shape accepted, satisfied by viem logs and receipt logs
+export type RawLog = Pick<Log, "address" | "data" | "topics"> &
+  Partial<Pick<Log, "blockNumber" | "blockHash" | "transactionHash" | "transactionIndex" | "logIndex">>;
+
+/**
+ * @notice Decodes one log with the ABI of a known contract
+ * @param log The raw log
+ * @param contract The contract that emitted it
+ * @returns The typed event, or undefined if the log is not one of the contract's events
+ */
+export function decodeContractLog<C extends ContractName>(log: RawLog, contract: C): ContractEvent<C> | undefined {
+  let decoded: { eventName: string; args: unknown };
+  try {
+    decoded = decodeEventLog({
+      abi: abis[contract] as Abi,
+      data: log.data,
+      topics: log.topics,
+      strict: true,
+    });
+  } catch {
+    return undefined;
+  }
+
+  // The ABI is only known per contract at runtime, so the union is asserted
+  const event = {
+    contract,
+    eventName: decoded.eventName,
+    args: decoded.args,
+    address: log.address,
+    blockNumber: log.blockNumber ?? null,
+    blockHash: log.blockHash ?? null,
+    transactionHash: log.transactionHash ?? null,
+    transactionIndex: log.transactionIndex ?? null,
+    logIndex: log.logIndex ?? null,
+  };
+  return event as unknown as ContractEvent<C>;
+}
+
+/**
+ * @notice Builds a lowercase address -> contract name lookup
+ * @param options Network and/or explicit addresses
+ */
+function contractLookup(options: DecodeEventsOptions): Map<string, ContractName> {
+  const resolved: Partial<ContractAddresses> = {
+    ...(options.network !== undefined ? getAddresses(options.network) : {}),
+    ...options.addresses,
+  };
+
+  const lookup = new Map<string, ContractName>();
+  for (const name of contractNames) {
+    const address = resolved[name];
+    if (address && BigInt(address) !== 0n) lookup.set(address.toLowerCase(), name);
+  }
+  return lookup;
+}
+
+/**
+ * @notice Decodes every log emitted by a contract of the suite
+ * @param logs Raw logs, e.g. from getLogs or eth_getLogs
+ * @param options Network and/or explicit addresses identifying the contracts
+ * @returns Typed events in input order; logs from other addresses or with unknown topics are skipped
+ */
+export function decodeCrutradeLogs(logs: readonly RawLog[], options: DecodeEventsOptions): CrutradeEvent[] {
+  const lookup = contractLookup(options);
+  const events: CrutradeEvent[] = [];
+
+  for (const log of logs) {
+    const contract = lookup.get(log.address.toLowerCase());
+    if (!contract) continue;
+    const event = decodeContractLog(log, contract);
+    if (event) events.push(event);
+  }
+
+  return events;
+}
+
+/**
+ * @notice Decodes the events of a transaction receipt
+ * @param receipt Receipt from waitForTransactionReceipt / getTransactionReceipt
+ * @param options Network and/or explicit addresses identifying the contracts
+ */
+export function decodeReceiptEvents(
+  receipt: { logs: readonly RawLog[] },
+  options: DecodeEventsOptions
+): CrutradeEvent[] {
+  return decodeCrutradeLogs(receipt.logs, options);
+}
+
+/**
+ * @notice Narrows events to one event name
+ * @param events Decoded events
+ * @param eventName The event to keep
+ */
+export function filterEvents<N extends CrutradeEventName>(
+  events: readonly CrutradeEvent[],
+  eventName: N
+): CrutradeEventOf<N>[] {
+  return events.filter((event): event is CrutradeEventOf<N> => event.eventName === eventName);
+}
+
+/**
+ * @notice Converts a value, typically a decoded event, into plain JSON data
+ * @param value The value to convert
+ * @returns A deep copy with bigints as decimal strings, safe for JSON.stringify
+ */
+export function serializeEvent<T>(value: T): JsonSafe<T> {
+  if (typeof value === "bigint") return value.toString() as JsonSafe<T>;
+  if (Array.isArray(value)) return value.map((item) => serializeEvent(item)) as JsonSafe<T>;
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeEvent(item)])
+    ) as JsonSafe<T>;
+  }
+  return value as JsonSafe<T>;
+}
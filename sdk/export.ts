@@ -0,0 +1,205 @@
+/**
+ * @title Event Export
+ * @notice Turns decoded events into CSV, NDJSON or JSON for spreadsheets and scripts
+ * @dev CSV columns come from the event ABI, so every event type has the same
+ *      columns whether or not a scan found any events. The first array argument
+ *      of an event (Import.importData, BatchTransfer.tokenIds, ...) is exploded
+ *      into one row per element with an `<arg>.index` column; structs become
+ *      dotted columns and deeper arrays are written as JSON. Integers are
+ *      written as decimal strings and timestamps as ISO 8601 dates
+ * @author Crutrade Team
+ */
+
+import { getAbiItem, type Abi, type AbiEvent, type AbiParameter, type Hex } from "viem";
+import { abis } from "../contracts";
+import { serializeEvent } from "./events";
+import type { ContractName } from "./networks";
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/// @notice Decoded events, freshly decoded (bigints) or read back from the indexer (strings)
+export interface ExportableEvent {
+  contract: ContractName;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint | string | null;
+  transactionHash: Hex | null;
+  logIndex: number | null;
+  /// @notice Block timestamp in seconds
+  timestamp?: bigint | number | string;
+}
+
+/// @notice Columns every CSV export starts with
+export const BASE_COLUMNS = ["timestamp", "blockNumber", "transactionHash", "logIndex", "contract", "event"] as const;
+
+function eventAbi(contract: ContractName, eventName: string): AbiEvent {
+  const item = getAbiItem({ abi: abis[contract] as Abi, name: eventName });
+  if (item?.type !== "event") throw new Error(`${contract} has no ${eventName} event`);
+  return item;
+}
+
+function isArray(param: AbiParameter): boolean {
+  return param.type.endsWith("]");
+}
+
+/// @notice The parameter describing one element of an array parameter
+function elementOf(param: AbiParameter): AbiParameter {
+  return { ...param, type: param.type.slice(0, param.type.lastIndexOf("[")) };
+}
+
+function components(param: AbiParameter): readonly AbiParameter[] {
+  return param.type === "tuple" && "components" in param ? param.components : [];
+}
+
+/// @notice The argument exploded into rows: the first top-level array
+function explodedInput(event: AbiEvent): AbiParameter | undefined {
+  return event.inputs.find(isArray);
+}
+
+function paramColumns(param: AbiParameter, name: string): string[] {
+  const fields = components(param);
+  if (fields.length === 0) return [name];
+  return fields.flatMap((field) => paramColumns(field, `${name}.${field.name}`));
+}
+
+function flatten(param: AbiParameter, name: string, value: unknown, row: Record<string, string>): void {
+  const fields = components(param);
+  if (fields.length === 0) {
+    row[name] = cell(value);
+    return;
+  }
+  for (const field of fields) {
+    flatten(field, `${name}.${field.name}`, (value as Record<string, unknown> | undefined)?.[field.name!], row);
+  }
+}
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "bigint" || typeof value === "number" || typeof value === "boolean") return value.toString();
+  return JSON.stringify(serializeEvent(value));
+}
+
+/**
+ * @notice ISO 8601 date of a block timestamp
+ * @param timestamp Seconds since the epoch
+ */
+export function isoTimestamp(timestamp: bigint | number | string | undefined): string {
+  return timestamp === undefined ? "" : new Date(Number(timestamp) * 1000).toISOString();
+}
+
+/**
+ * @notice The CSV columns of an event type
+ * @param contract Contract that emits the event
+ * @param eventName Event name
+ */
+export function eventColumns(contract: ContractName, eventName: string): string[] {
+  const event = eventAbi(contract, eventName);
+  const exploded = explodedInput(event);
+  return [
+    ...BASE_COLUMNS,
+    ...event.inputs.flatMap((input) => {
+      if (input !== exploded) return paramColumns(input, input.name!);
+      return [`${input.name}.index`, ...paramColumns(elementOf(input), input.name!)];
+    }),
+  ];
+}
+
+/**
+ * @notice Flattens an event into CSV rows keyed by column
+ * @dev An event whose exploded array is empty still gets one row, with the
+ *      array columns left blank
+ * @param event A decoded event
+ */
+export function eventRows(event: ExportableEvent): Record<string, string>[] {
+  const abiEvent = eventAbi(event.contract, event.eventName);
+  const exploded = explodedInput(abiEvent);
+
+  const base: Record<string, string> = {
+    timestamp: isoTimestamp(event.timestamp),
+    blockNumber: cell(event.blockNumber),
+    transactionHash: cell(event.transactionHash),
+    logIndex: cell(event.logIndex),
+    contract: event.contract,
+    event: event.eventName,
+  };
+  for (const input of abiEvent.inputs) {
+    if (input !== exploded) flatten(input, input.name!, event.args[input.name!], base);
+  }
+  if (!exploded) return [base];
+
+  const items = (event.args[exploded.name!] as readonly unknown[] | undefined) ?? [];
+  if (items.length === 0) return [base];
+  return items.map((item, index) => {
+    const row = { ...base, [`${exploded.name}.index`]: index.toString() };
+    flatten(elementOf(exploded), exploded.name!, item, row);
+    return row;
+  });
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function jsonRecord(event: ExportableEvent) {
+  return {
+    timestamp: isoTimestamp(event.timestamp),
+    blockNumber: cell(event.blockNumber),
+    transactionHash: event.transactionHash,
+    logIndex: event.logIndex,
+    contract: event.contract,
+    event: event.eventName,
+    args: serializeEvent(event.args),
+  };
+}
+
+/**
+ * @notice Orders events by block and log index
+ * @param events Events of any contracts
+ */
+export function sortEvents<T extends ExportableEvent>(events: readonly T[]): T[] {
+  const position = (event: ExportableEvent) => [BigInt(event.blockNumber ?? -1), event.logIndex ?? -1] as const;
+  return [...events].sort((a, b) => {
+    const [blockA, logA] = position(a);
+    const [blockB, logB] = position(b);
+    return blockA === blockB ? logA - logB : blockA < blockB ? -1 : 1;
+  });
+}
+
+/**
+ * @notice Serialises events in an export format
+ * @dev CSV uses the union of the columns of `eventTypes` in the given order, so
+ *      the header only depends on what was asked for, not on what was found.
+ *      JSON and NDJSON keep the arguments nested
+ * @param events Events to export, in the order they should appear
+ * @param format csv, ndjson or json
+ * @param eventTypes Event types whose columns the CSV has (default: those present)
+ * @returns The file contents, ending with a newline
+ */
+export function formatEvents(
+  events: readonly ExportableEvent[],
+  format: ExportFormat,
+  eventTypes: readonly { contract: ContractName; eventName: string }[] = events
+): string {
+  if (format === "json") return `${JSON.stringify(events.map(jsonRecord), null, 2)}\n`;
+  if (format === "ndjson") return events.map((event) => `${JSON.stringify(jsonRecord(event))}\n`).join("");
+
+  const types = new Map(eventTypes.map((type) => [`${type.contract}.${type.eventName}`, type]));
+  const columns = [...new Set([...types.values()].flatMap((type) => eventColumns(type.contract, type.eventName)))];
+  return toCsv(columns, events.flatMap(eventRows));
+}
+
+/**
+ * @notice Writes rows as CSV, quoting fields where needed
+ * @param columns Header, in order; missing fields are left blank
+ * @param rows Rows keyed by column
+ * @returns The file contents, ending with a newline
+ */
+export function toCsv(columns: readonly string[], rows: readonly Record<string, string>[]): string {
+  const lines = [columns.map(csvField).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvField(row[column] ?? "")).join(","));
+  }
+  return `${lines.join("\n")}\n`;
+}
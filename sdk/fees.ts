@@ -0,0 +1,280 @@
+/**
+ * @title Fee Preview
+ * @notice Computes the breakdown Payments.splitFees / splitServiceFee will produce
+ * @dev Mirrors PaymentsBase._calculatePercentageFees, _calculateServiceFee and
+ *      _processTransfers, including the basis-point rounding (integer division)
+ * @author Crutrade Team
+ */
+
+import {
+  hexToBigInt,
+  zeroAddress,
+  zeroHash,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+} from "viem";
+import { abis } from "../contracts";
+import { hashLabel, OPERATION_NAMES, type OperationName } from "./labels";
+import { getAddresses, type Network } from "./networks";
+import { mappingSlot, slotHex } from "./storage";
+
+/// @notice Basis points denominator (10000 = 100%)
+export const BPS = 10_000n;
+
+/// @notice Storage slots of the PaymentsBase values that have no getter
+export const PAYMENTS_SLOTS = {
+  fiatFeePercentage: 4n,
+  serviceFees: 7n,
+} as const;
+
+export interface Fee {
+  name: Hex;
+  percentage: bigint;
+  wallet: Address;
+}
+
+export interface ServiceFee {
+  operation: Hex;
+  serviceFees: bigint;
+  fiatFees: bigint;
+}
+
+/// @notice Same shape as IPayments.TransactionFees
+export interface TransactionFees {
+  fromFee: bigint;
+  toFee: bigint;
+  serviceFee: ServiceFee;
+  fees: Fee[];
+}
+
+export interface MembershipFees {
+  sellerFee: bigint;
+  buyerFee: bigint;
+}
+
+/// @notice Everything the fee math depends on, as stored in Payments
+export interface FeeSchedule {
+  fiatFeePercentage: bigint;
+  fees: Fee[];
+  serviceFees: Record<Hex, bigint>;
+  membershipFees: Record<string, MembershipFees>;
+}
+
+export interface FeeTransfer {
+  name: Hex;
+  wallet: Address;
+  amount: bigint;
+}
+
+/// @notice Token movements splitFees performs, all pulled from the payer
+export interface FeeTransfers {
+  recipient: bigint;
+  fees: FeeTransfer[];
+  serviceFees: bigint;
+  fiatFees: bigint;
+  total: bigint;
+}
+
+export interface FeePreview {
+  fees: TransactionFees;
+  transfers: FeeTransfers;
+}
+
+function toOperation(operation: OperationName | Hex): Hex {
+  return operation.startsWith("0x") ? (operation as Hex) : hashLabel(operation);
+}
+
+/**
+ * @notice Mirrors PaymentsBase._calculateServiceFee
+ * @param schedule The fee schedule
+ * @param operation Operation name or its keccak256 identifier
+ * @param isFiat Whether the payment token is address(0)
+ */
+export function calculateServiceFee(
+  schedule: FeeSchedule,
+  operation: OperationName | Hex,
+  isFiat: boolean
+): ServiceFee {
+  const id = toOperation(operation);
+  const serviceFees = schedule.serviceFees[id.toLowerCase() as Hex] ?? 0n;
+  return {
+    operation: id,
+    serviceFees,
+    fiatFees: isFiat && serviceFees > 0n ? (serviceFees * schedule.fiatFeePercentage) / BPS : 0n,
+  };
+}
+
+/**
+ * @notice Mirrors Payments.splitFees
+ * @param schedule The fee schedule
+ * @param params Amount, whether it is fiat, and the membership ids of from and to
+ * @dev from's sellerFee and to's buyerFee are applied, exactly as on-chain
+ */
+export function calculateTransactionFees(
+  schedule: FeeSchedule,
+  params: { amount: bigint; isFiat: boolean; fromMembership: bigint; toMembership: bigint }
+): TransactionFees {
+  const { amount, isFiat, fromMembership, toMembership } = params;
+  const fromFees = schedule.membershipFees[fromMembership.toString()] ?? { sellerFee: 0n, buyerFee: 0n };
+  const toFees = schedule.membershipFees[toMembership.toString()] ?? { sellerFee: 0n, buyerFee: 0n };
+
+  return {
+    fromFee: (amount * fromFees.sellerFee) / BPS,
+    toFee: (amount * toFees.buyerFee) / BPS,
+    serviceFee: {
+      operation: zeroHash,
+      serviceFees: 0n,
+      fiatFees: isFiat ? (amount * schedule.fiatFeePercentage) / BPS : 0n,
+    },
+    fees: schedule.fees.map((fee) => ({ ...fee })),
+  };
+}
+
+/**
+ * @notice Mirrors PaymentsBase._processTransfers
+ * @param fees The transaction fees
+ * @param amount The transaction amount
+ */
+export function getFeeTransfers(fees: TransactionFees, amount: bigint): FeeTransfers {
+  const recipient = amount - fees.toFee;
+  const totalFees = fees.fromFee + fees.toFee;
+  const shares = fees.fees.map((fee) => ({
+    name: fee.name,
+    wallet: fee.wallet,
+    amount: (totalFees * fee.percentage) / BPS,
+  }));
+  const { serviceFees, fiatFees } = fees.serviceFee;
+
+  return {
+    recipient,
+    fees: shares,
+    serviceFees,
+    fiatFees,
+    total: recipient + shares.reduce((sum, share) => sum + share.amount, 0n) + serviceFees + fiatFees,
+  };
+}
+
+/**
+ * @notice Reads the fee schedule from Payments
+ * @param publicClient Client for the network
+ * @param network The network name
+ * @param membershipIds Membership ids whose fees should be loaded
+ */
+export async function loadFeeSchedule(
+  publicClient: PublicClient<Transport, Chain | undefined>,
+  network: Network,
+  membershipIds: bigint[] = []
+): Promise<FeeSchedule> {
+  const address = getAddresses(network).Payments;
+  const operations = OPERATION_NAMES.map((name) => hashLabel(name));
+  const ids = [...new Set(membershipIds.map((id) => id.toString()))];
+
+  const [fees, fiatFeePercentage, serviceFees, membershipFees] = await Promise.all([
+    publicClient.readContract({ address, abi: abis.Payments, functionName: "getFees" }),
+    publicClient.getStorageAt({ address, slot: slotHex(PAYMENTS_SLOTS.fiatFeePercentage) }),
+    Promise.all(
+      operations.map((operation) =>
+        publicClient.getStorageAt({ address, slot: mappingSlot("bytes32", operation, PAYMENTS_SLOTS.serviceFees) })
+      )
+    ),
+    Promise.all(
+      ids.map((id) =>
+        publicClient.readContract({
+          address,
+          abi: abis.Payments,
+          functionName: "getMembershipFees",
+          args: [BigInt(id)],
+        })
+      )
+    ),
+  ]);
+
+  return {
+    fiatFeePercentage: fiatFeePercentage ? hexToBigInt(fiatFeePercentage) : 0n,
+    fees: fees.map((fee) => ({ name: fee.name, percentage: fee.percentage, wallet: fee.wallet })),
+    serviceFees: Object.fromEntries(
+      operations.map((operation, i) => [operation, serviceFees[i] ? hexToBigInt(serviceFees[i]!) : 0n])
+    ),
+    membershipFees: Object.fromEntries(
+      ids.map((id, i) => [id, { sellerFee: membershipFees[i]![0], buyerFee: membershipFees[i]![1] }])
+    ),
+  };
+}
+
+/**
+ * @notice Creates a calculator that previews fees against live contract state
+ * @param config Network and public client
+ */
+export function createFeeCalculator(config: {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+}) {
+  const { network, publicClient } = config;
+
+  async function getMemberships(accounts: Address[]) {
+    return publicClient.readContract({
+      address: getAddresses(network).Memberships,
+      abi: abis.Memberships,
+      functionName: "getMemberships",
+      args: [accounts],
+    });
+  }
+
+  return {
+    /**
+     * @notice Previews Payments.splitFees(erc20, id, from, to, amount)
+     * @dev For a sale, from is the buyer and to is the seller
+     */
+    async previewSplitFees(params: { erc20: Address; from: Address; to: Address; amount: bigint }): Promise<FeePreview> {
+      const [fromMembership, toMembership] = await getMemberships([params.from, params.to]);
+      const schedule = await loadFeeSchedule(publicClient, network, [fromMembership!, toMembership!]);
+      const fees = calculateTransactionFees(schedule, {
+        amount: params.amount,
+        isFiat: params.erc20 === zeroAddress,
+        fromMembership: fromMembership!,
+        toMembership: toMembership!,
+      });
+      return { fees, transfers: getFeeTransfers(fees, params.amount) };
+    },
+
+    /**
+     * @notice Previews Payments.splitServiceFee(operation, wallet, erc20)
+     */
+    async previewSplitServiceFee(params: { operation: OperationName | Hex; erc20: Address }): Promise<ServiceFee> {
+      const schedule = await loadFeeSchedule(publicClient, network);
+      return calculateServiceFee(schedule, params.operation, params.erc20 === zeroAddress);
+    },
+
+    /**
+     * @notice Previews the fees reported by Sales.buy
+     * @dev Sales.buy replaces the serviceFee returned by splitFees with the BUY service fee
+     */
+    async previewBuy(params: { erc20: Address; buyer: Address; seller: Address; price: bigint }): Promise<FeePreview> {
+      const isFiat = params.erc20 === zeroAddress;
+      const [buyerMembership, sellerMembership] = await getMemberships([params.buyer, params.seller]);
+      const schedule = await loadFeeSchedule(publicClient, network, [buyerMembership!, sellerMembership!]);
+      const fees = calculateTransactionFees(schedule, {
+        amount: params.price,
+        isFiat,
+        fromMembership: buyerMembership!,
+        toMembership: sellerMembership!,
+      });
+      const transfers = getFeeTransfers(fees, params.price);
+      const serviceFee = calculateServiceFee(schedule, "BUY", isFiat);
+
+      // The BUY service fee is charged by its own splitServiceFee call
+      return {
+        fees: { ...fees, serviceFee },
+        transfers: {
+          ...transfers,
+          serviceFees: transfers.serviceFees + serviceFee.serviceFees,
+          fiatFees: transfers.fiatFees + serviceFee.fiatFees,
+          total: transfers.total + serviceFee.serviceFees + serviceFee.fiatFees,
+        },
+      };
+    },
+  };
+}
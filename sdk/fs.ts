@@ -0,0 +1,34 @@
+/**
+ * @title Node File System Access
+ * @notice Optional fs access for SDK modules that persist or read local files
+ * @author Crutrade Team
+ */
+
+/// @notice The parts of the Node/Bun process object the SDK reads
+export interface NodeProcess {
+  env: Record<string, string | undefined>;
+  versions: { node?: string };
+  cwd(): string;
+  getBuiltinModule?(id: string): unknown;
+}
+
+/**
+ * @notice Returns the Node/Bun process object, or undefined in browsers
+ */
+export function nodeProcess(): NodeProcess | undefined {
+  return (globalThis as { process?: NodeProcess }).process;
+}
+
+/**
+ * @notice Returns the Node fs module, or undefined outside of Node/Bun
+ * @dev Loaded lazily so browser bundles of the package never touch fs
+ */
+export function nodeFs(): typeof import("fs") | undefined {
+  const proc = nodeProcess();
+  if (!proc?.versions?.node) return undefined;
+  if (typeof proc.getBuiltinModule === "function") {
+    return proc.getBuiltinModule("fs") as typeof import("fs");
+  }
+  if (typeof require === "function") return require("fs");
+  return undefined;
+}
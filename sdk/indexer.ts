@@ -0,0 +1,416 @@
+/**
+ * @title Event Indexer
+ * @notice Indexes the events of every contract into a local SQLite database
+ * @dev Bun only (bun:sqlite), so it is not re-exported from the package entry
+ *      point. Each contract has its own block checkpoint, written in the same
+ *      transaction as the events of a batch, so a restarted indexer resumes
+ *      exactly where it stopped without gaps or duplicates. The hashes of
+ *      recent blocks are tracked; when the chain no longer has one of them,
+ *      everything stored after the fork point is rolled back and re-indexed
+ * @author Crutrade Team
+ */
+
+import { Database } from "bun:sqlite";
+import type { Address, Chain, Hex, PublicClient, Transport } from "viem";
+import { createLogFetcher, type LogFetcher } from "./logs";
+import { decodeContractLog, serializeEvent, type CrutradeEvent, type CrutradeEventName, type JsonSafe } from "./events";
+import { contractNames, getAddresses, type ContractName, type Network } from "./networks";
+import { createTimestampResolver, type TimestampResolver } from "./timestamps";
+
+/// @notice A decoded event with the timestamp of its block
+export type TimedEvent = CrutradeEvent & { timestamp: bigint };
+
+/// @notice A stored event: the decoded event with bigints as decimal strings
+export type IndexedEvent = JsonSafe<TimedEvent>;
+
+export interface Checkpoint {
+  contract: ContractName;
+  address: Address;
+  /// @notice Last block fully indexed
+  blockNumber: bigint;
+}
+
+/// @notice A block whose hash is checked for reorgs
+export interface TrackedBlock {
+  number: bigint;
+  hash: Hex;
+}
+
+export interface EventQuery {
+  contract?: ContractName;
+  eventName?: CrutradeEventName;
+  transactionHash?: string;
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  /// @notice Newest first instead of chain order
+  descending?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface IndexerConfig {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  /// @notice Store from openEventStore, or a path to open one at
+  store: EventStore | string;
+  /// @notice Contracts to index (default all)
+  contracts?: ContractName[];
+  /// @notice First block indexed for contracts without a checkpoint, usually the deployment block
+  fromBlock?: bigint;
+  /// @notice Blocks stored per checkpoint update (default 2000)
+  batchSize?: bigint;
+  /// @notice Blocks behind the chain head left unindexed until they are this deep (default 0)
+  confirmations?: bigint;
+  /// @notice Recent blocks whose hashes are kept to detect reorgs (default 128)
+  reorgWindow?: bigint;
+  /// @notice Fetcher used for getLogs, one adapting to the RPC's limits by default
+  logFetcher?: LogFetcher;
+  /// @notice Resolver for block timestamps, e.g. one with a cache file
+  timestamps?: TimestampResolver;
+  /// @notice Delay between polls of start(), in milliseconds (default 4000)
+  pollInterval?: number;
+  /// @notice Called with the events of every batch after they are stored
+  onEvents?: (events: TimedEvent[]) => void | Promise<void>;
+  /// @notice Called after a reorg with the fork point and the number of events rolled back
+  onReorg?: (forkBlock: bigint, removed: number) => void | Promise<void>;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    transaction_index INTEGER NOT NULL,
+    timestamp INTEGER,
+    contract TEXT NOT NULL,
+    address TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_name ON events (contract, event_name, block_number);
+  CREATE INDEX IF NOT EXISTS events_by_transaction ON events (transaction_hash);
+  CREATE TABLE IF NOT EXISTS checkpoints (
+    contract TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    block_number INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    block_number INTEGER PRIMARY KEY,
+    block_hash TEXT NOT NULL
+  );
+`;
+
+type StoredEvent = CrutradeEvent & { timestamp?: bigint };
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  transaction_hash: string;
+  transaction_index: number;
+  timestamp: number | null;
+  contract: string;
+  address: string;
+  event_name: string;
+  args: string;
+}
+
+function toIndexedEvent(row: EventRow): IndexedEvent {
+  return {
+    contract: row.contract,
+    eventName: row.event_name,
+    args: JSON.parse(row.args),
+    address: row.address,
+    blockNumber: row.block_number.toString(),
+    blockHash: row.block_hash,
+    transactionHash: row.transaction_hash,
+    transactionIndex: row.transaction_index,
+    logIndex: row.log_index,
+    timestamp: row.timestamp?.toString(),
+  } as IndexedEvent;
+}
+
+/**
+ * @notice Opens (and creates if needed) an event database
+ * @param database Path of the SQLite file, ":memory:", or an open Database
+ */
+export function openEventStore(database: string | Database) {
+  const db = typeof database === "string" ? new Database(database, { create: true }) : database;
+  db.exec("PRAGMA journal_mode = WAL;");
+  db.exec(SCHEMA);
+
+  const insertEvent = db.prepare(
+    `INSERT OR IGNORE INTO events
+       (block_number, log_index, block_hash, transaction_hash, transaction_index, timestamp, contract, address, event_name, args)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  // The first hash seen for a block is kept, so a conflicting later one is caught as a reorg
+  const insertBlock = db.prepare("INSERT OR IGNORE INTO blocks (block_number, block_hash) VALUES (?, ?)");
+  const upsertCheckpoint = db.prepare(
+    `INSERT INTO checkpoints (contract, address, block_number) VALUES (?, ?, ?)
+     ON CONFLICT (contract) DO UPDATE SET address = excluded.address, block_number = excluded.block_number`
+  );
+
+  /**
+   * @notice Stores a batch of events and advances the contract's checkpoint atomically
+   * @dev blocks are the hashes to check for reorgs, normally the checkpoint block's
+   */
+  const commit = db.transaction((checkpoint: Checkpoint, events: StoredEvent[], blocks: TrackedBlock[] = []) => {
+    for (const event of events) {
+      insertEvent.run(
+        Number(event.blockNumber),
+        event.logIndex,
+        event.blockHash,
+        event.transactionHash!.toLowerCase(),
+        event.transactionIndex,
+        event.timestamp === undefined ? null : Number(event.timestamp),
+        event.contract,
+        event.address.toLowerCase(),
+        event.eventName,
+        JSON.stringify(serializeEvent(event.args))
+      );
+      insertBlock.run(Number(event.blockNumber), event.blockHash!.toLowerCase());
+    }
+    for (const block of blocks) insertBlock.run(Number(block.number), block.hash.toLowerCase());
+    upsertCheckpoint.run(checkpoint.contract, checkpoint.address.toLowerCase(), Number(checkpoint.blockNumber));
+  });
+
+  /**
+   * @notice Removes everything stored after a block and moves checkpoints back to it
+   * @returns Number of events removed
+   */
+  const rollback = db.transaction((forkBlock: bigint) => {
+    const fork = Number(forkBlock);
+    const { changes } = db.run("DELETE FROM events WHERE block_number > ?", [fork]);
+    db.run("DELETE FROM blocks WHERE block_number > ?", [fork]);
+    db.run("UPDATE checkpoints SET block_number = ? WHERE block_number > ?", [fork, fork]);
+    return changes;
+  });
+
+  function where(query: EventQuery) {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+    const add = (clause: string, value: string | number | bigint | undefined) => {
+      if (value === undefined) return;
+      clauses.push(clause);
+      params.push(typeof value === "bigint" ? Number(value) : value);
+    };
+
+    add("contract = ?", query.contract);
+    add("event_name = ?", query.eventName);
+    add("transaction_hash = ?", query.transactionHash?.toLowerCase());
+    add("block_number >= ?", query.fromBlock);
+    add("block_number <= ?", query.toBlock);
+    return { sql: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params };
+  }
+
+  return {
+    db,
+    commit,
+    rollback,
+
+    /**
+     * @notice Tracked blocks, newest first
+     */
+    getTrackedBlocks(): TrackedBlock[] {
+      return db
+        .query<{ block_number: number; block_hash: string }, []>(
+          "SELECT block_number, block_hash FROM blocks ORDER BY block_number DESC"
+        )
+        .all()
+        .map((row) => ({ number: BigInt(row.block_number), hash: row.block_hash as Hex }));
+    },
+
+    /**
+     * @notice Forgets tracked blocks older than a block
+     * @param blockNumber Oldest block to keep
+     */
+    pruneBlocks(blockNumber: bigint): void {
+      db.run("DELETE FROM blocks WHERE block_number < ?", [Number(blockNumber)]);
+    },
+
+    /**
+     * @notice Returns the checkpoint of a contract, if it has been indexed
+     * @param contract The contract name
+     */
+    getCheckpoint(contract: ContractName): Checkpoint | undefined {
+      const row = db
+        .query<{ address: string; block_number: number }, [string]>(
+          "SELECT address, block_number FROM checkpoints WHERE contract = ?"
+        )
+        .get(contract);
+      return row ? { contract, address: row.address as Address, blockNumber: BigInt(row.block_number) } : undefined;
+    },
+
+    /**
+     * @notice Returns stored events in chain order
+     * @param query Filters and pagination
+     */
+    getEvents(query: EventQuery = {}): IndexedEvent[] {
+      const { sql, params } = where(query);
+      const order = query.descending ? "DESC" : "ASC";
+      const rows = db
+        .query<EventRow, (string | number)[]>(
+          `SELECT * FROM events ${sql} ORDER BY block_number ${order}, log_index ${order} LIMIT ? OFFSET ?`
+        )
+        .all(...params, query.limit ?? -1, query.offset ?? 0);
+      return rows.map(toIndexedEvent);
+    },
+
+    /**
+     * @notice Counts stored events
+     * @param query Filters; pagination is ignored
+     */
+    countEvents(query: EventQuery = {}): number {
+      const { sql, params } = where(query);
+      const row = db
+        .query<{ count: number }, (string | number)[]>(`SELECT COUNT(*) AS count FROM events ${sql}`)
+        .get(...params);
+      return row?.count ?? 0;
+    },
+
+    close(): void {
+      db.close();
+    },
+  };
+}
+
+export type EventStore = ReturnType<typeof openEventStore>;
+
+/**
+ * @notice Creates an indexer that keeps an event store up to date
+ * @param config Network, client, store and indexing options
+ */
+export function createIndexer(config: IndexerConfig) {
+  const {
+    network,
+    publicClient,
+    fromBlock = 0n,
+    batchSize = 2_000n,
+    confirmations = 0n,
+    reorgWindow = 128n,
+    pollInterval = 4_000,
+    onEvents,
+    onReorg,
+  } = config;
+  const store = typeof config.store === "string" ? openEventStore(config.store) : config.store;
+  const contracts = config.contracts ?? contractNames;
+  const logFetcher = config.logFetcher ?? createLogFetcher({ publicClient });
+  const timestamps = config.timestamps ?? createTimestampResolver({ publicClient });
+
+  let running = false;
+  let wake: (() => void) | undefined;
+
+  /**
+   * @notice Indexes one contract up to a block, batch by batch
+   * @returns Number of events stored
+   */
+  async function syncContract(contract: ContractName, head: bigint): Promise<number> {
+    const address = getAddresses(network)[contract];
+    if (BigInt(address) === 0n) return 0;
+
+    // A checkpoint for another address belongs to an earlier deployment
+    const checkpoint = store.getCheckpoint(contract);
+    let from = checkpoint?.address === address.toLowerCase() ? checkpoint.blockNumber + 1n : fromBlock;
+    let stored = 0;
+
+    while (from <= head) {
+      const to = from + batchSize - 1n < head ? from + batchSize - 1n : head;
+      // A reorg while the logs are fetched changes the hash of `to`; the batch is then fetched again
+      const { hash } = await publicClient.getBlock({ blockNumber: to });
+      const logs = await logFetcher.getLogs({ address, fromBlock: from, toBlock: to });
+      const block = await publicClient.getBlock({ blockNumber: to });
+      if (block.hash !== hash) continue;
+
+      const events = await timestamps.withTimestamps(logs.flatMap((log) => decodeContractLog(log, contract) ?? []));
+      store.commit({ contract, address, blockNumber: to }, events, [{ number: to, hash: block.hash }]);
+      if (events.length && onEvents) await onEvents(events);
+
+      stored += events.length;
+      from = to + 1n;
+    }
+    return stored;
+  }
+
+  /**
+   * @notice Compares tracked block hashes with the chain and rolls back past a fork
+   * @returns The fork point, or undefined when the newest tracked block is still canonical
+   */
+  async function handleReorg(): Promise<bigint | undefined> {
+    const tracked = store.getTrackedBlocks();
+
+    for (const [i, block] of tracked.entries()) {
+      // A block missing from the chain has been reorged away as well
+      const onChain = await publicClient.getBlock({ blockNumber: block.number }).catch(() => undefined);
+      if (onChain?.hash.toLowerCase() !== block.hash.toLowerCase()) continue;
+      if (i === 0) return undefined;
+
+      const removed = store.rollback(block.number);
+      timestamps.invalidate(block.number + 1n);
+      if (onReorg) await onReorg(block.number, removed);
+      return block.number;
+    }
+
+    if (tracked.length) {
+      throw new Error(
+        `Reorg deeper than the ${tracked.length} tracked blocks (down to block ${tracked[tracked.length - 1]!.number}); re-index into a new store`
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * @notice Handles reorgs, then indexes every contract up to the confirmed head
+   * @returns Number of events stored
+   */
+  async function sync(): Promise<number> {
+    await handleReorg();
+
+    const head = (await publicClient.getBlockNumber()) - confirmations;
+    let stored = 0;
+    for (const contract of contracts) {
+      stored += await syncContract(contract, head);
+    }
+
+    store.pruneBlocks(head - reorgWindow);
+    return stored;
+  }
+
+  return {
+    store,
+    sync,
+    handleReorg,
+
+    /**
+     * @notice Syncs, then keeps polling for new blocks until stop() is called
+     * @param onError Called with errors of a poll; the indexer retries on the next poll
+     */
+    async start(onError: (error: unknown) => void = () => {}): Promise<void> {
+      running = true;
+      while (running) {
+        try {
+          await sync();
+        } catch (error) {
+          onError(error);
+        }
+        if (!running) break;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+          setTimeout(resolve, pollInterval);
+        });
+      }
+    },
+
+    /// @notice Stops start() after the current poll
+    stop(): void {
+      running = false;
+      wake?.();
+    },
+
+    getCheckpoint: store.getCheckpoint,
+    getEvents: store.getEvents,
+    countEvents: store.countEvents,
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * @title Hash Labels
+ * @notice Maps the keccak256 identifiers used on-chain back to their names
+ * @dev Covers the role constants in ModifiersBase/RolesBase/Sales/Payments and
+ *      the operation constants in SalesBase
+ * @author Crutrade Team
+ */
+
+import { keccak256, toHex, zeroHash, type Hex } from "viem";
+
+/// @notice Role identifiers, keccak256 of the role name
+export const ROLE_NAMES = [
+  "OWNER",
+  "PAUSER",
+  "UPGRADER",
+  "OPERATIONAL",
+  "BRANDS",
+  "WRAPPERS",
+  "WHITELIST",
+  "TREASURY",
+  "FIAT",
+  "PAYMENTS",
+  "SALES",
+  "MEMBERSHIPS",
+  "LISTER",
+  "BUYER",
+  "RENEWER",
+  "WITHDRAWER",
+] as const;
+
+/// @notice Sales operation identifiers, keccak256 of the operation name
+export const OPERATION_NAMES = ["LIST", "BUY", "RENEW", "WITHDRAW"] as const;
+
+export type RoleName = (typeof ROLE_NAMES)[number];
+export type OperationName = (typeof OPERATION_NAMES)[number];
+
+const labels = new Map<string, string>([[zeroHash, "DEFAULT_ADMIN_ROLE"]]);
+for (const name of [...ROLE_NAMES, ...OPERATION_NAMES]) {
+  labels.set(keccak256(toHex(name)), name);
+}
+
+/**
+ * @notice Computes the on-chain identifier of a role, operation or fee name
+ * @param name The plain name, e.g. "OWNER" or "TREASURY"
+ */
+export function hashLabel(name: string): Hex {
+  return keccak256(toHex(name));
+}
+
+/**
+ * @notice Registers extra names, such as custom fee names, for labelHash
+ * @param names The plain names
+ */
+export function registerLabels(...names: string[]): void {
+  for (const name of names) labels.set(hashLabel(name), name);
+}
+
+/**
+ * @notice Returns the name behind an identifier
+ * @param hash The bytes32 identifier
+ * @returns The name, or undefined when it is not known
+ */
+export function labelHash(hash: Hex): string | undefined {
+  return labels.get(hash.toLowerCase());
+}
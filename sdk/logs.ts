@@ -0,0 +1,143 @@
+/**
+ * @title Log Fetcher
+ * @notice Fetches logs over any block range, whatever the RPC's range limits
+ * @dev The range is split into chunks fetched with bounded concurrency. When
+ *      the RPC rejects a chunk as too large (block range or result size) it is
+ *      halved and retried, and the chunk size grows again after successes. The
+ *      learned chunk size is kept between calls
+ * @author Crutrade Team
+ */
+
+import type { AbiEvent, Address, Chain, GetLogsParameters, Log, PublicClient, Transport } from "viem";
+
+export interface LogFetcherConfig {
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  /// @notice Blocks per request to start with (default 2048, the public Avalanche limit)
+  initialRange?: bigint;
+  /// @notice Smallest chunk; a range error on a chunk this size is rethrown (default 1)
+  minRange?: bigint;
+  /// @notice Largest chunk the range may grow to (default 100000)
+  maxRange?: bigint;
+  /// @notice Requests in flight at once (default 4)
+  concurrency?: number;
+  /// @notice Whether an error means the chunk was too large (default isLogRangeError)
+  isRangeError?: (error: unknown) => boolean;
+}
+
+export interface LogFilter {
+  address?: Address | Address[];
+  /// @notice Only logs of this event, optionally filtered on indexed args
+  event?: AbiEvent;
+  /// @notice Only logs of any of these events
+  events?: readonly AbiEvent[];
+  args?: Record<string, unknown>;
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+/// @notice Logs of mined blocks: block and transaction fields are never null
+export type MinedLog = Log<bigint, number, false>;
+
+export interface LogFetcher {
+  /// @notice Current chunk size in blocks
+  readonly range: bigint;
+  /// @notice All logs matching the filter, in chain order
+  getLogs(filter: LogFilter): Promise<MinedLog[]>;
+}
+
+const RANGE_ERROR_PATTERNS = [
+  /block range/i,
+  /range (is )?too (large|wide|big)/i,
+  /too many (blocks|results|logs)/i,
+  /query returned more than/i,
+  /more than \d+ (results|logs)/i,
+  /(result|response)( set)?( size)? (is )?too (large|big)/i,
+  /response size exceeded/i,
+  /(?<!rate )limit (exceeded|reached)/i,
+  /exceeds? (the )?(max|maximum|limit)/i,
+  /query timeout/i,
+];
+
+function errorMessages(error: unknown, depth = 0): string[] {
+  if (!error || typeof error !== "object" || depth > 5) return [];
+  const { message, details, shortMessage, cause } = error as Record<string, unknown>;
+  return [message, details, shortMessage]
+    .filter((text): text is string => typeof text === "string")
+    .concat(errorMessages(cause, depth + 1));
+}
+
+/**
+ * @notice Recognises the "range too large" / "too many results" errors of common RPCs
+ * @param error An error thrown by getLogs
+ */
+export function isLogRangeError(error: unknown): boolean {
+  const code = (error as { code?: unknown })?.code;
+  if (code === -32005) return true;
+  return errorMessages(error).some((text) => RANGE_ERROR_PATTERNS.some((pattern) => pattern.test(text)));
+}
+
+/**
+ * @notice Creates a log fetcher that adapts its chunk size to the RPC
+ * @param config Client, range bounds and concurrency
+ */
+export function createLogFetcher(config: LogFetcherConfig): LogFetcher {
+  const {
+    publicClient,
+    minRange = 1n,
+    maxRange = 100_000n,
+    concurrency = 4,
+    isRangeError = isLogRangeError,
+  } = config;
+  let range = config.initialRange ?? 2_048n;
+
+  return {
+    get range() {
+      return range;
+    },
+
+    async getLogs(filter) {
+      const { fromBlock, toBlock, ...query } = filter;
+      const chunks: { from: bigint; logs: MinedLog[] }[] = [];
+      // Halves of failed chunks, fetched before moving the cursor on
+      const retries: [bigint, bigint][] = [];
+      let cursor = fromBlock;
+      // Set by the first fatal error, so the other workers stop requesting chunks
+      let failed = false;
+
+      const next = (): [bigint, bigint] | undefined => {
+        if (failed) return undefined;
+        const retry = retries.pop();
+        if (retry) return retry;
+        if (cursor > toBlock) return undefined;
+        const from = cursor;
+        const to = from + range - 1n < toBlock ? from + range - 1n : toBlock;
+        cursor = to + 1n;
+        return [from, to];
+      };
+
+      const worker = async () => {
+        for (let chunk = next(); chunk; chunk = next()) {
+          const [from, to] = chunk;
+          const span = to - from + 1n;
+          try {
+            const logs = await publicClient.getLogs({ ...query, fromBlock: from, toBlock: to } as GetLogsParameters);
+            chunks.push({ from, logs: logs as MinedLog[] });
+            if (span >= range) range = range * 2n < maxRange ? range * 2n : maxRange;
+          } catch (error) {
+            if (!isRangeError(error) || span <= minRange) {
+              failed = true;
+              throw error;
+            }
+            const half = span / 2n > minRange ? span / 2n : minRange;
+            range = half < range ? half : range;
+            retries.push([from + half, to], [from, from + half - 1n]);
+          }
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+
+      return chunks.sort((a, b) => (a.from < b.from ? -1 : 1)).flatMap((chunk) => chunk.logs);
+    },
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * @title Network Registry
+ * @notice Resolves contract addresses for built-in and custom networks at runtime
+ * @dev Addresses are merged from the addresses baked into the package, the
+ *      deployments/<network>/latest.json manifest and caller-registered overrides.
+ *      deployments/<network>/history.ndjson keeps every earlier deployment
+ * @author Crutrade Team
+ */
+
+import type { Address, Chain, Hex, PublicClient, Transport } from "viem";
+import { abis, addresses, deploymentBlocks as bundledBlocks } from "../contracts";
+import { nodeFs, nodeProcess } from "./fs";
+
+export type ContractName = keyof typeof abis;
+export type BuiltinNetwork = keyof typeof addresses;
+export type Network = BuiltinNetwork | (string & {});
+export type ContractAddresses = Record<ContractName, Address>;
+
+export interface Deployment {
+  network: string;
+  chainId?: number;
+  timestamp?: string;
+  contracts: Partial<ContractAddresses>;
+  /// @notice Block each proxy was deployed in, when the manifest records it
+  blocks: Partial<Record<ContractName, bigint>>;
+}
+
+/// @notice A contract as recorded in the deployment history
+export interface DeployedContract {
+  /// @notice Address to call: the proxy of upgradeable contracts
+  address: Address;
+  proxy?: Address;
+  implementation?: Address;
+  /// @notice Transaction that deployed the contract (its proxy when proxied)
+  transactionHash?: Hex;
+  blockNumber?: bigint;
+}
+
+/// @notice An entry of deployments/<network>/history.ndjson
+export interface DeploymentRecord {
+  network: string;
+  chainId?: number;
+  /// @notice When the entry was recorded by create-deployments
+  timestamp: string;
+  /// @notice Package version the entry was recorded with
+  version?: string;
+  /// @notice Git commit the entry was recorded at
+  commit?: string;
+  contracts: Partial<Record<ContractName, DeployedContract>>;
+}
+
+export const contractNames = Object.keys(abis) as ContractName[];
+
+/// @notice Chain ids of the networks the package knows about
+export const chainIds: Record<string, number> = {
+  mainnet: 43114,
+  testnet: 43113,
+  local: 31337,
+};
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+const overrides = new Map<string, Partial<ContractAddresses>>();
+
+// Deployment blocks found on-chain, keyed by lowercase address
+const deploymentBlocks = new Map<string, bigint>();
+
+let deploymentsDir: string | undefined;
+
+function isSet(address: string | undefined): address is Address {
+  return !!address && address.toLowerCase() !== ZERO_ADDRESS;
+}
+
+/**
+ * @notice Sets the directory deployment manifests are read from
+ * @param dir Directory containing <network>/latest.json files
+ * @dev Defaults to CRUTRADE_DEPLOYMENTS_DIR, else deployments/ under the
+ *      working directory, not under the installed package: manifests belong
+ *      to the project that deploys. The package's own addresses are bundled
+ *      at build time and need no manifest
+ */
+export function setDeploymentsDir(dir: string): void {
+  deploymentsDir = dir;
+}
+
+function getDeploymentsDir(): string {
+  const proc = nodeProcess();
+  return deploymentsDir ?? proc?.env.CRUTRADE_DEPLOYMENTS_DIR ?? `${proc?.cwd() ?? "."}/deployments`;
+}
+
+/**
+ * @notice Loads deployments/<network>/latest.json
+ * @param network The network name
+ * @returns The deployment manifest with contract names normalised, or undefined if absent
+ */
+export function loadDeployment(network: Network): Deployment | undefined {
+  const fs = nodeFs();
+  if (!fs) return undefined;
+
+  const path = `${getDeploymentsDir()}/${network}/latest.json`;
+  if (!fs.existsSync(path)) return undefined;
+
+  const data = JSON.parse(fs.readFileSync(path, "utf8"));
+  const contracts: Partial<ContractAddresses> = {};
+  const blocks: Partial<Record<ContractName, bigint>> = {};
+  for (const name of contractNames) {
+    const address = data.contracts?.[name.toLowerCase()] ?? data.contracts?.[name];
+    if (isSet(address)) contracts[name] = address;
+    const block = data.blocks?.[name.toLowerCase()] ?? data.blocks?.[name];
+    if (block !== undefined) blocks[name] = BigInt(block);
+  }
+
+  return {
+    network,
+    chainId: data.chainId,
+    timestamp: data.timestamp,
+    contracts,
+    blocks,
+  };
+}
+
+/**
+ * @notice Loads the deployment ledger, deployments/<network>/history.ndjson
+ * @dev create-deployments appends an entry each time the deployed contracts
+ *      change, so the entries tell which implementation was live when
+ * @param network The network name
+ * @returns Entries oldest first, empty when the network has no ledger
+ */
+export function getDeploymentHistory(network: Network): DeploymentRecord[] {
+  const fs = nodeFs();
+  if (!fs) return [];
+
+  const path = `${getDeploymentsDir()}/${network}/history.ndjson`;
+  if (!fs.existsSync(path)) return [];
+
+  return fs
+    .readFileSync(path, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const data = JSON.parse(line);
+      const contracts: Partial<Record<ContractName, DeployedContract>> = {};
+      for (const name of contractNames) {
+        const contract = data.contracts?.[name.toLowerCase()] ?? data.contracts?.[name];
+        if (!contract || !isSet(contract.address)) continue;
+        contracts[name] = {
+          ...contract,
+          blockNumber: contract.blockNumber === undefined ? undefined : BigInt(contract.blockNumber),
+        };
+      }
+      return {
+        network,
+        chainId: data.chainId,
+        timestamp: data.timestamp,
+        version: data.version,
+        commit: data.commit,
+        contracts,
+      };
+    });
+}
+
+/**
+ * @notice Registers addresses for a network, taking precedence over any other source
+ * @param network The network name (built-in or custom)
+ * @param contracts Addresses to register, keyed by contract name
+ * @param chainId Chain id of the network, required for custom networks used with a client
+ */
+export function registerAddresses(
+  network: Network,
+  contracts: Partial<ContractAddresses>,
+  chainId?: number
+): void {
+  overrides.set(network, { ...overrides.get(network), ...contracts });
+  if (chainId !== undefined) chainIds[network] = chainId;
+}
+
+/**
+ * @notice Removes registered overrides for one network, or for all networks
+ * @param network The network name, omit to clear everything
+ */
+export function clearAddresses(network?: Network): void {
+  if (network === undefined) overrides.clear();
+  else overrides.delete(network);
+}
+
+/**
+ * @notice Resolves every contract address for a network
+ * @param network The network name
+ * @returns Addresses keyed by contract name; unresolved contracts are the zero address
+ * @dev Precedence: registered overrides, then the deployment manifest, then the package
+ */
+export function getAddresses(network: Network): ContractAddresses {
+  const builtin = (addresses as Record<string, ContractAddresses>)[network];
+  const deployment = loadDeployment(network);
+  const override = overrides.get(network);
+
+  if (!builtin && !deployment && !override) {
+    throw new Error(
+      `Unknown network: ${network}. Deploy it, or call registerAddresses("${network}", {...})`
+    );
+  }
+
+  const resolved = {} as ContractAddresses;
+  for (const name of contractNames) {
+    const candidates = [override?.[name], deployment?.contracts[name], builtin?.[name]];
+    resolved[name] = candidates.find(isSet) ?? ZERO_ADDRESS;
+  }
+  return resolved;
+}
+
+/**
+ * @notice Gets the chain id for a network
+ * @param network The network name
+ * @returns The chain id, or undefined when it cannot be determined
+ */
+export function getChainId(network: Network): number | undefined {
+  return chainIds[network] ?? loadDeployment(network)?.chainId;
+}
+
+/**
+ * @notice Gets the address and ABI for a contract
+ * @param name The contract name
+ * @param network The network name
+ */
+export function getContract<TName extends ContractName>(name: TName, network: Network) {
+  return {
+    address: getAddresses(network)[name],
+    abi: abis[name],
+  };
+}
+
+/**
+ * @notice Finds the block a contract's proxy was deployed in
+ * @dev Read from the deployment manifest when it records it, then from the
+ *      blocks bundled with the package for the packaged address; otherwise the
+ *      first block with code at the address is found by bisection over
+ *      eth_getCode, which needs an RPC serving historical state. Roles is
+ *      deployed first, so its block is where the events of the suite start
+ * @param network The network name
+ * @param publicClient Client of the network, used when the manifest has no block
+ * @param contract The contract (default Roles)
+ */
+export async function getDeploymentBlock(
+  network: Network,
+  publicClient: PublicClient<Transport, Chain | undefined>,
+  contract: ContractName = "Roles"
+): Promise<bigint> {
+  const recorded = loadDeployment(network)?.blocks[contract];
+  if (recorded !== undefined) return recorded;
+
+  const address = getAddresses(network)[contract];
+  if (!isSet(address)) throw new Error(`${contract} has no address on ${network}`);
+
+  // Bundled blocks belong to the bundled addresses, not to overrides
+  const packaged = (addresses as Record<string, ContractAddresses>)[network]?.[contract];
+  const bundled = bundledBlocks[network]?.[contract];
+  if (bundled !== undefined && packaged?.toLowerCase() === address.toLowerCase()) return bundled;
+
+  const cached = deploymentBlocks.get(address.toLowerCase());
+  if (cached !== undefined) return cached;
+
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await publicClient.getCode({ address, blockNumber });
+    return !!code && code !== "0x";
+  };
+
+  let high = await publicClient.getBlockNumber();
+  if (!(await hasCode(high))) throw new Error(`No code at ${contract} address ${address} on ${network}`);
+  let low = 0n;
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    if (await hasCode(middle)) high = middle;
+    else low = middle + 1n;
+  }
+
+  deploymentBlocks.set(address.toLowerCase(), low);
+  return low;
+}
@@ -0,0 +1,198 @@
+/**
+ * @title Nonce Resolver
+ * @notice Resolves the next signature nonce of a wallet on each Crutrade contract
+ * @dev Every contract built on ModifiersBase keeps its own _nonces mapping. The
+ *      nonce can be read through getNonce(address), straight from storage, or
+ *      rebuilt from NonceUsed logs. Resolved nonces are cached and handed out
+ *      optimistically so several signatures can be in flight at once
+ * @author Crutrade Team
+ */
+
+import {
+  decodeEventLog,
+  hexToBigInt,
+  parseAbiItem,
+  type Address,
+  type Chain,
+  type PublicClient,
+  type Transport,
+} from "viem";
+import { abis } from "../contracts";
+import { createLogFetcher } from "./logs";
+import { getAddresses, type ContractName, type Network } from "./networks";
+import { mappingSlot } from "./storage";
+
+/// @notice Contracts that verify signatures and therefore track nonces
+export type NonceContract = Exclude<ContractName, "Roles">;
+
+/// @notice Where on-chain nonces are read from
+export type NonceSource = "getter" | "storage" | "logs";
+
+/// @notice Storage slot of ModifiersBase._nonces (after roles and _usedHashes)
+export const NONCES_SLOT = 2n;
+
+const NONCE_USED_EVENT = parseAbiItem("event NonceUsed(address indexed user, uint256 nonce)");
+
+export interface NonceResolverConfig {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  source?: NonceSource;
+  /// @notice First block scanned when source is "logs", usually the proxy deployment block
+  fromBlock?: bigint;
+}
+
+interface NonceEntry {
+  onChain: bigint;
+  next: bigint;
+  scannedBlock?: bigint;
+}
+
+export interface NonceResolver {
+  getNextNonce(contract: NonceContract, wallet: Address): Promise<bigint>;
+  reserveNonce(contract: NonceContract, wallet: Address): Promise<bigint>;
+  releaseNonce(contract: NonceContract, wallet: Address, nonce: bigint): void;
+  reset(contract?: NonceContract, wallet?: Address): void;
+}
+
+/**
+ * @notice Computes the storage slot holding _nonces[wallet]
+ * @param wallet The wallet address
+ */
+export function getNonceSlot(wallet: Address) {
+  return mappingSlot("address", wallet, NONCES_SLOT);
+}
+
+/**
+ * @notice Creates a nonce resolver with its own cache
+ * @param config Network, public client and the source to read nonces from
+ */
+export function createNonceResolver(config: NonceResolverConfig): NonceResolver {
+  const { network, publicClient, source = "getter", fromBlock = 0n } = config;
+  const cache = new Map<string, NonceEntry>();
+  const logFetcher = createLogFetcher({ publicClient });
+
+  const key = (contract: NonceContract, wallet: Address) => `${contract}:${wallet.toLowerCase()}`;
+
+  /**
+   * @notice Reads the nonce the contract currently expects
+   * @dev With source "logs" only blocks after the last scan are fetched
+   */
+  async function readOnChain(contract: NonceContract, wallet: Address, entry?: NonceEntry) {
+    const address = getAddresses(network)[contract];
+
+    if (source === "getter") {
+      const onChain = await publicClient.readContract({
+        address,
+        abi: abis[contract] as typeof abis.Sales,
+        functionName: "getNonce",
+        args: [wallet],
+      });
+      return { onChain };
+    }
+
+    if (source === "storage") {
+      const value = await publicClient.getStorageAt({ address, slot: getNonceSlot(wallet) });
+      return { onChain: value ? hexToBigInt(value) : 0n };
+    }
+
+    const latest = await publicClient.getBlockNumber();
+    const start = entry?.scannedBlock !== undefined ? entry.scannedBlock + 1n : fromBlock;
+    let onChain = entry?.onChain ?? 0n;
+    if (start <= latest) {
+      const logs = await logFetcher.getLogs({
+        address,
+        event: NONCE_USED_EVENT,
+        args: { user: wallet },
+        fromBlock: start,
+        toBlock: latest,
+      });
+      for (const log of logs) {
+        const { args } = decodeEventLog({ abi: [NONCE_USED_EVENT], data: log.data, topics: log.topics });
+        if (args.nonce + 1n > onChain) onChain = args.nonce + 1n;
+      }
+    }
+    return { onChain, scannedBlock: latest };
+  }
+
+  // Pending work per contract:wallet key, so concurrent calls refresh and reserve one at a time
+  const queues = new Map<string, Promise<unknown>>();
+
+  function serialize<T>(cacheKey: string, task: () => Promise<T>): Promise<T> {
+    const result = (queues.get(cacheKey) ?? Promise.resolve()).then(task);
+    const settled = result.catch(() => undefined);
+    queues.set(cacheKey, settled);
+    settled.then(() => {
+      if (queues.get(cacheKey) === settled) queues.delete(cacheKey);
+    });
+    return result;
+  }
+
+  async function refresh(contract: NonceContract, wallet: Address): Promise<NonceEntry> {
+    const cacheKey = key(contract, wallet);
+    const { onChain, scannedBlock } = await readOnChain(contract, wallet, cache.get(cacheKey));
+    // Read after the await, as releases and resets may have happened meanwhile
+    const cached = cache.get(cacheKey);
+    const entry: NonceEntry = {
+      onChain,
+      // Reservations above the on-chain nonce are still pending, keep them
+      next: cached && cached.next > onChain ? cached.next : onChain,
+      scannedBlock,
+    };
+    cache.set(cacheKey, entry);
+    return entry;
+  }
+
+  return {
+    /**
+     * @notice Returns the next nonce that has not been reserved yet
+     * @param contract The contract the signature is for
+     * @param wallet The signing wallet
+     */
+    async getNextNonce(contract, wallet) {
+      return serialize(key(contract, wallet), async () => (await refresh(contract, wallet)).next);
+    },
+
+    /**
+     * @notice Reserves and returns the next nonce
+     * @param contract The contract the signature is for
+     * @param wallet The signing wallet
+     * @dev Calls made before earlier reservations are mined get consecutive nonces
+     */
+    async reserveNonce(contract, wallet) {
+      return serialize(key(contract, wallet), async () => {
+        const entry = await refresh(contract, wallet);
+        const nonce = entry.next;
+        entry.next = nonce + 1n;
+        return nonce;
+      });
+    },
+
+    /**
+     * @notice Gives back a reservation whose transaction will never be sent
+     * @param contract The contract the signature was for
+     * @param wallet The signing wallet
+     * @param nonce The reserved nonce
+     * @dev Reservations after it become unusable and are handed out again
+     */
+    releaseNonce(contract, wallet, nonce) {
+      const entry = cache.get(key(contract, wallet));
+      if (entry && nonce < entry.next) {
+        entry.next = nonce > entry.onChain ? nonce : entry.onChain;
+      }
+    },
+
+    /**
+     * @notice Drops cached state for one wallet, one contract or everything
+     * @param contract The contract, omit to clear every contract
+     * @param wallet The wallet, omit to clear every wallet
+     */
+    reset(contract, wallet) {
+      for (const cacheKey of [...cache.keys()]) {
+        const [cachedContract, cachedWallet] = cacheKey.split(":");
+        if (contract && cachedContract !== contract) continue;
+        if (wallet && cachedWallet !== wallet.toLowerCase()) continue;
+        cache.delete(cacheKey);
+      }
+    },
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * @title Order Book
+ * @notice Keeps the open listings of every collection in memory, built from Sales events
+ * @dev List adds a listing, Renew moves its window, Buy / Withdraw /
+ *      ListingCancelled remove it. List does not carry the collection, so the
+ *      wrapper -> collection pairs come from Wrappers Import events (their sku
+ *      is the collection), with getWrapperData as a fallback for wrappers
+ *      imported before the scanned range. Listings are split into upcoming,
+ *      live and expired with the same rules as getSaleStatus. Events are kept,
+ *      so the book can be rebuilt as it was at any block
+ * @author Crutrade Team
+ */
+
+import type { Address, Chain, Hex, PublicClient, Transport } from "viem";
+import { abis } from "../contracts";
+import { decodeContractLog, type CrutradeEvent, type CrutradeEventOf } from "./events";
+import { sortEvents } from "./export";
+import { createLogFetcher, type LogFetcher } from "./logs";
+import { getAddresses, type Network } from "./networks";
+import { getSaleStatus } from "./sales";
+import { createTimestampResolver, type TimestampResolver } from "./timestamps";
+
+/// @notice Events that change the order book
+export const ORDER_BOOK_EVENT_NAMES = ["Import", "List", "Renew", "Buy", "Withdraw", "ListingCancelled"] as const;
+
+export type OrderBookEventName = (typeof ORDER_BOOK_EVENT_NAMES)[number];
+
+export type OrderBookEvent = CrutradeEventOf<OrderBookEventName>;
+
+/// @notice An open sale in a collection's book
+export interface Listing {
+  saleId: bigint;
+  wrapperId: bigint;
+  collection: Hex;
+  seller: Address;
+  price: bigint;
+  erc20: Address;
+  start: bigint;
+  end: bigint;
+  /// @notice Block of the List or latest Renew
+  blockNumber: bigint | null;
+}
+
+/// @notice Live listings whose price falls in [price, price + bucketSize)
+export interface DepthLevel {
+  price: bigint;
+  count: number;
+}
+
+export interface OrderBookQuery {
+  /// @notice Width of a depth bucket in token units (default 1, one level per price)
+  bucketSize?: bigint;
+  /// @notice Only listings paid in this token
+  erc20?: Address;
+}
+
+export interface OrderBookSnapshot {
+  collection: Hex;
+  /// @notice Unix seconds the listings were classified at
+  timestamp: bigint;
+  /// @notice Block the book reflects, when built by the service
+  blockNumber?: bigint;
+  /// @notice Buyable now, cheapest first
+  live: Listing[];
+  /// @notice Waiting for their start, soonest first
+  upcoming: Listing[];
+  /// @notice Past their end and not renewed; still listed on-chain but not buyable
+  expired: Listing[];
+  /// @notice Cheapest live price
+  floorPrice?: bigint;
+  depth: DepthLevel[];
+}
+
+export interface OrderBookServiceConfig {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  /// @notice First block scanned, usually the proxy deployment block
+  fromBlock?: bigint;
+  timestamps?: TimestampResolver;
+  logFetcher?: LogFetcher;
+}
+
+function isOrderBookEvent(event: CrutradeEvent): event is OrderBookEvent {
+  return (ORDER_BOOK_EVENT_NAMES as readonly string[]).includes(event.eventName);
+}
+
+const byPrice = (a: Listing, b: Listing) => (a.price === b.price ? Number(a.saleId - b.saleId) : a.price < b.price ? -1 : 1);
+const byStart = (a: Listing, b: Listing) => (a.start === b.start ? Number(a.saleId - b.saleId) : a.start < b.start ? -1 : 1);
+
+/**
+ * @notice Creates an empty order book fed one event at a time
+ */
+export function createOrderBook() {
+  const collections = new Map<bigint, Hex>();
+  const listings = new Map<bigint, Listing>();
+
+  /**
+   * @notice Applies an event; events of other contracts or names are ignored
+   * @param event A decoded event, in chain order
+   */
+  function apply(event: CrutradeEvent): void {
+    if (!isOrderBookEvent(event)) return;
+
+    switch (event.eventName) {
+      case "Import":
+        if (event.contract !== "Wrappers") return;
+        for (const item of event.args.importData) collections.set(item.wrapperId, item.sku);
+        return;
+      case "List": {
+        const { wallet, salesId, date, output } = event.args;
+        const collection = collections.get(output.wrapperId);
+        if (!collection) {
+          throw new Error(`Collection of wrapper ${output.wrapperId} is unknown; apply its Import or call setCollection first`);
+        }
+        listings.set(salesId, {
+          saleId: salesId,
+          wrapperId: output.wrapperId,
+          collection,
+          seller: wallet,
+          price: output.price,
+          erc20: output.erc20,
+          start: date.expireUpcomeDate,
+          end: date.expireListDate,
+          blockNumber: event.blockNumber,
+        });
+        return;
+      }
+      case "Renew": {
+        const listing = listings.get(event.args.salesId);
+        if (!listing) return;
+        listing.start = event.args.date.expireUpcomeDate;
+        listing.end = event.args.date.expireListDate;
+        listing.blockNumber = event.blockNumber;
+        return;
+      }
+      case "Buy":
+      case "Withdraw":
+      case "ListingCancelled":
+        if (event.contract === "Sales") listings.delete(event.args.salesId);
+        return;
+    }
+  }
+
+  /**
+   * @notice Open listings of a collection, classified at a point in time
+   * @param collection Collection identifier (the wrapper sku)
+   * @param now Unix seconds, normally the timestamp of the block the book reflects
+   * @param query Depth bucket size and token filter
+   */
+  function snapshot(collection: Hex, now: bigint, query: OrderBookQuery = {}): OrderBookSnapshot {
+    const { bucketSize = 1n, erc20 } = query;
+    const result: OrderBookSnapshot = { collection, timestamp: now, live: [], upcoming: [], expired: [], depth: [] };
+
+    for (const listing of listings.values()) {
+      if (listing.collection.toLowerCase() !== collection.toLowerCase()) continue;
+      if (erc20 && listing.erc20.toLowerCase() !== erc20.toLowerCase()) continue;
+
+      const status = getSaleStatus({ ...listing, active: true }, now);
+      if (status === "live") result.live.push({ ...listing });
+      else if (status === "upcoming") result.upcoming.push({ ...listing });
+      else result.expired.push({ ...listing });
+    }
+
+    result.live.sort(byPrice);
+    result.upcoming.sort(byStart);
+    result.expired.sort(byPrice);
+    result.floorPrice = result.live[0]?.price;
+
+    for (const listing of result.live) {
+      const price = (listing.price / bucketSize) * bucketSize;
+      const level = result.depth[result.depth.length - 1];
+      if (level?.price === price) level.count++;
+      else result.depth.push({ price, count: 1 });
+    }
+    return result;
+  }
+
+  return {
+    apply,
+    snapshot,
+
+    /// @notice Records the collection of a wrapper whose Import was not applied
+    setCollection(wrapperId: bigint, collection: Hex): void {
+      collections.set(wrapperId, collection);
+    },
+
+    hasCollection(wrapperId: bigint): boolean {
+      return collections.has(wrapperId);
+    },
+
+    /// @notice Collections with at least one open listing
+    collections(): Hex[] {
+      return [...new Set([...listings.values()].map((listing) => listing.collection))];
+    },
+
+    /// @notice Every open listing, whatever its status
+    listings(): Listing[] {
+      return [...listings.values()].map((listing) => ({ ...listing }));
+    },
+  };
+}
+
+export type OrderBook = ReturnType<typeof createOrderBook>;
+
+const IMPORT_EVENTS = abis.Wrappers.filter(
+  (item): item is Extract<(typeof abis.Wrappers)[number], { type: "event" }> =>
+    item.type === "event" && item.name === "Import"
+);
+
+const SALES_EVENTS = abis.Sales.filter(
+  (item): item is Extract<(typeof abis.Sales)[number], { type: "event" }> =>
+    item.type === "event" && (ORDER_BOOK_EVENT_NAMES as readonly string[]).includes(item.name)
+);
+
+/**
+ * @notice Creates a service that follows the chain and serves order book snapshots
+ * @param config Network, public client and scan options
+ */
+export function createOrderBookService(config: OrderBookServiceConfig) {
+  const { network, publicClient, fromBlock = 0n } = config;
+  const logFetcher = config.logFetcher ?? createLogFetcher({ publicClient });
+  const timestamps = config.timestamps ?? createTimestampResolver({ publicClient });
+
+  const book = createOrderBook();
+  const events: OrderBookEvent[] = [];
+  // Collections read with getWrapperData, reused when replaying
+  const fallbackCollections = new Map<bigint, Hex>();
+  let syncedBlock = fromBlock - 1n;
+
+  async function readCollection(wrapperId: bigint): Promise<Hex> {
+    const data = await publicClient.readContract({
+      address: getAddresses(network).Wrappers,
+      abi: abis.Wrappers,
+      functionName: "getWrapperData",
+      args: [wrapperId],
+    });
+    return data.collection;
+  }
+
+  /**
+   * @notice Applies the events up to a block, latest by default
+   * @returns The block the book now reflects
+   */
+  async function sync(toBlock?: bigint): Promise<bigint> {
+    const head = toBlock ?? (await publicClient.getBlockNumber());
+    if (head <= syncedBlock) return syncedBlock;
+
+    const { Wrappers, Sales } = getAddresses(network);
+    const range = { fromBlock: syncedBlock + 1n, toBlock: head };
+    const [imports, sales] = await Promise.all([
+      logFetcher.getLogs({ address: Wrappers, events: IMPORT_EVENTS, ...range }),
+      logFetcher.getLogs({ address: Sales, events: SALES_EVENTS, ...range }),
+    ]);
+
+    const batch: OrderBookEvent[] = [];
+    for (const log of imports) {
+      const event = decodeContractLog(log, "Wrappers");
+      if (event && isOrderBookEvent(event)) batch.push(event);
+    }
+    for (const log of sales) {
+      const event = decodeContractLog(log, "Sales");
+      if (event && isOrderBookEvent(event)) batch.push(event);
+    }
+
+    for (const event of sortEvents(batch)) {
+      if (event.eventName === "List" && !book.hasCollection(event.args.output.wrapperId)) {
+        const { wrapperId } = event.args.output;
+        const collection = await readCollection(wrapperId);
+        fallbackCollections.set(wrapperId, collection);
+        book.setCollection(wrapperId, collection);
+      }
+      book.apply(event);
+      events.push(event);
+    }
+
+    syncedBlock = head;
+    return head;
+  }
+
+  return {
+    sync,
+
+    /// @notice The book as of the last sync
+    book,
+
+    get blockNumber() {
+      return syncedBlock;
+    },
+
+    /**
+     * @notice Snapshot of a collection at a block, the last synced one by default
+     * @dev Past blocks are served by replaying the kept events into a fresh book;
+     *      later blocks are synced first
+     * @param collection Collection identifier
+     * @param options Block to look at, depth bucket size and token filter
+     */
+    async snapshot(collection: Hex, options: OrderBookQuery & { blockNumber?: bigint } = {}): Promise<OrderBookSnapshot> {
+      const { blockNumber, ...query } = options;
+      if (blockNumber !== undefined && blockNumber < fromBlock) {
+        throw new Error(`Block ${blockNumber} is before the first scanned block ${fromBlock}`);
+      }
+      if (blockNumber === undefined || blockNumber > syncedBlock) await sync(blockNumber);
+
+      const target = blockNumber ?? syncedBlock;
+      let source = book;
+      if (target < syncedBlock) {
+        source = createOrderBook();
+        for (const [wrapperId, value] of fallbackCollections) source.setCollection(wrapperId, value);
+        for (const event of events) {
+          if (event.blockNumber !== null && event.blockNumber > target) break;
+          source.apply(event);
+        }
+      }
+
+      const now = await timestamps.getTimestamp(target);
+      return { ...source.snapshot(collection, now, query), blockNumber: target };
+    },
+  };
+}
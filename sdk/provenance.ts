@@ -0,0 +1,214 @@
+/**
+ * @title Wrapper Provenance
+ * @notice Rebuilds the chain of custody of a wrapper from its events
+ * @dev The wrapper id is the ERC-721 token id, so Transfer and MarketplaceTransfer
+ *      logs are filtered on it by the RPC. Import, Export and BatchTransfer carry
+ *      ids in arrays and Sales events only reference the wrapper through the
+ *      List output, so those are fetched in full and matched locally: a List of
+ *      the wrapper makes the Renew / Withdraw / Buy events of its sale id part
+ *      of the timeline
+ * @author Crutrade Team
+ */
+
+import type { Address, Chain, Hex, PublicClient, Transport } from "viem";
+import { abis } from "../contracts";
+import { decodeCrutradeError } from "./errors";
+import { decodeContractLog, type CrutradeEvent, type CrutradeEventOf } from "./events";
+import { sortEvents } from "./export";
+import { createLogFetcher, type LogFetcher } from "./logs";
+import { getAddresses, type Network } from "./networks";
+import { createTimestampResolver, type TimestampResolver } from "./timestamps";
+
+/// @notice Events that can appear in the timeline of a wrapper
+export const PROVENANCE_EVENT_NAMES = [
+  "Import",
+  "Transfer",
+  "MarketplaceTransfer",
+  "BatchTransfer",
+  "List",
+  "Renew",
+  "Withdraw",
+  "Buy",
+  "Export",
+] as const;
+
+export type ProvenanceEventName = (typeof PROVENANCE_EVENT_NAMES)[number];
+
+/// @notice A timeline entry: a decoded Wrappers or Sales event with the timestamp of its block
+export type ProvenanceEvent = CrutradeEventOf<ProvenanceEventName> & { timestamp: bigint };
+
+/// @notice Same shape as IWrappers.WrapperData
+export interface WrapperData {
+  uri: string;
+  metaKey: string;
+  amount: bigint;
+  tokenId: bigint;
+  brandId: bigint;
+  collection: Hex;
+  active: boolean;
+}
+
+export interface WrapperProvenance {
+  wrapperId: bigint;
+  /// @notice Every event of the wrapper in chain order
+  timeline: ProvenanceEvent[];
+  /// @notice Sale ids the wrapper was listed under, in listing order
+  saleIds: bigint[];
+  /// @notice Holder after the last ERC-721 Transfer in the timeline
+  owner?: Address;
+  /// @notice getWrapperData at `blockNumber`; undefined when the wrapper does not exist
+  snapshot?: WrapperData;
+  /// @notice Block the timeline and snapshot were read at
+  blockNumber: bigint;
+}
+
+export interface ProvenanceResolverConfig {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  /// @notice First block scanned, usually the proxy deployment block
+  fromBlock?: bigint;
+  /// @notice Resolver for the timestamps of timeline events, e.g. one with a cache file
+  timestamps?: TimestampResolver;
+  logFetcher?: LogFetcher;
+}
+
+function eventsOf<C extends "Wrappers" | "Sales">(contract: C, names: readonly string[]) {
+  return abis[contract].filter(
+    (item): item is Extract<(typeof abis)[C][number], { type: "event" }> =>
+      item.type === "event" && names.includes(item.name)
+  );
+}
+
+// Events whose wrapper ids are not indexed, matched after decoding
+const WRAPPER_ARRAY_EVENTS = eventsOf("Wrappers", ["Import", "Export", "BatchTransfer"]);
+const [MARKETPLACE_TRANSFER_EVENT] = eventsOf("Wrappers", ["MarketplaceTransfer"]);
+const [TRANSFER_EVENT] = eventsOf("Wrappers", ["Transfer"]);
+const SALE_EVENTS = eventsOf("Sales", ["List", "Renew", "Withdraw", "Buy"]);
+
+function isProvenanceEvent(event: CrutradeEvent): event is CrutradeEventOf<ProvenanceEventName> {
+  return (PROVENANCE_EVENT_NAMES as readonly string[]).includes(event.eventName);
+}
+
+/**
+ * @notice Selects the events of one wrapper and derives its sales and holder
+ * @param wrapperId The wrapper id
+ * @param events Wrappers and Sales events in chain order; unrelated ones are skipped
+ */
+export function buildProvenance<T extends CrutradeEvent>(
+  wrapperId: bigint,
+  events: readonly T[]
+): { timeline: T[]; saleIds: bigint[]; owner?: Address } {
+  const timeline: T[] = [];
+  const saleIds: bigint[] = [];
+  let owner: Address | undefined;
+
+  for (const event of events) {
+    if (!isProvenanceEvent(event)) continue;
+    let related = false;
+
+    switch (event.eventName) {
+      case "Import":
+        related = event.contract === "Wrappers" && event.args.importData.some((item) => item.wrapperId === wrapperId);
+        break;
+      case "Export":
+        related = event.args.wrapperIds.includes(wrapperId);
+        break;
+      case "BatchTransfer":
+        related = event.args.tokenIds.includes(wrapperId);
+        break;
+      case "MarketplaceTransfer":
+        related = event.args.wrapperId === wrapperId;
+        break;
+      case "Transfer":
+        // Brands is an ERC-721 too
+        related = event.contract === "Wrappers" && event.args.tokenId === wrapperId;
+        if (related) owner = event.args.to;
+        break;
+      case "List":
+        related = event.args.output.wrapperId === wrapperId;
+        if (related) saleIds.push(event.args.salesId);
+        break;
+      case "Renew":
+      case "Withdraw":
+      case "Buy":
+        related = event.contract === "Sales" && saleIds.includes(event.args.salesId);
+        break;
+    }
+
+    if (related) timeline.push(event);
+  }
+
+  return { timeline, saleIds, owner };
+}
+
+/**
+ * @notice Creates a resolver for the provenance of wrapper ids
+ * @param config Network, public client and scan options
+ */
+export function createProvenanceResolver(config: ProvenanceResolverConfig) {
+  const { network, publicClient, fromBlock = 0n } = config;
+  const logFetcher = config.logFetcher ?? createLogFetcher({ publicClient });
+  const timestamps = config.timestamps ?? createTimestampResolver({ publicClient });
+
+  async function readSnapshot(wrapperId: bigint, blockNumber: bigint): Promise<WrapperData | undefined> {
+    try {
+      return await publicClient.readContract({
+        address: getAddresses(network).Wrappers,
+        abi: abis.Wrappers,
+        functionName: "getWrapperData",
+        args: [wrapperId],
+        blockNumber,
+      });
+    } catch (error) {
+      if (decodeCrutradeError(error)?.name === "WrapperNotFound") return undefined;
+      throw error;
+    }
+  }
+
+  async function readEvents(wrapperId: bigint, toBlock: bigint): Promise<CrutradeEvent[]> {
+    const { Wrappers, Sales } = getAddresses(network);
+    const range = { fromBlock, toBlock };
+
+    const [arrays, marketplace, transfers, sales] = await Promise.all([
+      logFetcher.getLogs({ address: Wrappers, events: WRAPPER_ARRAY_EVENTS, ...range }),
+      logFetcher.getLogs({ address: Wrappers, event: MARKETPLACE_TRANSFER_EVENT, args: { wrapperId }, ...range }),
+      logFetcher.getLogs({ address: Wrappers, event: TRANSFER_EVENT, args: { tokenId: wrapperId }, ...range }),
+      logFetcher.getLogs({ address: Sales, events: SALE_EVENTS, ...range }),
+    ]);
+
+    const events: CrutradeEvent[] = [];
+    for (const log of [...arrays, ...marketplace, ...transfers]) {
+      const event = decodeContractLog(log, "Wrappers");
+      if (event) events.push(event);
+    }
+    for (const log of sales) {
+      const event = decodeContractLog(log, "Sales");
+      if (event) events.push(event);
+    }
+    return sortEvents(events);
+  }
+
+  return {
+    /**
+     * @notice Rebuilds the timeline of a wrapper and reads its current data
+     * @param wrapperId The wrapper id
+     */
+    async resolve(wrapperId: bigint): Promise<WrapperProvenance> {
+      const blockNumber = await publicClient.getBlockNumber();
+      const [events, snapshot] = await Promise.all([
+        readEvents(wrapperId, blockNumber),
+        readSnapshot(wrapperId, blockNumber),
+      ]);
+
+      const { timeline, saleIds, owner } = buildProvenance(wrapperId, events);
+      return {
+        wrapperId,
+        timeline: (await timestamps.withTimestamps(timeline)) as ProvenanceEvent[],
+        saleIds,
+        owner,
+        snapshot,
+        blockNumber,
+      };
+    },
+  };
+}
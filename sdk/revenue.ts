@@ -0,0 +1,471 @@
+/**
+ * @title Revenue Report
+ * @notice Aggregates the fees and payments recorded in Payments and Sales events
+ * @dev Revenue lines come from FeesProcessed (the fee shares of a sale, split
+ *      into the part charged on the buyer's fee and the part charged on the
+ *      seller's), the service and fiat fees of List / Renew / Withdraw / Buy,
+ *      Send and PaymentProcessed. None of these events names the payment token,
+ *      so it is taken from the ERC-20 Transfer logs of the transaction, and
+ *      amounts are formatted with the decimals stored by Roles.setPayment.
+ *      Membership tiers are replayed from Memberships events
+ * @author Crutrade Team
+ */
+
+import {
+  formatUnits,
+  hexToBigInt,
+  toEventSelector,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+} from "viem";
+import { abis } from "../contracts";
+import { decodeContractLog, type CrutradeEvent, type CrutradeEventOf } from "./events";
+import { sortEvents, toCsv } from "./export";
+import { BPS } from "./fees";
+import { labelHash } from "./labels";
+import { createLogFetcher, type LogFetcher } from "./logs";
+import { getAddresses, type Network } from "./networks";
+import { mappingSlot } from "./storage";
+import { createTimestampResolver, type TimestampResolver } from "./timestamps";
+
+/// @notice Storage slot of RolesBase._payments (OpenZeppelin 5 keeps its own state in namespaces)
+export const ROLES_SLOTS = { payments: 0n } as const;
+
+export const REVENUE_PERIODS = ["day", "week", "month"] as const;
+export type RevenuePeriod = (typeof REVENUE_PERIODS)[number];
+
+/// @notice Events that produce revenue lines
+export const REVENUE_EVENT_NAMES = ["FeesProcessed", "PaymentProcessed", "Send", "List", "Renew", "Withdraw", "Buy"] as const;
+export type RevenueEventName = (typeof REVENUE_EVENT_NAMES)[number];
+
+const MEMBERSHIP_EVENT_NAMES = ["Joined", "MembershipUpdated", "MembershipRevoked"] as const;
+
+/// @notice One amount moved by one event
+export interface RevenueLine {
+  timestamp: bigint;
+  blockNumber: bigint;
+  transactionHash: Hex;
+  event: RevenueEventName;
+  /// @notice Payment token; undefined when the transaction moved no ERC-20
+  token?: Address;
+  /// @notice Fee share name (e.g. TREASURY), SERVICE, FIAT, SEND or PAYMENT
+  feeName: string;
+  /// @notice LIST, BUY, RENEW, WITHDRAW, SEND or PAYMENT
+  operation: string;
+  /// @notice Membership id of `account` when the amount was charged
+  tier: bigint;
+  /// @notice Account the amount was charged for
+  account: Address;
+  amount: bigint;
+}
+
+/// @notice Revenue lines summed per period, token, fee name, operation and tier
+export interface RevenueRow {
+  period: string;
+  token?: Address;
+  decimals?: number;
+  feeName: string;
+  operation: string;
+  tier: bigint;
+  count: number;
+  amount: bigint;
+}
+
+/// @notice Lookups extractRevenue needs beyond the events themselves
+export interface RevenueContext {
+  tokenOf(transactionHash: Hex): Address | undefined;
+  tierOf(account: Address, blockNumber: bigint): bigint;
+  /// @notice Seller of a sale, the `to` of its FeesProcessed
+  sellerOf(saleId: bigint): Address | undefined;
+}
+
+export interface RevenueReporterConfig {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  /// @notice First block scanned, usually the proxy deployment block
+  fromBlock?: bigint;
+  timestamps?: TimestampResolver;
+  logFetcher?: LogFetcher;
+  /// @notice Receipts fetched at once to find payment tokens (default 10)
+  concurrency?: number;
+}
+
+export const REVENUE_COLUMNS = [
+  "period",
+  "token",
+  "decimals",
+  "feeName",
+  "operation",
+  "tier",
+  "count",
+  "amount",
+  "formatted",
+] as const;
+
+type RevenueEvent = CrutradeEventOf<RevenueEventName> & { timestamp: bigint };
+
+const TRANSFER_TOPIC = toEventSelector("Transfer(address,address,uint256)");
+
+function isRevenueEvent(event: CrutradeEvent): event is CrutradeEventOf<RevenueEventName> {
+  return (REVENUE_EVENT_NAMES as readonly string[]).includes(event.eventName);
+}
+
+function eventsOf<C extends "Payments" | "Sales" | "Memberships">(contract: C, names: readonly string[]) {
+  return abis[contract].filter(
+    (item): item is Extract<(typeof abis)[C][number], { type: "event" }> =>
+      item.type === "event" && names.includes(item.name)
+  );
+}
+
+function label(hash: Hex, fallback: string): string {
+  return /^0x0+$/.test(hash) ? fallback : (labelHash(hash) ?? hash);
+}
+
+/**
+ * @notice Key of the period a timestamp falls in, in UTC
+ * @param timestamp Unix seconds
+ * @param period day (2025-01-31), week (ISO week, 2025-W05) or month (2025-01)
+ */
+export function periodOf(timestamp: bigint, period: RevenuePeriod): string {
+  const date = new Date(Number(timestamp) * 1000);
+  const iso = date.toISOString();
+  if (period === "day") return iso.slice(0, 10);
+  if (period === "month") return iso.slice(0, 7);
+
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const firstDay = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - firstDay) / 86_400_000 / 7) + 1;
+  return `${thursday.getUTCFullYear()}-W${week.toString().padStart(2, "0")}`;
+}
+
+/**
+ * @notice Turns revenue events into one line per amount charged
+ * @param events Payments and Sales events with timestamps, in chain order
+ * @param context Token, tier and seller lookups
+ */
+export function extractRevenue(events: readonly (CrutradeEvent & { timestamp: bigint })[], context: RevenueContext): RevenueLine[] {
+  // FeesProcessed is emitted before the Buy that names the buyer
+  const buyers = new Map<string, Address>();
+  for (const event of events) {
+    if (event.contract === "Sales" && event.eventName === "Buy") {
+      buyers.set(`${event.transactionHash}:${event.args.salesId}`, event.args.wallet);
+    }
+  }
+
+  const lines: RevenueLine[] = [];
+  for (const event of events) {
+    if (!isRevenueEvent(event) || event.blockNumber === null || event.transactionHash === null) continue;
+    const { blockNumber, transactionHash } = event;
+    const token = context.tokenOf(transactionHash);
+
+    const push = (account: Address, feeName: string, operation: string, amount: bigint) => {
+      if (amount === 0n) return;
+      lines.push({
+        timestamp: (event as RevenueEvent).timestamp,
+        blockNumber,
+        transactionHash,
+        event: event.eventName,
+        token,
+        feeName,
+        operation,
+        tier: context.tierOf(account, blockNumber),
+        account,
+        amount,
+      });
+    };
+
+    switch (event.eventName) {
+      case "FeesProcessed": {
+        // splitFees is only called by Sales.buy, with the sale id as transaction id
+        const saleId = event.args.transactionId;
+        const buyer = buyers.get(`${transactionHash}:${saleId}`);
+        const seller = context.sellerOf(saleId);
+        if (!buyer || !seller) throw new Error(`Cannot find the buyer and seller of sale ${saleId} (tx ${transactionHash})`);
+
+        const { fromFee, toFee, serviceFee, fees } = event.args.fees;
+        for (const fee of fees) {
+          // Same rounding as _processTransfers; the buyer's part rounds down and the seller's takes the rest
+          const share = ((fromFee + toFee) * fee.percentage) / BPS;
+          const fromPart = (fromFee * fee.percentage) / BPS;
+          push(buyer, label(fee.name, "FEE"), "BUY", fromPart);
+          push(seller, label(fee.name, "FEE"), "BUY", share - fromPart);
+        }
+        push(buyer, "FIAT", "BUY", serviceFee.fiatFees);
+        break;
+      }
+      case "List":
+      case "Renew":
+      case "Withdraw": {
+        const operation = label(event.args.fee.operation, event.eventName.toUpperCase());
+        push(event.args.wallet, "SERVICE", operation, event.args.fee.serviceFees);
+        push(event.args.wallet, "FIAT", operation, event.args.fee.fiatFees);
+        break;
+      }
+      case "Buy": {
+        // The fee shares are already counted from FeesProcessed
+        const { serviceFee } = event.args.fees;
+        const operation = label(serviceFee.operation, "BUY");
+        push(event.args.wallet, "SERVICE", operation, serviceFee.serviceFees);
+        push(event.args.wallet, "FIAT", operation, serviceFee.fiatFees);
+        break;
+      }
+      case "Send":
+        push(event.args.from, "SEND", "SEND", event.args.amount);
+        break;
+      case "PaymentProcessed":
+        push(event.args.from, "PAYMENT", "PAYMENT", event.args.amount);
+        break;
+    }
+  }
+  return lines;
+}
+
+/**
+ * @notice Sums revenue lines per period, token, fee name, operation and tier
+ * @param lines Revenue lines
+ * @param period Period length
+ * @param decimals Decimals of each payment token, keyed by lowercase address
+ */
+export function aggregateRevenue(
+  lines: readonly RevenueLine[],
+  period: RevenuePeriod,
+  decimals: ReadonlyMap<string, number> = new Map()
+): RevenueRow[] {
+  const rows = new Map<string, RevenueRow>();
+  for (const line of lines) {
+    const row: RevenueRow = {
+      period: periodOf(line.timestamp, period),
+      token: line.token,
+      decimals: line.token ? decimals.get(line.token.toLowerCase()) : undefined,
+      feeName: line.feeName,
+      operation: line.operation,
+      tier: line.tier,
+      count: 0,
+      amount: 0n,
+    };
+    const key = [row.period, row.token?.toLowerCase(), row.feeName, row.operation, row.tier].join("|");
+    const existing = rows.get(key) ?? rows.set(key, row).get(key)!;
+    existing.count++;
+    existing.amount += line.amount;
+  }
+
+  const order = (row: RevenueRow) => [row.period, row.token?.toLowerCase() ?? "", row.operation, row.feeName];
+  return [...rows.values()].sort((a, b) => {
+    const [x, y] = [order(a), order(b)];
+    for (let i = 0; i < x.length; i++) if (x[i] !== y[i]) return x[i]! < y[i]! ? -1 : 1;
+    return a.tier < b.tier ? -1 : a.tier > b.tier ? 1 : 0;
+  });
+}
+
+/**
+ * @notice An amount in token units, or the raw amount when the decimals are unknown
+ */
+export function formatRevenueAmount(amount: bigint, decimals: number | undefined): string {
+  return decimals === undefined ? amount.toString() : formatUnits(amount, decimals);
+}
+
+/**
+ * @notice Writes aggregated revenue as CSV with REVENUE_COLUMNS
+ * @param rows Rows from aggregateRevenue
+ */
+export function formatRevenueCsv(rows: readonly RevenueRow[]): string {
+  return toCsv(
+    REVENUE_COLUMNS,
+    rows.map((row) => ({
+      period: row.period,
+      token: row.token ?? "",
+      decimals: row.decimals?.toString() ?? "",
+      feeName: row.feeName,
+      operation: row.operation,
+      tier: row.tier.toString(),
+      count: row.count.toString(),
+      amount: row.amount.toString(),
+      formatted: formatRevenueAmount(row.amount, row.decimals),
+    }))
+  );
+}
+
+/**
+ * @notice Creates a reporter that collects revenue lines from the chain
+ * @param config Network, public client and scan options
+ */
+export function createRevenueReporter(config: RevenueReporterConfig) {
+  const { network, publicClient, fromBlock = 0n, concurrency = 10 } = config;
+  const logFetcher = config.logFetcher ?? createLogFetcher({ publicClient });
+  const timestamps = config.timestamps ?? createTimestampResolver({ publicClient });
+  const decimalsCache = new Map<string, number | undefined>();
+
+  /**
+   * @notice Decimals registered for a token with Roles.setPayment
+   * @returns undefined when the token is not configured
+   */
+  async function readDecimals(token: Address): Promise<number | undefined> {
+    const key = token.toLowerCase();
+    if (!decimalsCache.has(key)) {
+      const value = await publicClient.getStorageAt({
+        address: getAddresses(network).Roles,
+        slot: mappingSlot("address", token, ROLES_SLOTS.payments),
+      });
+      // Payment { uint8 decimals; bool isConfigured } packs into the low bytes
+      const packed = value ? hexToBigInt(value) : 0n;
+      decimalsCache.set(key, (packed >> 8n) & 0xffn ? Number(packed & 0xffn) : undefined);
+    }
+    return decimalsCache.get(key);
+  }
+
+  /// @notice Payment token of each transaction: the first ERC-20 Transfer in its receipt
+  async function readTokens(hashes: Hex[]): Promise<Map<Hex, Address>> {
+    const tokens = new Map<Hex, Address>();
+    for (let i = 0; i < hashes.length; i += concurrency) {
+      const receipts = await Promise.all(
+        hashes.slice(i, i + concurrency).map((hash) => publicClient.getTransactionReceipt({ hash }))
+      );
+      for (const receipt of receipts) {
+        // ERC-721 Transfer has the same signature but a third indexed topic
+        const transfer = receipt.logs.find((log) => log.topics[0] === TRANSFER_TOPIC && log.topics.length === 3);
+        if (transfer) tokens.set(receipt.transactionHash, transfer.address);
+      }
+    }
+    return tokens;
+  }
+
+  async function readSellers(saleIds: bigint[], blockNumber: bigint): Promise<Map<bigint, Address>> {
+    const sales = await Promise.all(
+      saleIds.map((saleId) =>
+        publicClient.readContract({
+          address: getAddresses(network).Sales,
+          abi: abis.Sales,
+          functionName: "getSale",
+          args: [saleId],
+          blockNumber,
+        })
+      )
+    );
+    return new Map(saleIds.map((saleId, i) => [saleId, sales[i]!.seller]));
+  }
+
+  /**
+   * @notice Membership tier lookup replaying Memberships events over tiers read before the range
+   */
+  async function readTiers(events: readonly CrutradeEvent[], accounts: Address[]) {
+    const history = new Map<string, { blockNumber: bigint; tier: bigint }[]>();
+    const record = (account: Address, blockNumber: bigint | null, tier: bigint) => {
+      const key = account.toLowerCase();
+      const entries = history.get(key) ?? history.set(key, []).get(key)!;
+      entries.push({ blockNumber: blockNumber ?? 0n, tier });
+    };
+
+    const { Memberships } = getAddresses(network);
+    // Before Memberships was deployed, e.g. from the Roles deployment block, every account is tier 0
+    const deployed =
+      fromBlock > 0n && accounts.length > 0 && (await publicClient.getCode({ address: Memberships, blockNumber: fromBlock - 1n }));
+    if (deployed && deployed !== "0x") {
+      const initial = await publicClient.readContract({
+        address: Memberships,
+        abi: abis.Memberships,
+        functionName: "getMemberships",
+        args: [accounts],
+        blockNumber: fromBlock - 1n,
+      });
+      accounts.forEach((account, i) => record(account, fromBlock - 1n, initial[i]!));
+    }
+
+    for (const event of events) {
+      if (event.contract !== "Memberships") continue;
+      if (event.eventName === "Joined") {
+        for (const member of event.args.members) record(member, event.blockNumber, event.args.membershipId);
+      } else if (event.eventName === "MembershipUpdated") {
+        record(event.args.member, event.blockNumber, event.args.newId);
+      } else if (event.eventName === "MembershipRevoked") {
+        record(event.args.member, event.blockNumber, 0n);
+      }
+    }
+
+    return (account: Address, blockNumber: bigint): bigint => {
+      let tier = 0n;
+      for (const entry of history.get(account.toLowerCase()) ?? []) {
+        if (entry.blockNumber > blockNumber) break;
+        tier = entry.tier;
+      }
+      return tier;
+    };
+  }
+
+  /**
+   * @notice Collects the revenue lines of a block range
+   * @param toBlock Last block, latest by default
+   */
+  async function collect(toBlock?: bigint): Promise<RevenueLine[]> {
+    const head = toBlock ?? (await publicClient.getBlockNumber());
+    const { Payments, Sales, Memberships } = getAddresses(network);
+    const range = { fromBlock, toBlock: head };
+
+    const [payments, sales, memberships] = await Promise.all([
+      logFetcher.getLogs({ address: Payments, events: eventsOf("Payments", REVENUE_EVENT_NAMES), ...range }),
+      logFetcher.getLogs({ address: Sales, events: eventsOf("Sales", REVENUE_EVENT_NAMES), ...range }),
+      logFetcher.getLogs({ address: Memberships, events: eventsOf("Memberships", MEMBERSHIP_EVENT_NAMES), ...range }),
+    ]);
+
+    const decoded: CrutradeEvent[] = [];
+    for (const [logs, contract] of [[payments, "Payments"], [sales, "Sales"], [memberships, "Memberships"]] as const) {
+      for (const log of logs) {
+        const event = decodeContractLog(log, contract);
+        if (event) decoded.push(event);
+      }
+    }
+    const events = sortEvents(decoded);
+    const revenueEvents = events.filter(isRevenueEvent);
+
+    const sellers = new Map<bigint, Address>();
+    const soldIds = new Set<bigint>();
+    const accounts = new Set<Address>();
+    for (const event of revenueEvents) {
+      if (event.eventName === "List" && event.contract === "Sales") sellers.set(event.args.salesId, event.args.wallet);
+      if (event.eventName === "FeesProcessed") soldIds.add(event.args.transactionId);
+      if ("wallet" in event.args) accounts.add(event.args.wallet);
+      if ("from" in event.args) accounts.add(event.args.from);
+    }
+    // Sales listed before the range; sold sales are never deleted
+    const unknown = [...soldIds].filter((saleId) => !sellers.has(saleId));
+    for (const [saleId, seller] of await readSellers(unknown, head)) sellers.set(saleId, seller);
+    for (const seller of sellers.values()) accounts.add(seller);
+
+    const hashes = [...new Set(revenueEvents.map((event) => event.transactionHash!))];
+    const [tokens, tierOf, timed] = await Promise.all([
+      readTokens(hashes),
+      readTiers(events, [...accounts]),
+      timestamps.withTimestamps(revenueEvents),
+    ]);
+
+    return extractRevenue(timed, {
+      tokenOf: (hash) => tokens.get(hash),
+      tierOf,
+      sellerOf: (saleId) => sellers.get(saleId),
+    });
+  }
+
+  return {
+    collect,
+    readDecimals,
+
+    /**
+     * @notice Collects and aggregates the revenue of a block range
+     * @param options Period length and last block
+     */
+    async report(options: { period?: RevenuePeriod; toBlock?: bigint } = {}) {
+      const lines = await collect(options.toBlock);
+      const tokens = [...new Set(lines.flatMap((line) => (line.token ? [line.token] : [])))];
+      const decimals = new Map<string, number>();
+      for (const token of tokens) {
+        const value = await readDecimals(token);
+        if (value !== undefined) decimals.set(token.toLowerCase(), value);
+      }
+      return { lines, rows: aggregateRevenue(lines, options.period ?? "month", decimals) };
+    },
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * @title Sale Status
+ * @notice Resolves where a sale is in its lifecycle, with the transitions that led there
+ * @dev Mirrors the checks of SalesBase: a sale can be bought or withdrawn while
+ *      start <= now <= end, renewed once now >= end, and is deleted on withdraw.
+ *      The current status comes from getSale and the latest block timestamp;
+ *      the history is rebuilt from List / Buy / Renew / Withdraw logs
+ * @author Crutrade Team
+ */
+
+import type { Address, Block, Chain, Hex, PublicClient, Transport } from "viem";
+import { abis } from "../contracts";
+import { decodeCrutradeError } from "./errors";
+import { decodeContractLog, type CrutradeEvent, type CrutradeEventOf } from "./events";
+import { createLogFetcher } from "./logs";
+import { getAddresses, type Network } from "./networks";
+import { createTimestampResolver, type TimestampResolver } from "./timestamps";
+
+/// @notice Every status a sale id can resolve to; notFound means it never existed or its history was not loaded
+export const SALE_STATUSES = ["upcoming", "live", "expired", "sold", "withdrawn", "notFound"] as const;
+
+export type SaleStatus = (typeof SALE_STATUSES)[number];
+
+/// @notice Same shape as ISales.Sale
+export interface Sale {
+  end: bigint;
+  start: bigint;
+  price: bigint;
+  wrapperId: bigint;
+  seller: Address;
+  active: boolean;
+}
+
+/// @notice Sales events that change the status of a sale
+export const SALE_EVENT_NAMES = ["List", "Buy", "Renew", "Withdraw"] as const;
+
+export type SaleEventName = (typeof SALE_EVENT_NAMES)[number];
+
+/// @notice A decoded Sales event with the timestamp of its block
+export type SaleEvent = CrutradeEventOf<SaleEventName> & { timestamp: bigint };
+
+export interface SaleTransition {
+  status: SaleStatus;
+  /// @notice Unix seconds the sale entered the status
+  at: bigint;
+  /// @notice The event that caused it; absent when the transition only took time (live, expired)
+  event?: SaleEventName;
+  blockNumber?: bigint;
+  transactionHash?: Hex;
+}
+
+export interface SaleState {
+  saleId: bigint;
+  status: SaleStatus;
+  /// @notice The on-chain sale, undefined once withdrawn (Sales deletes it)
+  sale?: Sale;
+  /// @notice Block timestamp the status was resolved at
+  timestamp: bigint;
+  /// @notice Transitions in order, empty when history is disabled
+  history: SaleTransition[];
+}
+
+export interface SaleStatusResolverConfig {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  /// @notice Whether to rebuild the history from logs (default true)
+  history?: boolean;
+  /// @notice First block scanned for history, usually the proxy deployment block
+  fromBlock?: bigint;
+  /// @notice Resolver for the timestamps of history events, e.g. one with a cache file
+  timestamps?: TimestampResolver;
+}
+
+const SALE_EVENTS = abis.Sales.filter(
+  (item): item is Extract<(typeof abis.Sales)[number], { type: "event" }> =>
+    item.type === "event" && (SALE_EVENT_NAMES as readonly string[]).includes(item.name)
+);
+
+function isSaleEvent(event: CrutradeEvent): event is CrutradeEventOf<SaleEventName> {
+  return (SALE_EVENT_NAMES as readonly string[]).includes(event.eventName);
+}
+
+/**
+ * @notice Status of an existing sale at a point in time
+ * @param sale The sale as returned by getSale
+ * @param now Unix seconds, normally the latest block timestamp
+ */
+export function getSaleStatus(sale: Sale, now: bigint): SaleStatus {
+  if (!sale.active) return "sold";
+  if (now < sale.start) return "upcoming";
+  return now <= sale.end ? "live" : "expired";
+}
+
+/**
+ * @notice Rebuilds the transitions of one sale from its events
+ * @param events List / Buy / Renew / Withdraw events of the sale, in chain order
+ * @param now Unix seconds up to which time-based transitions are added
+ */
+export function buildSaleHistory(events: readonly SaleEvent[], now: bigint): SaleTransition[] {
+  const history: SaleTransition[] = [];
+  let window: { start: bigint; end: bigint } | undefined;
+
+  const status = () => history[history.length - 1]?.status;
+
+  // Adds the transitions that happen with time alone, up to and including `until`
+  const advance = (until: bigint) => {
+    if (!window) return;
+    if (status() === "upcoming" && window.start <= until) {
+      history.push({ status: "live", at: window.start });
+    }
+    if (status() === "live" && window.end < until) {
+      history.push({ status: "expired", at: window.end + 1n });
+    }
+  };
+
+  for (const event of events) {
+    advance(event.timestamp);
+    const cause = {
+      at: event.timestamp,
+      event: event.eventName,
+      blockNumber: event.blockNumber ?? undefined,
+      transactionHash: event.transactionHash ?? undefined,
+    };
+
+    switch (event.eventName) {
+      case "List":
+      case "Renew": {
+        const { expireUpcomeDate: start, expireListDate: end } = event.args.date;
+        window = { start, end };
+        history.push({ status: start > event.timestamp ? "upcoming" : "live", ...cause });
+        break;
+      }
+      case "Buy":
+        window = undefined;
+        history.push({ status: "sold", ...cause });
+        break;
+      case "Withdraw":
+        window = undefined;
+        history.push({ status: "withdrawn", ...cause });
+        break;
+    }
+  }
+
+  advance(now);
+  return history;
+}
+
+/**
+ * @notice Creates a resolver that answers status questions for sale ids
+ * @param config Network, public client and history options
+ */
+export function createSaleStatusResolver(config: SaleStatusResolverConfig) {
+  const { network, publicClient, history = true, fromBlock = 0n } = config;
+  const logFetcher = createLogFetcher({ publicClient });
+  const timestamps = config.timestamps ?? createTimestampResolver({ publicClient });
+
+  async function readSale(saleId: bigint, blockNumber: bigint): Promise<Sale | undefined> {
+    try {
+      return await publicClient.readContract({
+        address: getAddresses(network).Sales,
+        abi: abis.Sales,
+        functionName: "getSale",
+        args: [saleId],
+        blockNumber,
+      });
+    } catch (error) {
+      // getSale reverts with SaleNotFound for ids never listed and for withdrawn sales
+      if (decodeCrutradeError(error)?.name === "SaleNotFound") return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * @notice Loads the List / Buy / Renew / Withdraw events of the given sales
+   * @dev salesId is not indexed, so every event up to the block is fetched once and grouped
+   */
+  async function readEvents(saleIds: bigint[], block: Block<bigint, false, "latest">) {
+    const grouped = new Map<bigint, SaleEvent[]>(saleIds.map((id) => [id, []]));
+    if (!history || fromBlock > block.number) return grouped;
+
+    const logs = await logFetcher.getLogs({
+      address: getAddresses(network).Sales,
+      events: SALE_EVENTS,
+      fromBlock,
+      toBlock: block.number,
+    });
+
+    const events: CrutradeEventOf<SaleEventName>[] = [];
+    for (const log of logs) {
+      const event = decodeContractLog(log, "Sales");
+      if (event && isSaleEvent(event) && grouped.has(event.args.salesId)) events.push(event);
+    }
+
+    for (const event of await timestamps.withTimestamps(events)) {
+      grouped.get(event.args.salesId)!.push(event);
+    }
+    return grouped;
+  }
+
+  async function resolveMany(saleIds: readonly bigint[]): Promise<SaleState[]> {
+    const ids = [...new Set(saleIds)];
+    const block = await publicClient.getBlock({ blockTag: "latest" });
+    const [sales, events] = await Promise.all([Promise.all(ids.map((id) => readSale(id, block.number))), readEvents(ids, block)]);
+
+    const states = new Map<bigint, SaleState>();
+    ids.forEach((saleId, i) => {
+      const sale = sales[i];
+      const saleEvents = events.get(saleId)!;
+      const withdrawn = saleEvents.some((event) => event.eventName === "Withdraw");
+
+      states.set(saleId, {
+        saleId,
+        status: sale ? getSaleStatus(sale, block.timestamp) : withdrawn ? "withdrawn" : "notFound",
+        sale,
+        timestamp: block.timestamp,
+        history: buildSaleHistory(saleEvents, block.timestamp),
+      });
+    });
+
+    return saleIds.map((saleId) => states.get(saleId)!);
+  }
+
+  return {
+    /**
+     * @notice Resolves the status of one sale
+     * @param saleId The sale id
+     */
+    async resolve(saleId: bigint): Promise<SaleState> {
+      return (await resolveMany([saleId]))[0]!;
+    },
+
+    /**
+     * @notice Resolves many sales against the same block, e.g. for a listing page
+     * @param saleIds Sale ids, returned in the same order
+     * @dev One block read and one log scan are shared by all ids
+     */
+    resolveMany,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * @title Schedule Engine
+ * @notice TypeScript port of ScheduleBase, answering "when does a listing go live?"
+ * @dev Mirrors _getNextOccurrence and _getNextScheduleTime exactly, including
+ *      the UTC day boundaries and the weekday formula (1 = Monday ... 7 = Sunday).
+ *      Schedules are loaded once with getActiveSchedules / getListingDelay, so
+ *      any number of questions cost no further RPC calls
+ * @author Crutrade Team
+ */
+
+import type { Chain, PublicClient, Transport } from "viem";
+import { abis } from "../contracts";
+import { getAddresses, type Network } from "./networks";
+
+export const SECONDS_PER_DAY = 86_400n;
+export const SECONDS_PER_HOUR = 3_600n;
+export const SECONDS_PER_MINUTE = 60n;
+
+export interface Schedule {
+  id: bigint;
+  /// @notice Day of week, 1 = Monday ... 7 = Sunday
+  dayOfWeek: number;
+  hour: number;
+  minute: number;
+}
+
+export interface ScheduleState {
+  /// @notice Active schedules, as returned by Sales.getActiveSchedules
+  schedules: Schedule[];
+  /// @notice Seconds added to the listing time when no schedule is active
+  listingDelay: bigint;
+}
+
+/// @notice A point in time: unix seconds, or a Date
+export type Timestamp = bigint | number | Date;
+
+function toSeconds(at: Timestamp): bigint {
+  if (at instanceof Date) return BigInt(Math.floor(at.getTime() / 1000));
+  return typeof at === "bigint" ? at : BigInt(Math.floor(at));
+}
+
+/**
+ * @notice Day of week of a timestamp, using the same formula as the contract
+ * @param at The timestamp
+ * @returns 1 = Monday ... 7 = Sunday (UTC)
+ */
+export function getDayOfWeek(at: Timestamp): number {
+  return Number(((toSeconds(at) / SECONDS_PER_DAY + 3n) % 7n) + 1n);
+}
+
+/**
+ * @notice Port of ScheduleBase._getNextOccurrence
+ * @param at Current timestamp
+ * @param dayOfWeek Target day of week (1-7, Monday-Sunday)
+ * @param hour Target hour (0-23)
+ * @param minute Target minute (0-59)
+ * @returns Unix seconds of the next occurrence, strictly after at on the target day
+ */
+export function getNextOccurrence(at: Timestamp, dayOfWeek: number, hour: number, minute: number): bigint {
+  const timestamp = toSeconds(at);
+  const currentDayOfWeek = getDayOfWeek(timestamp);
+
+  let daysUntilTarget =
+    currentDayOfWeek <= dayOfWeek ? dayOfWeek - currentDayOfWeek : 7 - (currentDayOfWeek - dayOfWeek);
+
+  const startOfToday = (timestamp / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+  const targetTimeToday = startOfToday + BigInt(hour) * SECONDS_PER_HOUR + BigInt(minute) * SECONDS_PER_MINUTE;
+
+  // Same day but the time has passed: next week
+  if (daysUntilTarget === 0 && timestamp >= targetTimeToday) daysUntilTarget = 7;
+
+  return targetTimeToday + BigInt(daysUntilTarget) * SECONDS_PER_DAY;
+}
+
+/**
+ * @notice Port of ScheduleBase._getNextScheduleTime
+ * @param state Active schedules and the listing delay
+ * @param at Time the listing is made
+ * @returns Unix seconds at which the listing goes live
+ */
+export function nextScheduleTime(state: ScheduleState, at: Timestamp): bigint {
+  const timestamp = toSeconds(at);
+  let next: bigint | undefined;
+
+  for (const schedule of state.schedules) {
+    const occurrence = getNextOccurrence(timestamp, schedule.dayOfWeek, schedule.hour, schedule.minute);
+    if (next === undefined || occurrence < next) next = occurrence;
+  }
+
+  return next ?? timestamp + state.listingDelay;
+}
+
+/**
+ * @notice Reads the active schedules and the listing delay from Sales
+ * @param publicClient Client for the network
+ * @param network The network name
+ */
+export async function loadScheduleState(
+  publicClient: PublicClient<Transport, Chain | undefined>,
+  network: Network
+): Promise<ScheduleState> {
+  const address = getAddresses(network).Sales;
+  const [[ids, days, hours, minutes], listingDelay] = await Promise.all([
+    publicClient.readContract({ address, abi: abis.Sales, functionName: "getActiveSchedules" }),
+    publicClient.readContract({ address, abi: abis.Sales, functionName: "getListingDelay" }),
+  ]);
+
+  return {
+    schedules: ids.map((id, i) => ({ id, dayOfWeek: days[i]!, hour: hours[i]!, minute: minutes[i]! })),
+    listingDelay,
+  };
+}
+
+/**
+ * @notice Loads the schedule state once and answers go-live questions locally
+ * @param config Network and public client
+ */
+export async function createScheduleEngine(config: {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+}) {
+  let state = await loadScheduleState(config.publicClient, config.network);
+
+  return {
+    get state() {
+      return state;
+    },
+
+    /// @notice When a listing made at `at` goes live
+    nextScheduleTime(at: Timestamp): bigint {
+      return nextScheduleTime(state, at);
+    },
+
+    /// @notice Reloads the schedules, e.g. after ScheduleSet / ScheduleRemoved / ListingDelayUpdated
+    async refresh(): Promise<ScheduleState> {
+      state = await loadScheduleState(config.publicClient, config.network);
+      return state;
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * @title Peer-to-peer Sends
+ * @notice Verifies a sender's CrutradeMessage and submits Payments.send
+ * @dev send is restricted to the OPERATIONAL role, so the wallet client must
+ *      hold that role; the sender only signs the message
+ * @author Crutrade Team
+ */
+
+import type { Account, Address, Chain, Hex, PublicClient, Transport, WalletClient } from "viem";
+import { abis } from "../contracts";
+import { buildSendMessage, recoverMessageSigner, resolvePaymentsDomain, type SendMessage } from "./eip712";
+import { getAddresses, type Network } from "./networks";
+
+export interface SendPaymentParams extends SendMessage {
+  from: Address;
+  signature: Hex;
+}
+
+export interface SendPaymentConfig {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  operationalWallet: WalletClient<Transport, Chain | undefined, Account>;
+}
+
+/**
+ * @notice Recovers the signer of a send authorisation and checks it is the sender
+ * @param network The network name
+ * @param params The send parameters and the sender's signature
+ * @dev Throws with the expected and recovered addresses, the same pair
+ *      InvalidSignature(expected, recovered) would report on-chain
+ */
+export async function verifySendSignature(network: Network, params: SendPaymentParams): Promise<void> {
+  const typedData = buildSendMessage(resolvePaymentsDomain(network), params);
+  const recovered = await recoverMessageSigner(typedData, params.signature);
+  if (recovered.toLowerCase() !== params.from.toLowerCase()) {
+    throw new Error(`Invalid send signature: expected ${params.from}, recovered ${recovered}`);
+  }
+}
+
+/**
+ * @notice Submits Payments.send through the operational wallet
+ * @param config Network, public client and the OPERATIONAL wallet
+ * @param params The send parameters and the sender's signature
+ * @returns The transaction hash
+ * @dev The signature and expiry are checked locally and the call is simulated
+ *      before anything is broadcast
+ */
+export async function sendPayment(config: SendPaymentConfig, params: SendPaymentParams): Promise<Hex> {
+  const { network, publicClient, operationalWallet } = config;
+
+  await verifySendSignature(network, params);
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (params.expiry < now) {
+    throw new Error(`Send signature expired at ${new Date(Number(params.expiry) * 1000).toISOString()}`);
+  }
+
+  const { request } = await publicClient.simulateContract({
+    account: operationalWallet.account,
+    address: getAddresses(network).Payments,
+    abi: abis.Payments,
+    functionName: "send",
+    args: [
+      params.nonce,
+      params.expiry,
+      params.signature,
+      params.erc20,
+      params.from,
+      params.to,
+      params.amount,
+    ],
+  });
+
+  return operationalWallet.writeContract(request);
+}
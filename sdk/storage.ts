@@ -0,0 +1,26 @@
+/**
+ * @title Storage Slots
+ * @notice Computes Solidity storage slots for values that have no getter
+ * @author Crutrade Team
+ */
+
+import { encodeAbiParameters, keccak256, numberToHex, type Hex } from "viem";
+
+/**
+ * @notice Returns a slot number as a 32-byte hex string
+ * @param slot The slot number
+ */
+export function slotHex(slot: bigint): Hex {
+  return numberToHex(slot, { size: 32 });
+}
+
+/**
+ * @notice Computes the slot of mapping[key] for a mapping declared at slot
+ * @param keyType Solidity type of the key, e.g. "address" or "bytes32"
+ * @param key The key
+ * @param slot Slot the mapping is declared at
+ * @returns keccak256(abi.encode(key, slot))
+ */
+export function mappingSlot(keyType: "address" | "bytes32" | "uint256", key: Hex | bigint, slot: bigint): Hex {
+  return keccak256(encodeAbiParameters([{ type: keyType }, { type: "uint256" }], [key as never, slot]));
+}
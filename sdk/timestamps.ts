@@ -0,0 +1,157 @@
+/**
+ * @title Block Timestamps
+ * @notice Resolves block timestamps once, for any number of logs
+ * @dev Concurrent lookups of the same block share one request, and lookups of
+ *      different blocks are sent as JSON-RPC batches when the client uses an
+ *      http transport. Resolved pairs can be persisted to a JSON file so later
+ *      runs start with everything fetched before
+ * @author Crutrade Team
+ */
+
+import { createPublicClient, http, type Chain, type PublicClient, type Transport } from "viem";
+import { nodeFs } from "./fs";
+
+export interface TimestampResolverConfig {
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  /// @notice JSON file the block -> timestamp pairs are loaded from and saved to
+  cacheFile?: string;
+  /// @notice Blocks per JSON-RPC batch (default 100)
+  batchSize?: number;
+}
+
+export interface TimestampResolver {
+  /// @notice Number of cached blocks
+  readonly size: number;
+  getTimestamp(blockNumber: bigint): Promise<bigint>;
+  /// @notice Timestamps of many blocks, keyed by block number
+  getTimestamps(blockNumbers: Iterable<bigint>): Promise<Map<bigint, bigint>>;
+  /// @notice Copies of the items with the timestamp of their block added
+  withTimestamps<T extends { blockNumber: bigint | null }>(items: readonly T[]): Promise<(T & { timestamp: bigint })[]>;
+  /// @notice Forgets cached timestamps from a block on, e.g. after a reorg
+  invalidate(fromBlock: bigint): void;
+  /// @notice Writes the cache file now; lookups save it automatically
+  save(): void;
+}
+
+/**
+ * @notice Creates a client sending concurrent requests as JSON-RPC batches
+ * @dev Falls back to the given client for transports other than http
+ */
+function batchingClient(publicClient: TimestampResolverConfig["publicClient"], batchSize: number) {
+  const transport = publicClient.transport as { type: string; url?: string; fetchOptions?: RequestInit } | undefined;
+  if (transport?.type !== "http" || !transport.url) return publicClient;
+
+  return createPublicClient({
+    chain: publicClient.chain,
+    transport: http(transport.url, { batch: { batchSize }, fetchOptions: transport.fetchOptions }),
+  });
+}
+
+/**
+ * @notice Creates a timestamp resolver with its own cache
+ * @param config Client, cache file and batch size
+ */
+export function createTimestampResolver(config: TimestampResolverConfig): TimestampResolver {
+  const { cacheFile, batchSize = 100 } = config;
+  const client = batchingClient(config.publicClient, batchSize);
+  const cache = new Map<bigint, bigint>();
+  const pending = new Map<bigint, Promise<bigint>>();
+  let dirty = false;
+  let saveScheduled = false;
+
+  const fs = cacheFile ? nodeFs() : undefined;
+  if (fs && cacheFile && fs.existsSync(cacheFile)) {
+    const stored: Record<string, string> = JSON.parse(fs.readFileSync(cacheFile, "utf8"));
+    for (const [block, timestamp] of Object.entries(stored)) cache.set(BigInt(block), BigInt(timestamp));
+  }
+
+  function save(): void {
+    if (!fs || !cacheFile || !dirty) return;
+    const dir = cacheFile.includes("/") ? cacheFile.slice(0, cacheFile.lastIndexOf("/")) : "";
+    if (dir) fs.mkdirSync(dir, { recursive: true });
+
+    const entries = [...cache].sort(([a], [b]) => (a < b ? -1 : 1));
+    const data = Object.fromEntries(entries.map(([block, timestamp]) => [block.toString(), timestamp.toString()]));
+    // Written aside and renamed, so an interrupted run never leaves a truncated file
+    fs.writeFileSync(`${cacheFile}.tmp`, JSON.stringify(data));
+    fs.renameSync(`${cacheFile}.tmp`, cacheFile);
+    dirty = false;
+  }
+
+  // Many concurrent getTimestamp calls resolve together; write the file once for all of them
+  function scheduleSave(): void {
+    if (saveScheduled || !fs) return;
+    saveScheduled = true;
+    setTimeout(() => {
+      saveScheduled = false;
+      save();
+    }, 0);
+  }
+
+  function lookup(blockNumber: bigint): Promise<bigint> {
+    const cached = cache.get(blockNumber);
+    if (cached !== undefined) return Promise.resolve(cached);
+
+    let request = pending.get(blockNumber);
+    if (!request) {
+      request = client
+        .getBlock({ blockNumber, includeTransactions: false })
+        .then((block) => {
+          cache.set(blockNumber, block.timestamp);
+          dirty = true;
+          return block.timestamp;
+        })
+        .finally(() => pending.delete(blockNumber));
+      pending.set(blockNumber, request);
+    }
+    return request;
+  }
+
+  async function getTimestamps(blockNumbers: Iterable<bigint>): Promise<Map<bigint, bigint>> {
+    const unique = [...new Set(blockNumbers)];
+    const result = new Map<bigint, bigint>();
+
+    for (let i = 0; i < unique.length; i += batchSize) {
+      const batch = unique.slice(i, i + batchSize);
+      const timestamps = await Promise.all(batch.map(lookup));
+      batch.forEach((blockNumber, j) => result.set(blockNumber, timestamps[j]!));
+    }
+
+    save();
+    return result;
+  }
+
+  return {
+    get size() {
+      return cache.size;
+    },
+
+    async getTimestamp(blockNumber) {
+      const timestamp = await lookup(blockNumber);
+      scheduleSave();
+      return timestamp;
+    },
+
+    getTimestamps,
+
+    async withTimestamps(items) {
+      const timestamps = await getTimestamps(items.flatMap((item) => (item.blockNumber === null ? [] : [item.blockNumber])));
+      return items.map((item) => {
+        if (item.blockNumber === null) throw new Error("Cannot resolve the timestamp of a pending log");
+        return { ...item, timestamp: timestamps.get(item.blockNumber)! };
+      });
+    },
+
+    invalidate(fromBlock) {
+      for (const blockNumber of cache.keys()) {
+        if (blockNumber >= fromBlock) {
+          cache.delete(blockNumber);
+          dirty = true;
+        }
+      }
+      save();
+    },
+
+    save,
+  };
+}
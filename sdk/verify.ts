@@ -0,0 +1,234 @@
+/**
+ * @title Deployment Verification
+ * @notice Checks the on-chain setup of a deployment against the expected configuration
+ * @dev Every check reads live state: the ERC-1967 implementation slot of each
+ *      proxy, Roles grants, delegate roles and primary addresses, the Payments
+ *      treasury and fees, and the payment token. Expectations are plain values,
+ *      so scripts can build them from RoleConfig / PaymentsConfig
+ * @author Crutrade Team
+ */
+
+import { getAddress, zeroAddress, zeroHash, type Address, type Chain, type PublicClient, type Transport } from "viem";
+import { abis } from "../contracts";
+import { loadFeeSchedule, type MembershipFees } from "./fees";
+import { hashLabel, type RoleName } from "./labels";
+import { contractNames, getAddresses, getDeploymentHistory, type ContractName, type Network } from "./networks";
+
+/// @notice keccak256("eip1967.proxy.implementation") - 1
+export const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/// @notice Contract roles granted by deploy.s.sol, with the contract holding each
+export const CONTRACT_ROLES = {
+  BRANDS: "Brands",
+  WRAPPERS: "Wrappers",
+  WHITELIST: "Whitelist",
+  PAYMENTS: "Payments",
+  SALES: "Sales",
+  MEMBERSHIPS: "Memberships",
+} as const satisfies Partial<Record<RoleName, ContractName>>;
+
+/// @notice Contracts deploy.s.sol grants the delegate role to
+export const DELEGATED_CONTRACTS: readonly ContractName[] = ["Wrappers", "Payments", "Sales"];
+
+export interface RoleGrant {
+  role: RoleName | "DEFAULT_ADMIN_ROLE";
+  account: Address;
+}
+
+export interface DeploymentExpectations {
+  /// @notice Implementation behind each proxy; defaults to the latest deployment history entry
+  implementations?: Partial<Record<ContractName, Address>>;
+  /// @notice Roles accounts must hold, e.g. from RoleConfig
+  grants?: RoleGrant[];
+  /// @notice Contracts that must have the delegate role (default DELEGATED_CONTRACTS)
+  delegates?: readonly ContractName[];
+  /// @notice getRoleAddress results besides the contract roles, e.g. FIAT
+  roleAddresses?: Partial<Record<RoleName, Address>>;
+  treasury?: Address;
+  /// @notice Fiat fee in basis points
+  fiatFeePercentage?: bigint;
+  /// @notice Membership fees keyed by membership id
+  membershipFees?: Record<string, MembershipFees>;
+  /// @notice Payment token (USDC); when omitted the default fiat token only has to be configured
+  paymentToken?: Address;
+}
+
+export interface DeploymentCheck {
+  /// @notice Area of the check: "implementation", "grant", "delegate", "roleAddress", "payments" or "paymentToken"
+  category: string;
+  name: string;
+  ok: boolean;
+  expected?: string;
+  actual?: string;
+}
+
+export interface VerifyDeploymentConfig {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  expected?: DeploymentExpectations;
+}
+
+const roleId = (role: RoleGrant["role"]) => (role === "DEFAULT_ADMIN_ROLE" ? zeroHash : hashLabel(role));
+
+/// @notice Compares without validating, as actual values may be error notes
+const sameAddress = (a: string | undefined, b: string | undefined) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * @notice Verifies a deployment against the expected configuration
+ * @param config Network, client and expectations
+ * @returns One entry per check; the deployment drifted when any is not ok
+ * @dev A check whose read fails is reported as failed with the error as actual value
+ */
+export async function verifyDeployment(config: VerifyDeploymentConfig): Promise<DeploymentCheck[]> {
+  const { network, publicClient, expected = {} } = config;
+  const addresses = getAddresses(network);
+  const roles = addresses.Roles;
+  const latest = getDeploymentHistory(network).at(-1);
+
+  const check = async (
+    category: string,
+    name: string,
+    expectedValue: string | undefined,
+    read: () => Promise<string>,
+    matches: (actual: string) => boolean = (actual) => actual === expectedValue
+  ): Promise<DeploymentCheck> => {
+    try {
+      const actual = await read();
+      return { category, name, ok: matches(actual), expected: expectedValue, actual };
+    } catch (error) {
+      return { category, name, ok: false, expected: expectedValue, actual: (error as Error).message.split("\n")[0] };
+    }
+  };
+  const rolesContract = { address: roles, abi: abis.Roles } as const;
+  const hasRole = async (role: RoleGrant["role"], account: Address) =>
+    String(await publicClient.readContract({ ...rolesContract, functionName: "hasRole", args: [roleId(role), account] }));
+
+  const checks: Promise<DeploymentCheck>[] = [];
+
+  // Each proxy points at the expected implementation, and the implementation has code
+  for (const name of contractNames) {
+    const proxy = addresses[name];
+    if (sameAddress(proxy, zeroAddress)) {
+      checks.push(Promise.resolve({ category: "implementation", name, ok: false, expected: "deployed", actual: "no address" }));
+      continue;
+    }
+    const implementation = expected.implementations?.[name] ?? latest?.contracts[name]?.implementation;
+    const readImplementation = async () => {
+      const slot = await publicClient.getStorageAt({ address: proxy, slot: IMPLEMENTATION_SLOT });
+      const actual = getAddress(`0x${(slot ?? zeroHash).slice(-40)}`);
+      const code = await publicClient.getCode({ address: actual });
+      return code && code !== "0x" ? actual : `${actual} (no code)`;
+    };
+    checks.push(
+      check("implementation", name, implementation ?? "contract with code", readImplementation, (actual) =>
+        implementation ? sameAddress(actual, implementation) : !actual.endsWith("(no code)")
+      )
+    );
+  }
+
+  for (const { role, account } of expected.grants ?? []) {
+    checks.push(
+      check("grant", `${role} → ${account}`, "true", () => hasRole(role, account))
+    );
+  }
+
+  for (const name of expected.delegates ?? DELEGATED_CONTRACTS) {
+    checks.push(
+      check("delegate", name, "true", async () =>
+        String(await publicClient.readContract({ ...rolesContract, functionName: "hasDelegateRole", args: [addresses[name]] }))
+      )
+    );
+  }
+
+  // Contracts find each other through getRoleAddress, so each contract role must hold and point at its contract
+  const roleAddresses: Partial<Record<RoleName, Address>> = { ...expected.roleAddresses };
+  for (const [role, name] of Object.entries(CONTRACT_ROLES) as [RoleName, ContractName][]) {
+    roleAddresses[role] ??= addresses[name];
+    checks.push(
+      check("grant", `${role} → ${name}`, "true", () => hasRole(role, addresses[name]))
+    );
+  }
+  for (const [role, account] of Object.entries(roleAddresses) as [RoleName, Address][]) {
+    checks.push(
+      check(
+        "roleAddress",
+        role,
+        account,
+        async () => String(await publicClient.readContract({ ...rolesContract, functionName: "getRoleAddress", args: [roleId(role)] })),
+        (actual) => sameAddress(actual, account)
+      )
+    );
+  }
+
+  // Payments treasury and fees, read once for all of them
+  let schedule: ReturnType<typeof loadFeeSchedule> | undefined;
+  const getSchedule = () =>
+    (schedule ??= loadFeeSchedule(publicClient, network, Object.keys(expected.membershipFees ?? {}).map(BigInt)));
+  if (expected.treasury) {
+    const treasury = expected.treasury;
+    checks.push(
+      check("payments", "treasury", treasury, async () => {
+        const fee = (await getSchedule()).fees.find((candidate) => candidate.name === hashLabel("TREASURY"));
+        return fee ? fee.wallet : "no TREASURY fee";
+      }, (actual) => sameAddress(actual, treasury))
+    );
+  }
+  if (expected.fiatFeePercentage !== undefined) {
+    checks.push(
+      check("payments", "fiat fee", expected.fiatFeePercentage.toString(), async () =>
+        (await getSchedule()).fiatFeePercentage.toString()
+      )
+    );
+  }
+  for (const [id, fees] of Object.entries(expected.membershipFees ?? {})) {
+    const format = ({ sellerFee, buyerFee }: MembershipFees) => `seller ${sellerFee}, buyer ${buyerFee}`;
+    checks.push(
+      check("payments", `membership ${id} fees`, format(fees), async () => format((await getSchedule()).membershipFees[id]!))
+    );
+  }
+
+  // USDC is the default fiat token, configured in Roles and used by USDCApprovalProxy
+  const defaultToken = publicClient
+    .readContract({ ...rolesContract, functionName: "getDefaultFiatPayment" })
+    .then((token) => token, (error: Error) => error);
+  const tokenCheck = async (
+    name: string,
+    read: (token: Address) => Promise<string>,
+    matches: (actual: string, token: string) => boolean
+  ): Promise<DeploymentCheck> => {
+    const token = expected.paymentToken ?? (await defaultToken);
+    if (token instanceof Error) {
+      return { category: "paymentToken", name, ok: false, expected: "default fiat token", actual: token.message.split("\n")[0] };
+    }
+    return check("paymentToken", name, token, () => read(token), (actual) => matches(actual, token));
+  };
+  checks.push(
+    tokenCheck("default fiat token", () => defaultToken.then(String), (actual, token) =>
+      sameAddress(actual, token) && !sameAddress(actual, zeroAddress)
+    ),
+    tokenCheck(
+      "payment role",
+      async (token) => String(await publicClient.readContract({ ...rolesContract, functionName: "hasPaymentRole", args: [token] })),
+      (actual) => actual === "true"
+    )
+  );
+  if (!sameAddress(addresses.USDCApprovalProxy, zeroAddress)) {
+    const usdcProxy = addresses.USDCApprovalProxy;
+    checks.push(
+      tokenCheck(
+        "USDCApprovalProxy token",
+        () => publicClient.readContract({ address: usdcProxy, abi: abis.USDCApprovalProxy, functionName: "usdcToken" }),
+        (actual, token) => sameAddress(actual, token)
+      ),
+      check(
+        "paymentToken",
+        "USDCApprovalProxy payments",
+        addresses.Payments,
+        () => publicClient.readContract({ address: usdcProxy, abi: abis.USDCApprovalProxy, functionName: "paymentsContract" }),
+        (actual) => sameAddress(actual, addresses.Payments)
+      )
+    );
+  }
+
+  return Promise.all(checks);
+}
@@ -0,0 +1,344 @@
+/**
+ * @title Event Watcher
+ * @notice Watches every contract of the suite and turns its events into webhooks
+ * @dev One watchContractEvent per contract. Each event becomes a payload with
+ *      topic "<Contract>.<Event>" and its JSON-safe args; Sales.SaleLive is
+ *      added when the start of a listing passes, since no event marks it.
+ *      Payloads are queued in the outbox before the contract's cursor (the
+ *      last block handled) is saved, so a restarted watcher first re-scans
+ *      from the cursors and nothing is lost. Every watched contract gets a
+ *      cursor at the head on start; after that it only moves on blocks with
+ *      events. Events of blocks that are later reorged away are still
+ *      delivered, so receivers should check the chain before acting on them
+ * @author Crutrade Team
+ */
+
+import type { Address, Chain, PublicClient, Transport } from "viem";
+import { abis } from "../contracts";
+import { decodeContractLog, serializeEvent, type CrutradeEvent, type JsonSafe, type RawLog } from "./events";
+import { sortEvents } from "./export";
+import { nodeFs } from "./fs";
+import { createLogFetcher, type LogFetcher } from "./logs";
+import { contractNames, getAddresses, type ContractName, type Network } from "./networks";
+import { createTimestampResolver, type TimestampResolver } from "./timestamps";
+import type { WebhookOutbox, WebhookPayload } from "./webhooks";
+
+/// @notice Topic of the notification sent when a listing's start time passes
+export const SALE_LIVE_TOPIC = "Sales.SaleLive";
+
+/// @notice An open listing, kept to send Sales.SaleLive when its start passes
+export interface WatchedSale {
+  saleId: bigint;
+  wrapperId: bigint;
+  seller: Address;
+  price: bigint;
+  erc20: Address;
+  start: bigint;
+  end: bigint;
+  /// @notice Whether Sales.SaleLive was queued for the current start
+  announced: boolean;
+}
+
+/// @notice Data of an event payload
+export type EventPayloadData = JsonSafe<CrutradeEvent>;
+
+/// @notice Data of a Sales.SaleLive payload
+export type SaleLivePayloadData = JsonSafe<Omit<WatchedSale, "announced">>;
+
+export interface WatcherCursor {
+  address: Address;
+  /// @notice Last block whose events are in the outbox
+  blockNumber: bigint;
+}
+
+export interface EventWatcherConfig {
+  network: Network;
+  publicClient: PublicClient<Transport, Chain | undefined>;
+  outbox: WebhookOutbox;
+  /// @notice JSON file the cursors and open listings are kept in across restarts
+  stateFile?: string;
+  /// @notice Contracts to watch (default all)
+  contracts?: ContractName[];
+  /// @notice First block for contracts without a cursor (default the head at start, only new events)
+  fromBlock?: bigint;
+  /// @notice Milliseconds between polls for events, sale starts and due deliveries (default 4000)
+  pollingInterval?: number;
+  timestamps?: TimestampResolver;
+  logFetcher?: LogFetcher;
+  /// @notice Called with watch, poll and delivery errors; the watcher keeps running
+  onError?: (error: unknown) => void;
+}
+
+interface WatcherState {
+  cursors: Partial<Record<ContractName, WatcherCursor>>;
+  sales: WatchedSale[];
+}
+
+/**
+ * @notice Builds the payload of an event
+ * @param network The network the event was emitted on
+ * @param event A decoded event with the timestamp of its block
+ */
+export function eventPayload(network: Network, event: CrutradeEvent & { timestamp: bigint }): WebhookPayload<EventPayloadData> {
+  const { timestamp, ...rest } = event;
+  return {
+    id: `${network}:${event.transactionHash}:${event.logIndex}`,
+    topic: `${event.contract}.${event.eventName}`,
+    network,
+    timestamp: new Date(Number(timestamp) * 1000).toISOString(),
+    data: serializeEvent(rest as CrutradeEvent),
+  };
+}
+
+/**
+ * @notice Builds the Sales.SaleLive payload of a listing
+ * @dev The start is part of the id, so a renewed listing going live again is a new notification
+ * @param network The network of the sale
+ * @param sale The listing that went live
+ */
+export function saleLivePayload(network: Network, sale: WatchedSale): WebhookPayload<SaleLivePayloadData> {
+  const { announced: _, ...data } = sale;
+  return {
+    id: `${network}:sale-live:${sale.saleId}:${sale.start}`,
+    topic: SALE_LIVE_TOPIC,
+    network,
+    timestamp: new Date(Number(sale.start) * 1000).toISOString(),
+    data: serializeEvent(data),
+  };
+}
+
+/**
+ * @notice Creates a watcher feeding an outbox with the events of a network
+ * @param config Network, client, outbox and persistence options
+ */
+export function createEventWatcher(config: EventWatcherConfig) {
+  const { network, publicClient, outbox, stateFile, pollingInterval = 4_000, onError = () => {} } = config;
+  const contracts = config.contracts ?? contractNames;
+  const logFetcher = config.logFetcher ?? createLogFetcher({ publicClient });
+  const timestamps = config.timestamps ?? createTimestampResolver({ publicClient });
+  const fs = stateFile ? nodeFs() : undefined;
+
+  const state: WatcherState = { cursors: {}, sales: [] };
+  if (fs && stateFile && fs.existsSync(stateFile)) {
+    const saved = JSON.parse(fs.readFileSync(stateFile, "utf8")) as JsonSafe<WatcherState>;
+    for (const [contract, cursor] of Object.entries(saved.cursors)) {
+      state.cursors[contract as ContractName] = { address: cursor!.address as Address, blockNumber: BigInt(cursor!.blockNumber) };
+    }
+    state.sales = saved.sales.map((sale) => ({
+      ...sale,
+      seller: sale.seller as Address,
+      erc20: sale.erc20 as Address,
+      saleId: BigInt(sale.saleId),
+      wrapperId: BigInt(sale.wrapperId),
+      price: BigInt(sale.price),
+      start: BigInt(sale.start),
+      end: BigInt(sale.end),
+    }));
+  }
+
+  const unwatchers: (() => void)[] = [];
+  let timer: ReturnType<typeof setInterval> | undefined;
+  // Batches are handled one at a time, in the order they arrive
+  let queue: Promise<unknown> = Promise.resolve();
+  // Contracts whose last watched batch failed to be queued
+  const failed = new Set<ContractName>();
+
+  function save(): void {
+    if (!fs || !stateFile) return;
+    const dir = stateFile.includes("/") ? stateFile.slice(0, stateFile.lastIndexOf("/")) : "";
+    if (dir) fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(`${stateFile}.tmp`, JSON.stringify(serializeEvent(state), null, 2));
+    fs.renameSync(`${stateFile}.tmp`, stateFile);
+  }
+
+  function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const next = queue.then(task);
+    queue = next.catch(onError);
+    return next;
+  }
+
+  /// @notice Tracks open listings for Sales.SaleLive
+  function track(event: CrutradeEvent): void {
+    if (event.contract !== "Sales") return;
+    switch (event.eventName) {
+      case "List": {
+        const { wallet, salesId, date, output } = event.args;
+        state.sales = state.sales.filter((sale) => sale.saleId !== salesId);
+        state.sales.push({
+          saleId: salesId,
+          wrapperId: output.wrapperId,
+          seller: wallet,
+          price: output.price,
+          erc20: output.erc20,
+          start: date.expireUpcomeDate,
+          end: date.expireListDate,
+          announced: false,
+        });
+        return;
+      }
+      case "Renew": {
+        const { salesId, date } = event.args;
+        // A renewed listing goes live again at its new start
+        const sale = state.sales.find((candidate) => candidate.saleId === salesId);
+        if (sale) Object.assign(sale, { start: date.expireUpcomeDate, end: date.expireListDate, announced: false });
+        return;
+      }
+      case "Buy":
+      case "Withdraw":
+      case "ListingCancelled":
+        state.sales = state.sales.filter((sale) => sale.saleId !== event.args.salesId);
+        return;
+    }
+  }
+
+  /**
+   * @notice Queues the payloads of a contract's logs, then moves its cursor
+   * @returns Number of events queued
+   */
+  async function handle(contract: ContractName, address: Address, logs: readonly RawLog[], toBlock?: bigint): Promise<number> {
+    const decoded = logs.flatMap((log) => decodeContractLog(log, contract) ?? []);
+    const events = sortEvents(await timestamps.withTimestamps(decoded));
+
+    for (const event of events) {
+      track(event);
+      outbox.enqueue(eventPayload(network, event));
+    }
+
+    const last = toBlock ?? events[events.length - 1]?.blockNumber;
+    if (last !== undefined && last !== null) {
+      state.cursors[contract] = { address, blockNumber: last };
+      save();
+    }
+    return events.length;
+  }
+
+  /**
+   * @notice Queues Sales.SaleLive for listings whose start has passed
+   * @param now Unix seconds, the latest block timestamp by default
+   * @returns Number of sales that went live
+   */
+  async function checkSales(now?: bigint): Promise<number> {
+    const timestamp = now ?? (await publicClient.getBlock({ blockTag: "latest" })).timestamp;
+    const live = state.sales.filter((sale) => !sale.announced && sale.start <= timestamp);
+    if (live.length === 0) return 0;
+
+    for (const sale of live) {
+      outbox.enqueue(saleLivePayload(network, sale));
+      sale.announced = true;
+    }
+    save();
+    return live.length;
+  }
+
+  /**
+   * @notice Queues the events emitted since each contract's cursor
+   * @param toBlock Last block to scan
+   * @returns Number of events queued
+   */
+  async function catchUp(toBlock: bigint): Promise<number> {
+    let queued = 0;
+    for (const contract of contracts) {
+      const address = getAddresses(network)[contract];
+      if (BigInt(address) === 0n) continue;
+      queued += await scan(contract, address, toBlock);
+    }
+    return queued;
+  }
+
+  /**
+   * @notice Queues the events a contract emitted after its cursor
+   * @param toBlock Last block to scan
+   * @returns Number of events queued
+   */
+  async function scan(contract: ContractName, address: Address, toBlock: bigint): Promise<number> {
+    // A cursor for another address belongs to an earlier deployment
+    const stored = state.cursors[contract];
+    const cursor = stored?.address.toLowerCase() === address.toLowerCase() ? stored : undefined;
+    const from = cursor ? cursor.blockNumber + 1n : (config.fromBlock ?? toBlock + 1n);
+    if (from > toBlock) {
+      // Only new events are wanted: the cursor starts here, so a restart re-scans from it
+      if (!cursor) await handle(contract, address, [], from - 1n);
+      return 0;
+    }
+
+    const logs = await logFetcher.getLogs({ address, fromBlock: from, toBlock });
+    return handle(contract, address, logs, toBlock);
+  }
+
+  /**
+   * @notice Queues a batch of watched logs
+   * @dev After a failed batch the cursor stays put, and later batches are fetched again from it,
+   *      so the failed logs are retried instead of skipped
+   * @returns Number of events queued
+   */
+  async function receive(contract: ContractName, address: Address, logs: readonly RawLog[]): Promise<number> {
+    try {
+      if (!failed.has(contract)) return await handle(contract, address, logs);
+
+      const last = logs.reduce((max, log) => ((log.blockNumber ?? 0n) > max ? log.blockNumber! : max), 0n);
+      const queued = await scan(contract, address, last);
+      failed.delete(contract);
+      return queued;
+    } catch (error) {
+      failed.add(contract);
+      throw error;
+    }
+  }
+
+  return {
+    catchUp,
+    checkSales,
+
+    /// @notice Open listings seen by the watcher
+    sales(): WatchedSale[] {
+      return state.sales.map((sale) => ({ ...sale }));
+    },
+
+    /// @notice Cursor of a contract, if it has handled any block yet
+    getCursor(contract: ContractName): WatcherCursor | undefined {
+      const cursor = state.cursors[contract];
+      return cursor && { ...cursor };
+    },
+
+    /**
+     * @notice Catches up to the head, then watches for new events until stop()
+     * @returns The head the watchers start after
+     */
+    async start(): Promise<bigint> {
+      const head = await publicClient.getBlockNumber();
+      await serialized(() => catchUp(head));
+
+      for (const contract of contracts) {
+        const address = getAddresses(network)[contract];
+        if (BigInt(address) === 0n) continue;
+
+        unwatchers.push(
+          publicClient.watchContractEvent({
+            address,
+            abi: abis[contract],
+            fromBlock: head + 1n,
+            pollingInterval,
+            onLogs: (logs) => void serialized(() => receive(contract, address, logs as readonly RawLog[])),
+            onError,
+          })
+        );
+      }
+
+      timer = setInterval(() => {
+        void serialized(() => checkSales()).then(() => outbox.flush(), onError).catch(onError);
+      }, pollingInterval);
+      void outbox.flush().catch(onError);
+      return head;
+    },
+
+    /// @notice Stops watching and waits for the batch being handled
+    async stop(): Promise<void> {
+      for (const unwatch of unwatchers.splice(0)) unwatch();
+      if (timer) clearInterval(timer);
+      timer = undefined;
+      await queue;
+    },
+  };
+}
+
+export type EventWatcher = ReturnType<typeof createEventWatcher>;
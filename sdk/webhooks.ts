@@ -0,0 +1,255 @@
+/**
+ * @title Webhook Delivery
+ * @notice Signs JSON notifications and POSTs them to HTTP endpoints with retries
+ * @dev Deliveries go through an outbox that can be persisted to a file: a
+ *      delivery is only removed once its endpoint answered 2xx, so after a
+ *      crash or restart everything still pending is sent again (at-least-once;
+ *      receivers dedupe on the delivery id). Failed attempts back off
+ *      exponentially and deliveries that run out of attempts are appended to a
+ *      dead-letter NDJSON file. Bodies are signed with HMAC-SHA256 over
+ *      "<timestamp>.<body>" using WebCrypto
+ * @author Crutrade Team
+ */
+
+import { nodeFs } from "./fs";
+
+export interface WebhookEndpoint {
+  url: string;
+  /// @notice Shared secret for the X-Crutrade-Signature header
+  secret: string;
+  /// @notice Topics to deliver, e.g. "Sales.Buy", "Sales.*" or "*.Paused" (default all)
+  topics?: string[];
+}
+
+/// @notice The JSON body POSTed to endpoints
+export interface WebhookPayload<T = unknown> {
+  /// @notice Stable id of the notification, the same for every retry
+  id: string;
+  /// @notice "<Contract>.<Event>", or Sales.SaleLive when a listing's start time passes
+  topic: string;
+  network: string;
+  /// @notice ISO 8601 time of the block the notification comes from
+  timestamp: string;
+  data: T;
+}
+
+export interface WebhookDelivery {
+  /// @notice Payload id and endpoint url, unique per outbox
+  id: string;
+  url: string;
+  payload: WebhookPayload;
+  attempts: number;
+  /// @notice Unix milliseconds of the next attempt
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface WebhookOutboxConfig {
+  endpoints: WebhookEndpoint[];
+  /// @notice JSON file pending deliveries are kept in across restarts
+  file?: string;
+  /// @notice NDJSON file deliveries are appended to after the last attempt fails
+  deadLetterFile?: string;
+  /// @notice Attempts before a delivery is dead-lettered (default 8)
+  maxAttempts?: number;
+  /// @notice Delay after the first failure, doubled after each further one (default 1s)
+  baseDelayMs?: number;
+  /// @notice Longest delay between attempts (default 5 minutes)
+  maxDelayMs?: number;
+  /// @notice Request timeout (default 10s)
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+export const SIGNATURE_HEADER = "X-Crutrade-Signature";
+export const TIMESTAMP_HEADER = "X-Crutrade-Timestamp";
+export const DELIVERY_HEADER = "X-Crutrade-Delivery";
+export const TOPIC_HEADER = "X-Crutrade-Topic";
+
+const encoder = new TextEncoder();
+
+/**
+ * @notice Computes the signature header value of a body
+ * @param secret The endpoint secret
+ * @param timestamp Unix seconds sent in X-Crutrade-Timestamp
+ * @param body The exact request body
+ * @returns "sha256=<hex>"
+ */
+export async function signWebhook(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const mac = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`)));
+  return `sha256=${Array.from(mac, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * @notice Checks a received webhook, for receivers written in TypeScript
+ * @param secret The endpoint secret
+ * @param headers The request headers
+ * @param body The raw request body
+ * @param toleranceSeconds Oldest accepted timestamp, against replays (default 5 minutes)
+ */
+export async function verifyWebhook(
+  secret: string,
+  headers: Headers,
+  body: string,
+  toleranceSeconds = 300
+): Promise<boolean> {
+  const timestamp = Number(headers.get(TIMESTAMP_HEADER));
+  const signature = headers.get(SIGNATURE_HEADER) ?? "";
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = await signWebhook(secret, timestamp, body);
+  if (expected.length !== signature.length) return false;
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * @notice Whether an endpoint subscribed to a topic
+ * @param endpoint The endpoint
+ * @param topic "<Contract>.<Event>"
+ */
+export function matchesTopic(endpoint: WebhookEndpoint, topic: string): boolean {
+  if (!endpoint.topics || endpoint.topics.length === 0) return true;
+  const [contract, name] = topic.split(".");
+  return endpoint.topics.some((pattern) => {
+    const [c, n] = pattern.split(".");
+    return (c === "*" || c === contract) && (n === undefined || n === "*" || n === name);
+  });
+}
+
+/**
+ * @notice Creates an outbox delivering payloads to the configured endpoints
+ * @param config Endpoints, persistence files and retry policy
+ */
+export function createWebhookOutbox(config: WebhookOutboxConfig) {
+  const {
+    endpoints,
+    file,
+    deadLetterFile,
+    maxAttempts = 8,
+    baseDelayMs = 1_000,
+    maxDelayMs = 300_000,
+    timeoutMs = 10_000,
+    now = Date.now,
+  } = config;
+  const send = config.fetch ?? fetch;
+  const fs = file || deadLetterFile ? nodeFs() : undefined;
+  const deliveries = new Map<string, WebhookDelivery>();
+  // Flushes run one after the other, so a delivery is never in flight twice
+  let flushing: Promise<unknown> = Promise.resolve();
+
+  if (fs && file && fs.existsSync(file)) {
+    for (const delivery of JSON.parse(fs.readFileSync(file, "utf8")) as WebhookDelivery[]) {
+      deliveries.set(delivery.id, delivery);
+    }
+  }
+
+  function ensureDir(path: string): void {
+    const dir = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+    if (dir) fs!.mkdirSync(dir, { recursive: true });
+  }
+
+  function save(): void {
+    if (!fs || !file) return;
+    ensureDir(file);
+    // Written aside and renamed, so a crash never leaves a truncated outbox
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify([...deliveries.values()]));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  function deadLetter(delivery: WebhookDelivery): void {
+    if (!fs || !deadLetterFile) return;
+    ensureDir(deadLetterFile);
+    fs.appendFileSync(deadLetterFile, `${JSON.stringify({ ...delivery, failedAt: new Date(now()).toISOString() })}\n`);
+  }
+
+  async function attempt(delivery: WebhookDelivery): Promise<boolean> {
+    const endpoint = endpoints.find((candidate) => candidate.url === delivery.url);
+    if (!endpoint) return true; // endpoint removed from the configuration
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(now() / 1000);
+    try {
+      const response = await send(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [SIGNATURE_HEADER]: await signWebhook(endpoint.secret, timestamp, body),
+          [TIMESTAMP_HEADER]: timestamp.toString(),
+          [DELIVERY_HEADER]: delivery.payload.id,
+          [TOPIC_HEADER]: delivery.payload.topic,
+        },
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (response.ok) return true;
+      delivery.lastError = `HTTP ${response.status}`;
+    } catch (error) {
+      delivery.lastError = error instanceof Error ? error.message : String(error);
+    }
+    return false;
+  }
+
+  async function runDue(): Promise<number> {
+    let delivered = 0;
+    const due = [...deliveries.values()].filter((delivery) => delivery.nextAttemptAt <= now());
+
+    for (const delivery of due) {
+      if (await attempt(delivery)) {
+        deliveries.delete(delivery.id);
+        delivered++;
+      } else if (++delivery.attempts >= maxAttempts) {
+        deliveries.delete(delivery.id);
+        deadLetter(delivery);
+      } else {
+        delivery.nextAttemptAt = now() + Math.min(maxDelayMs, baseDelayMs * 2 ** (delivery.attempts - 1));
+      }
+      save();
+    }
+    return delivered;
+  }
+
+  return {
+    /**
+     * @notice Queues a payload for every endpoint subscribed to its topic
+     * @dev Saved before returning, so the caller may advance its own cursor.
+     *      A payload already pending for an endpoint is not queued twice
+     * @returns Number of deliveries queued
+     */
+    enqueue(payload: WebhookPayload): number {
+      let queued = 0;
+      for (const endpoint of endpoints) {
+        const id = `${payload.id}@${endpoint.url}`;
+        if (!matchesTopic(endpoint, payload.topic) || deliveries.has(id)) continue;
+        deliveries.set(id, { id, url: endpoint.url, payload, attempts: 0, nextAttemptAt: now() });
+        queued++;
+      }
+      if (queued > 0) save();
+      return queued;
+    },
+
+    /**
+     * @notice Attempts every delivery that is due
+     * @dev A call made while a flush is running starts after it
+     * @returns Number of deliveries that succeeded
+     */
+    flush(): Promise<number> {
+      const run = flushing.then(runDue);
+      flushing = run.catch(() => {});
+      return run;
+    },
+
+    /// @notice Deliveries still waiting for a 2xx
+    pending(): WebhookDelivery[] {
+      return [...deliveries.values()].map((delivery) => ({ ...delivery }));
+    },
+  };
+}
+
+export type WebhookOutbox = ReturnType<typeof createWebhookOutbox>;
@@ -0,0 +1,182 @@
+/**
+ * @title Anvil Test Harness
+ * @notice Starts Anvil and deploys the full suite for SDK parity tests, and
+ *         provides the fake clients and logs unit tests run against instead
+ * @dev Deploys through script/deploy.ts local, exactly like `npm run deploy:local`,
+ *      so tests exercise the same configuration developers run against. Tests
+ *      using it are skipped when anvil or forge is not installed
+ * @author Crutrade Team
+ */
+
+import { $, type Subprocess } from "bun";
+import { resolve } from "path";
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeAbiParameters,
+  encodeEventTopics,
+  getAbiItem,
+  http,
+  parseAbi,
+  zeroAddress,
+  type Abi,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { anvil } from "viem/chains";
+import { abis } from "../contracts";
+import type { ContractEvent } from "../sdk/events";
+import { setDeploymentsDir, type ContractName } from "../sdk/networks";
+
+export const anvilAvailable = !!Bun.which("anvil") && !!Bun.which("forge");
+
+// deploy.ts always targets the default Anvil RPC
+export const ANVIL_RPC = anvil.rpcUrls.default.http[0];
+
+/// @notice Default Anvil accounts #0-#2; #0 is owner, operational, treasury and fiat locally
+export const ANVIL_KEYS: Hex[] = [
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+];
+
+export const accounts = ANVIL_KEYS.map((key) => privateKeyToAccount(key));
+
+export const mockUsdcAbi = parseAbi([
+  "function mint(address to, uint256 amount)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+]);
+
+export const publicClient = createPublicClient({ chain: anvil, transport: http(ANVIL_RPC) });
+export const testClient = createTestClient({ chain: anvil, mode: "anvil", transport: http(ANVIL_RPC) });
+
+/**
+ * @notice Wallet client for an Anvil account, or an impersonated address
+ * @param account Index of an Anvil account, or an address to impersonate
+ */
+export function walletFor(account: number | Address) {
+  return createWalletClient({
+    chain: anvil,
+    transport: http(ANVIL_RPC),
+    account: typeof account === "number" ? accounts[account]! : account,
+  });
+}
+
+/**
+ * @notice Lets the tests send transactions as a contract or any other address
+ * @param address The address to impersonate
+ */
+export async function impersonate(address: Address) {
+  await testClient.impersonateAccount({ address });
+  await testClient.setBalance({ address, value: 10n ** 20n });
+  return walletFor(address);
+}
+
+/**
+ * @notice A public client for unit tests, implementing only the methods the code under test calls
+ * @param methods Fakes of PublicClient methods; other keys are rejected
+ */
+export function fakePublicClient(methods: { [K in keyof PublicClient]?: unknown }): PublicClient {
+  return methods as unknown as PublicClient;
+}
+
+/**
+ * @notice A wallet client with an account for unit tests, implementing only the methods the code under test calls
+ * @param methods Fakes of WalletClient members; other keys are rejected
+ */
+export function fakeWalletClient(
+  methods: { [K in keyof WalletClient]?: unknown }
+): WalletClient<Transport, Chain | undefined, Account> {
+  return methods as unknown as WalletClient<Transport, Chain | undefined, Account>;
+}
+
+/// @notice Name of an event declared by a contract's ABI
+export type EventName<C extends ContractName> = NonNullable<ContractEvent<C>["eventName"]>;
+
+/// @notice A log as the RPC returns it; location fields default to those of a pending log
+export interface EncodedLog {
+  address: Address;
+  topics: [Hex, ...Hex[]];
+  data: Hex;
+  blockNumber: bigint;
+  blockHash: Hex | null;
+  transactionHash: Hex | null;
+  transactionIndex: number;
+  logIndex: number;
+}
+
+/**
+ * @notice Encodes a log the way the EVM would emit it
+ * @param contract Contract whose ABI declares the event
+ * @param eventName The event
+ * @param args Event arguments by name, indexed ones included
+ * @param overrides Emitting address and location of the log
+ */
+export function encodeLog<C extends ContractName>(
+  contract: C,
+  eventName: EventName<C>,
+  args: Record<string, unknown>,
+  overrides: Partial<EncodedLog> = {}
+): EncodedLog {
+  const abi: Abi = abis[contract];
+  const name: string = eventName;
+  const event = getAbiItem({ abi, name });
+  if (event?.type !== "event") throw new Error(`Event ${eventName} not found in ${contract} ABI`);
+
+  const inputs = event.inputs.filter((input) => !input.indexed);
+  return {
+    address: zeroAddress,
+    topics: encodeEventTopics({ abi: [event], eventName: event.name, args }) as EncodedLog["topics"],
+    data: encodeAbiParameters(inputs, inputs.map((input) => args[input.name!])),
+    blockNumber: 0n,
+    blockHash: null,
+    transactionHash: null,
+    transactionIndex: 0,
+    logIndex: 0,
+    ...overrides,
+  };
+}
+
+let anvilProcess: Subprocess | undefined;
+
+/**
+ * @notice Starts Anvil, deploys every contract and points the SDK at the result
+ */
+export async function startAnvilWithDeployment(): Promise<void> {
+  const root = resolve(import.meta.dir, "..");
+
+  anvilProcess = Bun.spawn(["anvil", "--host", "127.0.0.1", "--port", "8545", "--chain-id", "31337", "--silent"], {
+    stdout: "ignore",
+    stderr: "ignore",
+  });
+
+  for (let i = 0; ; i++) {
+    try {
+      await publicClient.getChainId();
+      break;
+    } catch (error) {
+      if (i === 50) throw error;
+      await Bun.sleep(200);
+    }
+  }
+
+  await $`bun script/deploy.ts local`.cwd(root).quiet();
+  await $`bun script/create-deployments.ts`.cwd(root).quiet();
+  setDeploymentsDir(resolve(root, "deployments"));
+}
+
+/**
+ * @notice Stops the Anvil process started by startAnvilWithDeployment
+ */
+export function stopAnvil(): void {
+  anvilProcess?.kill();
+  anvilProcess = undefined;
+}
@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { encodeEventTopics, type Hex } from "viem";
+import { abis } from "../contracts";
+import {
+  getBroadcastAddress,
+  loadBroadcastRuns,
+  replayBroadcastRuns,
+  resolveBroadcast,
+  summarizeBroadcastRuns,
+  type BroadcastRun,
+} from "../sdk/broadcast";
+import { hashLabel } from "../sdk/labels";
+
+const CHAIN_ID = 31337;
+const fixtures = (scenario: string) => join(import.meta.dir, "fixtures", "broadcasts", scenario);
+
+const addresses = (contracts: ReturnType<typeof resolveBroadcast>["contracts"]) =>
+  Object.fromEntries(Object.entries(contracts).map(([name, contract]) => [name, contract.address]));
+
+describe("broadcast resolver", () => {
+  test("matches proxies by implementation, whatever the deploy order", () => {
+    const { contracts, files } = resolveBroadcast(CHAIN_ID, { dir: fixtures("reordered") });
+
+    expect(files.map((file) => file.split("/").pop())).toEqual(["run-latest.json"]);
+    // Sales' proxy was deployed before Wrappers' one
+    expect(addresses(contracts)).toEqual({
+      Roles: "0x937018a2f183f900ed96f34a0c43c5348019da30",
+      Sales: "0xb2b2b5a90ded230853ee64d811bf62ec582b78d9",
+      Wrappers: "0xe56f062973a9bb1f69a870214ba69f4aade51f1c",
+    });
+    expect(contracts.Roles).toMatchObject({
+      proxy: "0x937018a2f183f900ed96f34a0c43c5348019da30",
+      implementation: "0x2f4cdb0fedaefe02a53dc01abbdf6efc31592c3c",
+      blockNumber: 4n,
+    });
+  });
+
+  test("keeps the latest deployment and the partial runs after it", () => {
+    const { contracts, files } = resolveBroadcast(CHAIN_ID, { dir: fixtures("rerun") });
+
+    // run-latest.json duplicates the newest run and is skipped
+    expect(files.map((file) => file.split("/").pop())).toEqual([
+      "run-1700000000.json",
+      "run-1700001000.json",
+      "run-1700002000.json",
+    ]);
+    expect(addresses(contracts)).toEqual({
+      Roles: "0x37c4c863b82fc7e2f14f5a74629e698a44b8ea0b",
+      Wrappers: "0xb0612053e29a40c2623413d8db6948abdd63596a",
+      Sales: "0xad4b47e12615315949bf28bff66f2aceee04d4ed",
+      USDCApprovalProxy: "0x10e36ceecd64b1f0c7369c2e951b0f30f3f13e95",
+    });
+  });
+
+  test("follows upgrades from the given upgrade scripts", () => {
+    const dir = fixtures("upgrade");
+    const proxy = "0x8eb56e25975e6cc4e94799e8071ac2287bd064f6";
+
+    const deployed = resolveBroadcast(CHAIN_ID, { dir }).contracts;
+    expect(deployed.Wrappers).toMatchObject({ address: proxy, implementation: "0xf03247019529906939e06a18ac6f0dfbd160ce99" });
+
+    const upgraded = resolveBroadcast(CHAIN_ID, { dir, scripts: ["deploy.s.sol", "safe-upgrade-v1.5.0.s.sol"] }).contracts;
+    expect(upgraded.Wrappers).toMatchObject({ address: proxy, implementation: "0xa30e4686ceeeafa898341917b4650c43d8a21f36" });
+    // The Sales upgrade reverted
+    expect(upgraded.Sales!.implementation).toBe("0x7e3b4cc147e6f1e8424927a2b96218dfb3544850");
+  });
+
+  test("never mixes an interrupted redeploy with the previous deployment", () => {
+    const dir = fixtures("partial");
+
+    // Roles was redeployed, the Wrappers proxy never mined and the Sales one reverted
+    expect(addresses(resolveBroadcast(CHAIN_ID, { dir }).contracts)).toEqual({
+      Roles: "0x08e2de7d64770492405f50b069e70761458938c1",
+    });
+    expect(() => getBroadcastAddress("Sales", CHAIN_ID, { dir })).toThrow("Sales is not deployed according to");
+
+    // A run that stopped before its Roles proxy does not start a new deployment
+    const runs = ["run-1700000000.json", "run-1700002000.json"].map(
+      (file) => JSON.parse(readFileSync(join(dir, "deploy.s.sol", `${CHAIN_ID}`, file), "utf8")) as BroadcastRun
+    );
+    expect(Object.keys(replayBroadcastRuns(runs))).toEqual(["Roles", "Wrappers", "Sales"]);
+  });
+
+  test("summarizes what a run did for a deployment plan", () => {
+    const { run } = loadBroadcastRuns(CHAIN_ID, { dir: fixtures("reordered") })[0]!;
+    const roles = "0x937018a2f183f900ed96f34a0c43c5348019da30";
+    const sales = "0xb2b2b5a90ded230853ee64d811bf62ec582b78d9";
+    const deployer = "0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266";
+    const hash = `0x${"ab".repeat(32)}` as Hex;
+    // The deploy script then grants SALES to the Sales proxy
+    const configured: BroadcastRun = {
+      ...run,
+      transactions: [
+        ...run.transactions,
+        {
+          hash,
+          transactionType: "CALL",
+          contractName: null,
+          contractAddress: roles,
+          function: "grantRole(bytes32,address)",
+          arguments: [hashLabel("SALES"), sales],
+        },
+      ],
+      receipts: [
+        ...run.receipts!,
+        {
+          transactionHash: hash,
+          blockNumber: "0x7",
+          status: "0x1",
+          gasUsed: "0xc350",
+          effectiveGasPrice: "0x3b9aca00",
+          logs: [
+            {
+              address: roles,
+              topics: encodeEventTopics({
+                abi: abis.Roles,
+                eventName: "RoleGranted",
+                args: { role: hashLabel("SALES"), account: sales, sender: deployer },
+              }) as [Hex, ...Hex[]],
+              data: "0x",
+            },
+          ],
+        },
+      ],
+    };
+
+    const summary = summarizeBroadcastRuns([configured]);
+    expect(summary.creations.map((step) => step.proxyOf ?? step.contract)).toEqual([
+      "Roles",
+      "Sales",
+      "Wrappers",
+      "Roles",
+      "Sales",
+      "Wrappers",
+    ]);
+    expect(summary.calls).toHaveLength(1);
+    expect(summary.calls[0]).toMatchObject({
+      contract: "Roles",
+      proxyOf: "Roles",
+      function: "grantRole(bytes32,address)",
+      gasUsed: 50_000n,
+      reverted: false,
+    });
+    expect(summary.events.map((event) => `${event.contract}.${event.eventName}`)).toEqual(["Roles.RoleGranted"]);
+    expect((summary.events[0]!.args as { role: Hex }).role).toBe(hashLabel("SALES"));
+    expect(summary.gasUsed).toBe(6n * 2_000_000n + 50_000n);
+    expect(summary.cost).toBe(summary.gasUsed * 1_000_000_000n);
+  });
+
+  test("fails clearly without broadcast files", () => {
+    expect(() => getBroadcastAddress("Sales", 43114, { dir: fixtures("reordered") })).toThrow("no runs for chain 43114");
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  encodeAbiParameters,
+  zeroHash,
+  type Address,
+  type EIP1193RequestFn,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { avalanche, avalancheFuji } from "viem/chains";
+import { addresses } from "../contracts";
+import { createCrutradeClient, verifyCrutradeClient } from "../sdk/client";
+import { clearAddresses, registerAddresses } from "../sdk/networks";
+
+const NETWORK = "client-test";
+const ROLES = "0x0000000000000000000000000000000000000401" as Address;
+const account = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcaf784d7bf4f2ff80");
+
+/// @notice An RPC on the given chain whose eth_call answers true
+function rpc(chainId: number, calls: { method: string; params: unknown }[] = []) {
+  const request = (async ({ method, params }: { method: string; params: unknown }) => {
+    calls.push({ method, params });
+    if (method === "eth_chainId") return `0x${chainId.toString(16)}`;
+    if (method === "eth_call") return encodeAbiParameters([{ type: "bool" }], [true]);
+    throw new Error(`Unexpected ${method}`);
+  }) as EIP1193RequestFn;
+  return custom({ request });
+}
+
+afterEach(() => clearAddresses(NETWORK));
+
+describe("crutrade client", () => {
+  test("binds every contract to the network's addresses", async () => {
+    const calls: { method: string; params: unknown }[] = [];
+    const publicClient = createPublicClient({ chain: avalanche, transport: rpc(43114, calls) });
+    const client = createCrutradeClient({ network: "mainnet", publicClient });
+
+    expect(client.chainId).toBe(43114);
+    expect(client.Sales.address).toBe(addresses.mainnet.Sales);
+    expect(client.Roles.address).toBe(addresses.mainnet.Roles);
+
+    expect(await client.Roles.read.hasRole([zeroHash, account.address])).toBe(true);
+    expect(calls.map((call) => call.method)).toEqual(["eth_call"]);
+    expect((calls[0]!.params as [{ to: string }])[0].to).toBe(addresses.mainnet.Roles);
+  });
+
+  test("adds write methods with a wallet client", () => {
+    const publicClient = createPublicClient({ chain: avalanche, transport: rpc(43114) });
+    const walletClient = createWalletClient({ account, chain: avalanche, transport: rpc(43114) });
+    const client = createCrutradeClient({ network: "mainnet", publicClient, walletClient });
+
+    expect(typeof client.Sales.write.list).toBe("function");
+    expect(client.walletClient).toBe(walletClient);
+  });
+
+  test("rejects clients on another chain", () => {
+    const fuji = createPublicClient({ chain: avalancheFuji, transport: rpc(43113) });
+    // Block bodies, as inferring the full client type in expect() is too deep for tsc
+    expect(() => {
+      createCrutradeClient({ network: "mainnet", publicClient: fuji });
+    }).toThrow(
+      'publicClient is on chain 43113 but network "mainnet" is chain 43114'
+    );
+
+    const publicClient = createPublicClient({ chain: avalanche, transport: rpc(43114) });
+    const walletClient = createWalletClient({ account, chain: avalancheFuji, transport: rpc(43113) });
+    expect(() => {
+      createCrutradeClient({ network: "mainnet", publicClient, walletClient });
+    }).toThrow("walletClient is on chain 43113");
+  });
+
+  test("takes the chain id of custom networks from the client", async () => {
+    registerAddresses(NETWORK, { Roles: ROLES });
+    expect(() => {
+      createCrutradeClient({ network: NETWORK, publicClient: createPublicClient({ transport: rpc(777) }) });
+    }).toThrow(
+      `Unknown chain id for network "${NETWORK}"`
+    );
+
+    const client = createCrutradeClient({ network: NETWORK, publicClient: createPublicClient({ chain: avalanche, transport: rpc(43114) }) });
+    expect(client.chainId).toBe(43114);
+    expect(client.Roles.address).toBe(ROLES);
+  });
+
+  test("verifies the chain the RPC is on", async () => {
+    // Without a chain on the client, only the RPC can tell
+    const client = createCrutradeClient({ network: "mainnet", publicClient: createPublicClient({ transport: rpc(43113) }) });
+    await expect(verifyCrutradeClient(client)).rejects.toThrow('RPC is on chain 43113 but network "mainnet" is chain 43114');
+
+    const matching = createCrutradeClient({ network: "mainnet", publicClient: createPublicClient({ transport: rpc(43114) }) });
+    await expect(verifyCrutradeClient(matching)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  createWalletClient,
+  custom,
+  encodeAbiParameters,
+  hashStruct,
+  keccak256,
+  toHex,
+  type AbiParameter,
+  type Address,
+  type EIP1193RequestFn,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { avalanche } from "viem/chains";
+import {
+  buildListMessage,
+  buildSendMessage,
+  crutradeMessageTypes,
+  getFunctionSelector,
+  getPaymentsDomain,
+  getSalesDomain,
+  recoverMessageSigner,
+  salesMessageTypes,
+  signListMessage,
+  signSendMessage,
+  toSignTypedDataV4,
+  verifyMessageSignature,
+} from "../sdk/eip712";
+
+const SALES = "0x57aa14ba9f407785f1a0cff5bd5cb48d06304e79" as Address;
+const PAYMENTS = "0x921e936c7db1bd2df0f7f47926adcbf67b00b6d3" as Address;
+const account = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcaf784d7bf4f2ff80");
+
+// Type strings hashed by ModifiersBase, e.g. keccak256("CrutradeListMessage(bytes4 functionSelector,...)")
+const source = readFileSync(join(import.meta.dir, "..", "src", "abstracts", "ModifiersBase.sol"), "utf8");
+const solidityType = (name: string) => source.match(new RegExp(`keccak256\\(\\s*"(${name}\\([^"]*\\))"`))?.[1];
+
+const structs = { ...salesMessageTypes, ...crutradeMessageTypes };
+
+const list = {
+  nonce: 7n,
+  expiry: 1_900_000_000n,
+  wrapperId: 42n,
+  directSaleId: 0n,
+  isFiat: false,
+  price: 1_500_000n,
+  expireType: 2n,
+};
+
+/// @notice A distinct value of a field type
+function sample(type: string, i: number): unknown {
+  if (type === "bool") return i % 2 === 0;
+  if (type === "bytes4") return "0x12345678";
+  if (type === "bytes32") return keccak256(toHex(i));
+  return BigInt(i + 1);
+}
+
+describe("EIP-712 messages", () => {
+  test.each(Object.keys(structs) as (keyof typeof structs)[])("%s matches the Solidity typehash", (name) => {
+    const fields = structs[name];
+    const encoded = `${name}(${fields.map((field) => `${field.type} ${field.name}`).join(",")})`;
+    expect(encoded).toBe(solidityType(name)!);
+
+    // The struct hash is keccak256(abi.encode(TYPEHASH, fields...)), as ModifiersBase computes it
+    const data = Object.fromEntries(fields.map((field, i) => [field.name, sample(field.type, i)]));
+    const expected = keccak256(
+      encodeAbiParameters(
+        [{ type: "bytes32" }, ...fields.map((field): AbiParameter => ({ type: field.type }))],
+        [keccak256(toHex(solidityType(name)!)), ...fields.map((field) => data[field.name])]
+      )
+    );
+    expect(hashStruct({ data, primaryType: name, types: { [name]: fields } })).toBe(expected);
+  });
+
+  test("fills the function selector from the ABI", () => {
+    const typedData = buildListMessage(getSalesDomain(43114, SALES), list);
+
+    expect(typedData.message.functionSelector).toBe(getFunctionSelector("Sales", "list"));
+    expect(getFunctionSelector("Sales", "buy")).not.toBe(typedData.message.functionSelector);
+    expect(() => getFunctionSelector("Sales", "missing")).toThrow("Function missing not found in Sales ABI");
+  });
+
+  test("signs with a local account or a wallet client", async () => {
+    const domain = getSalesDomain(43114, SALES);
+    const typedData = buildListMessage(domain, list);
+    const request = (async () => {
+      throw new Error("Local accounts sign without the RPC");
+    }) as EIP1193RequestFn;
+    const walletClient = createWalletClient({ account, chain: avalanche, transport: custom({ request }) });
+
+    const signature = await signListMessage(account, domain, list);
+    expect(await signListMessage(walletClient, domain, list)).toBe(signature);
+    expect(await recoverMessageSigner(typedData, signature)).toBe(account.address);
+    expect(await verifyMessageSignature(typedData, signature, account.address)).toBe(true);
+    expect(await verifyMessageSignature(buildListMessage(domain, { ...list, price: 1n }), signature, account.address)).toBe(false);
+  });
+
+  test("authorises Payments.send through the data hash", async () => {
+    const domain = getPaymentsDomain(43114, PAYMENTS);
+    const send = { nonce: 1n, expiry: 1_900_000_000n, erc20: SALES, to: account.address, amount: 10n };
+    const signature = await signSendMessage(account, domain, send);
+
+    expect(await verifyMessageSignature(buildSendMessage(domain, send), signature, account.address)).toBe(true);
+    expect(await verifyMessageSignature(buildSendMessage(domain, { ...send, amount: 11n }), signature, account.address)).toBe(false);
+  });
+
+  test("serialises eth_signTypedData_v4 payloads", () => {
+    const payload = JSON.parse(toSignTypedDataV4(buildListMessage(getSalesDomain(43114, SALES), list)));
+
+    expect(payload.types.EIP712Domain.map((field: { name: string }) => field.name)).toEqual(["name", "version", "chainId", "verifyingContract"]);
+    expect(payload.primaryType).toBe("CrutradeListMessage");
+    expect(payload.message).toMatchObject({ nonce: "7", price: "1500000", isFiat: false });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { encodeErrorResult, type Address } from "viem";
+import { crutradeErrorsAbi, decodeCrutradeError, formatCrutradeError, getRevertData } from "../sdk/errors";
+import { hashLabel } from "../sdk/labels";
+
+const ACCOUNT = "0x00000000000000000000000000000000000000A1" as Address;
+
+const revert = (errorName: string, args: readonly unknown[] = []) =>
+  encodeErrorResult({ abi: crutradeErrorsAbi, errorName, args } as Parameters<typeof encodeErrorResult>[0]);
+
+describe("error decoder", () => {
+  test("keeps plain numbers as they are", () => {
+    expect(decodeCrutradeError(revert("InvalidNonce", [5n, 3n]))).toMatchObject({
+      name: "InvalidNonce",
+      signature: "InvalidNonce(uint256,uint256)",
+      args: { expected: 5n, provided: 3n },
+      message: "Nonce 3 was used but the contract expects 5",
+    });
+    expect(decodeCrutradeError(revert("SaleNotFound", [1500000n]))!.message).toBe("Sale 1500000 does not exist");
+  });
+
+  test("formats amounts, timestamps, durations and percentages", () => {
+    expect(decodeCrutradeError(revert("InsufficientPayment", [1_500_000n, 1_000_000n]), { symbol: "USDC" })!.message).toBe(
+      "Payment of 1 USDC is below the required 1.5 USDC"
+    );
+    expect(decodeCrutradeError(revert("InvalidSalePrice", [2n * 10n ** 18n]), { decimals: 18 })!.message).toBe("Price 2 is not allowed");
+    expect(decodeCrutradeError(revert("SignatureExpired", [1_700_000_000n, 1_700_000_060n]))!.message).toBe(
+      "The signature expired at 2023-11-14T22:13:20.000Z (block time 2023-11-14T22:14:20.000Z)"
+    );
+    expect(decodeCrutradeError(revert("InvalidListingDelay", [90_060n]))!.message).toBe("Listing delay of 1d 1h 1m is not allowed");
+    expect(decodeCrutradeError(revert("InvalidPercentage", [250n]))!.message).toBe("Percentage 2.5% is out of range");
+  });
+
+  test("names roles", () => {
+    const decoded = decodeCrutradeError(revert("AccessControlUnauthorizedAccount", [ACCOUNT, hashLabel("OWNER")]));
+    expect(decoded!.message).toBe(`${ACCOUNT} does not have role OWNER`);
+    expect(decoded!.params[1]).toMatchObject({ name: "neededRole", type: "bytes32", formatted: "OWNER" });
+  });
+
+  test("finds revert data nested in thrown errors", () => {
+    const data = revert("SaleNotActive", [7n]);
+    const thrown = Object.assign(new Error("execution reverted"), {
+      shortMessage: "The contract function \"buy\" reverted.",
+      cause: { name: "ContractFunctionRevertedError", details: "reverted", error: { data } },
+    });
+
+    expect(getRevertData(thrown)).toBe(data);
+    expect(formatCrutradeError(thrown)).toBe("SaleNotActive: Sale 7 is not active");
+  });
+
+  test("falls back to the error message for unknown reverts", () => {
+    const thrown = Object.assign(new Error("long message"), { shortMessage: "Execution reverted", data: "0xdeadbeef" });
+
+    expect(decodeCrutradeError(thrown)).toBeUndefined();
+    expect(decodeCrutradeError(new Error("no data"))).toBeUndefined();
+    expect(formatCrutradeError(thrown)).toBe("Execution reverted");
+    expect(formatCrutradeError("plain")).toBe("plain");
+  });
+});
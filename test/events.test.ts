@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, setDefaultTimeout, test } from "bun:test";
+import { zeroHash, type Hex } from "viem";
+import { abis } from "../contracts";
+import { decodeCrutradeLogs, decodeReceiptEvents, filterEvents, serializeEvent } from "../sdk/events";
+import { hashLabel } from "../sdk/labels";
+import { getAddresses } from "../sdk/networks";
+import {
+  accounts,
+  anvilAvailable,
+  encodeLog,
+  publicClient,
+  startAnvilWithDeployment,
+  stopAnvil,
+  walletFor,
+  type EventName,
+} from "./anvil";
+
+const addresses = {
+  Brands: "0x00000000000000000000000000000000000b4a2d",
+  Sales: "0x0000000000000000000000000000000000005a1e",
+  Wrappers: "0x0000000000000000000000000000000000000a11",
+} as const;
+
+const wallet = accounts[1]!.address;
+
+/// @notice A log of one of the test contracts, in block 7
+function logOf<C extends keyof typeof addresses>(contract: C, eventName: EventName<C>, args: Record<string, unknown>) {
+  return encodeLog(contract, eventName, args, { address: addresses[contract], blockNumber: 7n });
+}
+
+describe("event decoding", () => {
+  test("decodes nested structs with bigint fields", () => {
+    const fees = {
+      fromFee: 600n,
+      toFee: 400n,
+      serviceFee: { operation: hashLabel("BUY"), serviceFees: 2_500_000n, fiatFees: 0n },
+      fees: [{ name: hashLabel("TREASURY"), percentage: 10_000n, wallet }],
+    };
+    const [buy] = decodeCrutradeLogs([logOf("Sales", "Buy", { wallet, salesId: 12n, fees })], { addresses });
+
+    expect(buy?.contract).toBe("Sales");
+    expect(buy?.eventName).toBe("Buy");
+    expect(buy?.blockNumber).toBe(7n);
+    expect(filterEvents([buy!], "Buy")[0]?.args).toEqual({ wallet, salesId: 12n, fees });
+  });
+
+  test("attributes shared events to the contract that emitted them", () => {
+    const transfer = { from: wallet, to: accounts[2]!.address, tokenId: 5n };
+    const events = decodeCrutradeLogs(
+      [logOf("Brands", "Transfer", transfer), logOf("Wrappers", "Transfer", transfer)],
+      { addresses }
+    );
+    expect(events.map((event) => event.contract)).toEqual(["Brands", "Wrappers"]);
+  });
+
+  test("skips logs from unknown addresses and unknown topics", () => {
+    const foreign = { ...logOf("Wrappers", "Export", { user: wallet, wrapperIds: [1n] }), address: wallet };
+    const unknown = { ...logOf("Wrappers", "Export", { user: wallet, wrapperIds: [1n] }), topics: [zeroHash] as [Hex] };
+    expect(decodeCrutradeLogs([foreign, unknown], { addresses })).toEqual([]);
+  });
+
+  test("serializes bigints as decimal strings", () => {
+    const importData = [{ metaKey: "key", sku: hashLabel("SKU"), tokenId: 3n, wrapperId: 2n ** 200n }];
+    const [event] = decodeCrutradeLogs([logOf("Wrappers", "Import", { user: wallet, importData })], { addresses });
+    const json = serializeEvent(event!);
+
+    expect(json.blockNumber).toBe("7");
+    expect(JSON.parse(JSON.stringify(json)).args.importData[0].wrapperId).toBe((2n ** 200n).toString());
+  });
+});
+
+describe.skipIf(!anvilAvailable)("event decoding on Anvil", () => {
+  // Compiling and deploying the suite takes a while
+  setDefaultTimeout(600_000);
+
+  beforeAll(() => startAnvilWithDeployment());
+  afterAll(() => stopAnvil());
+
+  test("decodes the events of a receipt", async () => {
+    const hash = await walletFor(0).writeContract({
+      address: getAddresses("local").Sales,
+      abi: abis.Sales,
+      functionName: "setSchedules",
+      args: [[2n], [3], [20], [0]],
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+    const [scheduleSet] = filterEvents(decodeReceiptEvents(receipt, { network: "local" }), "ScheduleSet");
+    expect(scheduleSet?.args).toEqual({ scheduleId: 2n, dayOfWeek: 3, hour: 20, minute: 0 });
+    expect(scheduleSet?.transactionHash).toBe(hash);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import { zeroAddress, type Hex } from "viem";
+import { serializeEvent } from "../sdk/events";
+import { eventColumns, eventRows, formatEvents, sortEvents, type ExportableEvent } from "../sdk/export";
+import { hashLabel } from "../sdk/labels";
+
+const user = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const tx = `0x${"ab".repeat(32)}` as Hex;
+
+const imported: ExportableEvent = {
+  contract: "Wrappers",
+  eventName: "Import",
+  args: {
+    user,
+    importData: [
+      { metaKey: "watch, \"gold\"", sku: hashLabel("ROLEX"), tokenId: 1n, wrapperId: 2n ** 200n },
+      { metaKey: "bag", sku: hashLabel("HERMES"), tokenId: 2n, wrapperId: 8n },
+    ],
+  },
+  blockNumber: 60_000_001n,
+  transactionHash: tx,
+  logIndex: 3,
+  timestamp: 1_700_000_000n,
+};
+
+const batch: ExportableEvent = {
+  contract: "Wrappers",
+  eventName: "BatchTransfer",
+  args: { from: user, to: zeroAddress, tokenIds: [4n, 5n, 6n] },
+  blockNumber: 60_000_000n,
+  transactionHash: tx,
+  logIndex: 0,
+  timestamp: 1_699_999_998n,
+};
+
+describe("event export", () => {
+  test("derives stable columns from the ABI", () => {
+    expect(eventColumns("Wrappers", "Import")).toEqual([
+      "timestamp",
+      "blockNumber",
+      "transactionHash",
+      "logIndex",
+      "contract",
+      "event",
+      "user",
+      "importData.index",
+      "importData.metaKey",
+      "importData.sku",
+      "importData.tokenId",
+      "importData.wrapperId",
+    ]);
+    expect(eventColumns("Wrappers", "BatchTransfer").slice(6)).toEqual(["from", "to", "tokenIds.index", "tokenIds"]);
+  });
+
+  test("explodes the first array into one row per element", () => {
+    const rows = eventRows(batch);
+
+    expect(rows.map((row) => [row["tokenIds.index"], row.tokenIds])).toEqual([["0", "4"], ["1", "5"], ["2", "6"]]);
+    expect(rows[0]?.timestamp).toBe("2023-11-14T22:13:18.000Z");
+    expect(eventRows({ ...batch, args: { ...batch.args, tokenIds: [] } })).toHaveLength(1);
+  });
+
+  test("writes bigint-safe, quoted CSV with the columns of every requested type", () => {
+    const csv = formatEvents(sortEvents([imported, batch]), "csv", [
+      { contract: "Wrappers", eventName: "BatchTransfer" },
+      { contract: "Wrappers", eventName: "Import" },
+    ]);
+    const [header, ...lines] = csv.trimEnd().split("\n");
+
+    expect(header).toBe(
+      "timestamp,blockNumber,transactionHash,logIndex,contract,event,from,to,tokenIds.index,tokenIds," +
+        "user,importData.index,importData.metaKey,importData.sku,importData.tokenId,importData.wrapperId"
+    );
+    expect(lines).toHaveLength(5);
+    expect(lines[3]).toContain(`,"watch, ""gold""",`);
+    expect(lines[3]!.endsWith(`,${2n ** 200n}`)).toBe(true);
+  });
+
+  test("reads events back from the indexer the same way", () => {
+    const stored = serializeEvent(imported) as unknown as ExportableEvent;
+    expect(eventRows(stored)).toEqual(eventRows(imported));
+  });
+
+  test("keeps arguments nested in NDJSON", () => {
+    const [line] = formatEvents([imported], "ndjson").trimEnd().split("\n");
+    const record = JSON.parse(line!);
+
+    expect(record.timestamp).toBe("2023-11-14T22:13:20.000Z");
+    expect(record.blockNumber).toBe("60000001");
+    expect(record.args.importData[0].wrapperId).toBe((2n ** 200n).toString());
+  });
+});
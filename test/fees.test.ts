@@ -0,0 +1,187 @@
+import { afterAll, beforeAll, describe, expect, setDefaultTimeout, test } from "bun:test";
+import { zeroAddress, zeroHash, type Address } from "viem";
+import { abis } from "../contracts";
+import {
+  calculateServiceFee,
+  calculateTransactionFees,
+  createFeeCalculator,
+  getFeeTransfers,
+  type FeeSchedule,
+} from "../sdk/fees";
+import { hashLabel } from "../sdk/labels";
+import { getAddresses } from "../sdk/networks";
+import {
+  accounts,
+  anvilAvailable,
+  impersonate,
+  mockUsdcAbi,
+  publicClient,
+  startAnvilWithDeployment,
+  stopAnvil,
+  walletFor,
+} from "./anvil";
+
+const TREASURY = hashLabel("TREASURY");
+const TREASURY_WALLET = "0x000000000000000000000000000000000000dEaD" as Address;
+
+const schedule: FeeSchedule = {
+  fiatFeePercentage: 300n,
+  fees: [
+    { name: TREASURY, percentage: 7_000n, wallet: TREASURY_WALLET },
+    { name: hashLabel("PARTNER"), percentage: 3_000n, wallet: zeroAddress },
+  ],
+  serviceFees: { [hashLabel("BUY")]: 2_500_000n },
+  membershipFees: {
+    "0": { sellerFee: 600n, buyerFee: 400n },
+    "1": { sellerFee: 100n, buyerFee: 100n },
+  },
+};
+
+describe("fee math", () => {
+  test("rounds every basis-point share down", () => {
+    const fees = calculateTransactionFees(schedule, { amount: 999n, isFiat: false, fromMembership: 0n, toMembership: 0n });
+
+    expect(fees.fromFee).toBe(59n);
+    expect(fees.toFee).toBe(39n);
+    expect(fees.serviceFee).toEqual({ operation: zeroHash, serviceFees: 0n, fiatFees: 0n });
+
+    const transfers = getFeeTransfers(fees, 999n);
+    expect(transfers.recipient).toBe(960n);
+    expect(transfers.fees.map((fee) => fee.amount)).toEqual([68n, 29n]);
+  });
+
+  test("uses from's seller fee and to's buyer fee", () => {
+    const fees = calculateTransactionFees(schedule, { amount: 10_000n, isFiat: false, fromMembership: 1n, toMembership: 0n });
+    expect(fees.fromFee).toBe(100n);
+    expect(fees.toFee).toBe(400n);
+  });
+
+  test("treats unknown memberships as zero fees", () => {
+    const fees = calculateTransactionFees(schedule, { amount: 10_000n, isFiat: false, fromMembership: 7n, toMembership: 7n });
+    expect(fees.fromFee).toBe(0n);
+    expect(fees.toFee).toBe(0n);
+  });
+
+  test("adds the fiat fee on the amount for fiat payments", () => {
+    const fees = calculateTransactionFees(schedule, { amount: 12_345n, isFiat: true, fromMembership: 0n, toMembership: 0n });
+    expect(fees.serviceFee.fiatFees).toBe(370n);
+  });
+
+  test("charges the fiat share of service fees only when a service fee exists", () => {
+    expect(calculateServiceFee(schedule, "BUY", true)).toEqual({
+      operation: hashLabel("BUY"),
+      serviceFees: 2_500_000n,
+      fiatFees: 75_000n,
+    });
+    expect(calculateServiceFee(schedule, "LIST", true).fiatFees).toBe(0n);
+  });
+});
+
+describe.skipIf(!anvilAvailable)("fee parity on Anvil", () => {
+  // Compiling and deploying the suite takes a while
+  setDefaultTimeout(600_000);
+
+  const [owner, buyer, seller] = accounts as [(typeof accounts)[0], (typeof accounts)[0], (typeof accounts)[0]];
+  let addresses: ReturnType<typeof getAddresses>;
+  let usdc: Address;
+
+  beforeAll(async () => {
+    await startAnvilWithDeployment();
+    addresses = getAddresses("local");
+
+    usdc = await publicClient.readContract({
+      address: addresses.Roles,
+      abi: abis.Roles,
+      functionName: "getDefaultFiatPayment",
+    });
+
+    const ownerWallet = walletFor(0);
+    const send = async (hash: Promise<`0x${string}`>) => publicClient.waitForTransactionReceipt({ hash: await hash });
+
+    await send(ownerWallet.writeContract({ address: addresses.Payments, abi: abis.Payments, functionName: "setServiceFee", args: [hashLabel("BUY"), 2_500_000n] }));
+    await send(ownerWallet.writeContract({ address: addresses.Payments, abi: abis.Payments, functionName: "setServiceFee", args: [hashLabel("LIST"), 1_000_000n] }));
+    await send(ownerWallet.writeContract({ address: addresses.Memberships, abi: abis.Memberships, functionName: "setMemberships", args: [[seller.address], 1n] }));
+
+    // Payers approve Payments: the buyer for token payments, the FIAT wallet (owner) for fiat
+    await send(ownerWallet.writeContract({ address: usdc, abi: mockUsdcAbi, functionName: "mint", args: [buyer.address, 10n ** 12n] }));
+    for (const index of [0, 1, 2]) {
+      await send(walletFor(index).writeContract({ address: usdc, abi: mockUsdcAbi, functionName: "approve", args: [addresses.Payments, 2n ** 255n] }));
+    }
+  });
+
+  afterAll(() => stopAnvil());
+
+  const cases = [
+    { title: "token payment, default memberships", from: () => buyer.address, to: () => owner.address, amount: 1_234_567n, fiat: false },
+    { title: "token payment, member seller", from: () => buyer.address, to: () => seller.address, amount: 99_999_999n, fiat: false },
+    { title: "fiat payment", from: () => seller.address, to: () => buyer.address, amount: 7_777_777n, fiat: true },
+  ];
+
+  for (const { title, from, to, amount, fiat } of cases) {
+    test(`splitFees matches: ${title}`, async () => {
+      const erc20 = fiat ? zeroAddress : usdc;
+      const sales = await impersonate(addresses.Sales);
+      const { result } = await publicClient.simulateContract({
+        account: sales.account,
+        address: addresses.Payments,
+        abi: abis.Payments,
+        functionName: "splitFees",
+        args: [erc20, 1n, from(), to(), amount],
+      });
+
+      const preview = await createFeeCalculator({ network: "local", publicClient }).previewSplitFees({
+        erc20,
+        from: from(),
+        to: to(),
+        amount,
+      });
+
+      expect(preview.fees).toEqual({ ...result, fees: [...result.fees] });
+    });
+  }
+
+  test("splitServiceFee matches for every operation", async () => {
+    const calculator = createFeeCalculator({ network: "local", publicClient });
+    const sales = await impersonate(addresses.Sales);
+
+    for (const operation of ["LIST", "BUY", "RENEW", "WITHDRAW"] as const) {
+      for (const erc20 of [usdc, zeroAddress]) {
+        const { result } = await publicClient.simulateContract({
+          account: sales.account,
+          address: addresses.Payments,
+          abi: abis.Payments,
+          functionName: "splitServiceFee",
+          args: [hashLabel(operation), buyer.address, erc20],
+        });
+        expect(await calculator.previewSplitServiceFee({ operation, erc20 })).toEqual(result);
+      }
+    }
+  });
+
+  test("transfers match the balances moved by splitFees", async () => {
+    const amount = 3_333_333n;
+    const preview = await createFeeCalculator({ network: "local", publicClient }).previewSplitFees({
+      erc20: usdc,
+      from: buyer.address,
+      to: seller.address,
+      amount,
+    });
+
+    const balance = (account: Address) =>
+      publicClient.readContract({ address: usdc, abi: mockUsdcAbi, functionName: "balanceOf", args: [account] });
+    const before = await Promise.all([balance(buyer.address), balance(seller.address)]);
+
+    const sales = await impersonate(addresses.Sales);
+    const hash = await sales.writeContract({
+      address: addresses.Payments,
+      abi: abis.Payments,
+      functionName: "splitFees",
+      args: [usdc, 1n, buyer.address, seller.address, amount],
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const after = await Promise.all([balance(buyer.address), balance(seller.address)]);
+    expect(before[0] - after[0]).toBe(preview.transfers.total);
+    expect(after[1] - before[1]).toBe(preview.transfers.recipient);
+  });
+});
@@ -0,0 +1,224 @@
+import { afterAll, afterEach, beforeAll, describe, expect, setDefaultTimeout, test } from "bun:test";
+import { zeroAddress, type Hex } from "viem";
+import { abis } from "../contracts";
+import { createIndexer, openEventStore } from "../sdk/indexer";
+import { clearAddresses, getAddresses, registerAddresses, type ContractName } from "../sdk/networks";
+import { anvilAvailable, encodeLog, fakePublicClient, publicClient, startAnvilWithDeployment, stopAnvil, testClient, walletFor } from "./anvil";
+
+const NETWORK = "indexer-test";
+const SALES = "0x0000000000000000000000000000000000005a1e";
+const WRAPPERS = "0x0000000000000000000000000000000000000a11";
+
+/// @notice Block hashes; blocks from `forkedFrom` on belong to a replacement chain
+function hashOf(chain: Chain, blockNumber: bigint): Hex {
+  const prefix = chain.forkedFrom !== undefined && blockNumber >= chain.forkedFrom ? "f" : "0";
+  return `0x${prefix}${blockNumber.toString(16).padStart(63, "0")}`;
+}
+
+interface Chain {
+  head: bigint;
+  forkedFrom?: bigint;
+  /// @notice Fork point applied once, right after the next logs request is answered
+  forkDuringFetch?: bigint;
+}
+
+/// @notice Where a contract's log of a block lands on the chain
+function at(chain: Chain, address: Hex, blockNumber: bigint) {
+  return {
+    address,
+    blockNumber,
+    blockHash: hashOf(chain, blockNumber),
+    transactionHash: `0x${(blockNumber + 1_000n).toString(16).padStart(64, "0")}` as Hex,
+    logIndex: address === SALES ? 0 : 1,
+  };
+}
+
+/// @notice One event per contract every 10 blocks; the replacement chain after a fork has none
+function mockClient(chain: Chain) {
+  const blocks = Array.from({ length: 100 }, (_, i) => BigInt(i * 10 + 5));
+  const calls: { address: string; fromBlock: bigint; toBlock: bigint }[] = [];
+
+  const client = {
+    getBlockNumber: async () => chain.head,
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => {
+      if (blockNumber > chain.head) throw new Error(`Block ${blockNumber} not found`);
+      return { hash: hashOf(chain, blockNumber), timestamp: 1_700_000_000n + blockNumber * 2n };
+    },
+    getLogs: async ({ address, fromBlock, toBlock }: { address: Hex; fromBlock: bigint; toBlock: bigint }) => {
+      calls.push({ address, fromBlock, toBlock });
+      const logs = blocks
+        .filter((block) => block >= fromBlock && block <= toBlock && block <= chain.head)
+        .filter((block) => chain.forkedFrom === undefined || block < chain.forkedFrom)
+        .flatMap((block) => [
+          encodeLog("Sales", "DurationSet", { durationId: block, duration: 86_400n }, at(chain, SALES, block)),
+          encodeLog("Wrappers", "Export", { user: zeroAddress, wrapperIds: [block] }, at(chain, WRAPPERS, block)),
+        ])
+        .filter((entry) => entry.address === address);
+      if (chain.forkDuringFetch !== undefined) {
+        chain.forkedFrom = chain.forkDuringFetch;
+        chain.forkDuringFetch = undefined;
+      }
+      return logs;
+    },
+  };
+  return { client: fakePublicClient(client), calls };
+}
+
+describe("indexer", () => {
+  afterEach(() => clearAddresses(NETWORK));
+
+  test("stores decoded events and resumes from the checkpoints", async () => {
+    registerAddresses(NETWORK, { Sales: SALES, Wrappers: WRAPPERS });
+    const store = openEventStore(":memory:");
+    const chain: Chain = { head: 99n };
+    const { client, calls } = mockClient(chain);
+    const contracts: ContractName[] = ["Sales", "Wrappers"];
+    const options = { network: NETWORK, publicClient: client, store, contracts };
+
+    expect(await createIndexer({ ...options, batchSize: 40n }).sync()).toBe(20);
+    expect(store.getCheckpoint("Sales")?.blockNumber).toBe(99n);
+    expect(calls.filter((call) => call.address === SALES).map((call) => call.toBlock)).toEqual([39n, 79n, 99n]);
+
+    // A new process only asks for the blocks after the checkpoint
+    chain.head = 149n;
+    calls.length = 0;
+    expect(await createIndexer(options).sync()).toBe(10);
+    expect(calls.map((call) => call.fromBlock)).toEqual([100n, 100n]);
+
+    expect(store.countEvents()).toBe(30);
+    expect(store.countEvents({ contract: "Wrappers", fromBlock: 100n })).toBe(5);
+
+    const [latest] = store.getEvents({ eventName: "Export", descending: true, limit: 1 });
+    expect(latest?.blockNumber).toBe("145");
+    expect(latest?.timestamp).toBe("1700000290");
+    expect(latest?.args).toEqual({ user: zeroAddress, wrapperIds: ["145"] });
+  });
+
+  test("starts over when a contract is redeployed", async () => {
+    registerAddresses(NETWORK, { Sales: SALES });
+    const store = openEventStore(":memory:");
+    store.commit({ contract: "Sales", address: WRAPPERS, blockNumber: 90n }, []);
+
+    const { client, calls } = mockClient({ head: 99n });
+    await createIndexer({ network: NETWORK, publicClient: client, store, contracts: ["Sales"], fromBlock: 50n }).sync();
+
+    expect(calls[0]?.fromBlock).toBe(50n);
+    expect(store.getCheckpoint("Sales")?.address).toBe(SALES);
+  });
+
+  test("honours the confirmation depth", async () => {
+    registerAddresses(NETWORK, { Sales: SALES });
+    const store = openEventStore(":memory:");
+    const { client } = mockClient({ head: 99n });
+
+    await createIndexer({ network: NETWORK, publicClient: client, store, contracts: ["Sales"], confirmations: 10n }).sync();
+    expect(store.getCheckpoint("Sales")?.blockNumber).toBe(89n);
+    expect(store.countEvents()).toBe(9);
+  });
+
+  test("rolls back events past the fork point of a reorg", async () => {
+    registerAddresses(NETWORK, { Sales: SALES });
+    const store = openEventStore(":memory:");
+    const chain: Chain = { head: 99n };
+    const { client } = mockClient(chain);
+    const reorgs: [bigint, number][] = [];
+    const indexer = createIndexer({
+      network: NETWORK,
+      publicClient: client,
+      store,
+      contracts: ["Sales"],
+      batchSize: 10n,
+      onReorg: (fork, removed) => void reorgs.push([fork, removed]),
+    });
+
+    await indexer.sync();
+    expect(store.countEvents()).toBe(10);
+
+    // Blocks 72+ are replaced by a chain without events
+    chain.forkedFrom = 72n;
+    chain.head = 120n;
+    await indexer.sync();
+
+    expect(reorgs).toEqual([[69n, 3]]);
+    expect(store.getEvents().map((event) => event.blockNumber)).toEqual(["5", "15", "25", "35", "45", "55", "65"]);
+    expect(store.getCheckpoint("Sales")?.blockNumber).toBe(120n);
+    expect(store.getTrackedBlocks()[0]).toEqual({ number: 120n, hash: hashOf(chain, 120n) });
+  });
+
+  test("fetches a batch again when a reorg lands while its logs are fetched", async () => {
+    registerAddresses(NETWORK, { Sales: SALES });
+    const store = openEventStore(":memory:");
+    const chain: Chain = { head: 99n, forkDuringFetch: 72n };
+    const { client, calls } = mockClient(chain);
+
+    expect(await createIndexer({ network: NETWORK, publicClient: client, store, contracts: ["Sales"] }).sync()).toBe(7);
+    expect(calls.map((call) => call.fromBlock)).toEqual([0n, 0n]);
+    expect(store.getEvents().map((event) => event.blockNumber)).toEqual(["5", "15", "25", "35", "45", "55", "65"]);
+    expect(store.getTrackedBlocks()[0]).toEqual({ number: 99n, hash: hashOf(chain, 99n) });
+  });
+});
+
+describe.skipIf(!anvilAvailable)("indexer reorgs on Anvil", () => {
+  // Compiling and deploying the suite takes a while
+  setDefaultTimeout(600_000);
+
+  beforeAll(() => startAnvilWithDeployment());
+  afterAll(() => stopAnvil());
+
+  async function setSchedule(scheduleId: bigint) {
+    const hash = await walletFor(0).writeContract({
+      address: getAddresses("local").Sales,
+      abi: abis.Sales,
+      functionName: "setSchedules",
+      args: [[scheduleId], [3], [20], [0]],
+    });
+    return publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  function scheduleIds(store: ReturnType<typeof openEventStore>) {
+    return store.getEvents({ eventName: "ScheduleSet" }).map((event) => (event.args as { scheduleId: string }).scheduleId);
+  }
+
+  test("drops events of blocks reverted to a snapshot", async () => {
+    const store = openEventStore(":memory:");
+    const forks: bigint[] = [];
+    const indexer = createIndexer({ network: "local", publicClient, store, contracts: ["Sales"], onReorg: (fork) => void forks.push(fork) });
+    await indexer.sync();
+
+    const snapshot = await testClient.snapshot();
+    const { blockNumber } = await setSchedule(101n);
+    await indexer.sync();
+    expect(scheduleIds(store)).toContain("101");
+
+    // The replacement chain has a different transaction at the same height
+    await testClient.revert({ id: snapshot });
+    await setSchedule(102n);
+    await testClient.mine({ blocks: 2 });
+    await indexer.sync();
+
+    expect(forks).toEqual([blockNumber - 1n]);
+    expect(scheduleIds(store)).not.toContain("101");
+    expect(scheduleIds(store)).toContain("102");
+  });
+
+  test("follows anvil_reorg", async () => {
+    const store = openEventStore(":memory:");
+    const indexer = createIndexer({ network: "local", publicClient, store, contracts: ["Sales"] });
+
+    const { blockNumber } = await setSchedule(201n);
+    await testClient.mine({ blocks: 2 });
+    await indexer.sync();
+    expect(scheduleIds(store)).toContain("201");
+
+    const head = await publicClient.getBlockNumber();
+    // anvil_reorg is not in viem's test RPC schema
+    await testClient.request<{ Parameters: [number, []]; ReturnType: null }>({
+      method: "anvil_reorg",
+      params: [Number(head - blockNumber + 1n), []],
+    });
+    await indexer.sync();
+
+    expect(scheduleIds(store)).not.toContain("201");
+    expect(store.getCheckpoint("Sales")?.blockNumber).toBe(await publicClient.getBlockNumber());
+  });
+});
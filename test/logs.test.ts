@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { createLogFetcher, isLogRangeError } from "../sdk/logs";
+import { fakePublicClient } from "./anvil";
+
+/// @notice A client with one log per block that rejects ranges wider than `limit`
+function mockClient(limit: bigint) {
+  const requests: [bigint, bigint][] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const client = {
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      requests.push([fromBlock, toBlock]);
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await Bun.sleep(1);
+      inFlight--;
+
+      if (toBlock - fromBlock + 1n > limit) {
+        throw new Error("HTTP request failed.", {
+          cause: { code: -32000, message: `block range too large (max ${limit})` },
+        });
+      }
+      const logs = [];
+      for (let block = fromBlock; block <= toBlock; block++) logs.push({ blockNumber: block });
+      return logs;
+    },
+  };
+  return { client: fakePublicClient(client), requests, maxInFlight: () => maxInFlight };
+}
+
+describe("log fetcher", () => {
+  test("splits rejected ranges and returns logs in chain order", async () => {
+    const { client } = mockClient(100n);
+    const fetcher = createLogFetcher({ publicClient: client, initialRange: 1_000n });
+
+    const logs = await fetcher.getLogs({ fromBlock: 10n, toBlock: 2_009n });
+
+    expect(logs.map((log) => log.blockNumber)).toEqual(Array.from({ length: 2_000 }, (_, i) => BigInt(i + 10)));
+    expect(fetcher.range).toBeLessThanOrEqual(200n);
+  });
+
+  test("grows the range again after successes", async () => {
+    const { client, requests } = mockClient(10_000n);
+    const fetcher = createLogFetcher({ publicClient: client, initialRange: 10n, maxRange: 1_000n, concurrency: 1 });
+
+    await fetcher.getLogs({ fromBlock: 0n, toBlock: 5_000n });
+
+    expect(requests.slice(0, 4).map(([from, to]) => to - from + 1n)).toEqual([10n, 20n, 40n, 80n]);
+    expect(fetcher.range).toBe(1_000n);
+  });
+
+  test("keeps at most `concurrency` requests in flight", async () => {
+    const mock = mockClient(50n);
+    const fetcher = createLogFetcher({ publicClient: mock.client, initialRange: 50n, maxRange: 50n, concurrency: 3 });
+
+    await fetcher.getLogs({ fromBlock: 0n, toBlock: 999n });
+    expect(mock.maxInFlight()).toBe(3);
+  });
+
+  test("rethrows errors that are not about the range", async () => {
+    const client = fakePublicClient({ getLogs: async () => Promise.reject(new Error("execution reverted")) });
+    const fetcher = createLogFetcher({ publicClient: client });
+
+    await expect(fetcher.getLogs({ fromBlock: 0n, toBlock: 10n })).rejects.toThrow("execution reverted");
+  });
+
+  test("stops requesting chunks after a fatal error", async () => {
+    const requests: bigint[] = [];
+    const client = fakePublicClient({
+      getLogs: async ({ fromBlock }: { fromBlock: bigint }) => {
+        requests.push(fromBlock);
+        await Bun.sleep(1);
+        if (fromBlock === 0n) throw new Error("execution reverted");
+        return [];
+      },
+    });
+    const fetcher = createLogFetcher({ publicClient: client, initialRange: 10n, maxRange: 10n, concurrency: 2 });
+
+    await expect(fetcher.getLogs({ fromBlock: 0n, toBlock: 999n })).rejects.toThrow("execution reverted");
+    // The other worker finishes its chunk and takes no more
+    await Bun.sleep(20);
+    expect(requests).toEqual([0n, 10n]);
+  });
+
+  test("recognises common RPC range errors", () => {
+    expect(isLogRangeError(new Error("query returned more than 10000 results"))).toBe(true);
+    expect(isLogRangeError({ code: -32005, message: "limit exceeded" })).toBe(true);
+    expect(isLogRangeError(new Error("rate limit exceeded"))).toBe(false);
+  });
+});
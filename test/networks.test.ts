@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { zeroAddress, type Address } from "viem";
+import { abis, addresses, deploymentBlocks } from "../contracts";
+import {
+  clearAddresses,
+  getAddresses,
+  getChainId,
+  getContract,
+  getDeploymentBlock,
+  getDeploymentHistory,
+  loadDeployment,
+  registerAddresses,
+  setDeploymentsDir,
+} from "../sdk/networks";
+import { fakePublicClient } from "./anvil";
+
+const NETWORK = "networks-test";
+const WRAPPERS = "0x0000000000000000000000000000000000000a11" as Address;
+const ROLES = "0x0000000000000000000000000000000000000401" as Address;
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "deployments-"));
+  setDeploymentsDir(dir);
+});
+afterEach(() => {
+  clearAddresses(NETWORK);
+  setDeploymentsDir(join(process.cwd(), "deployments"));
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/// @notice A client whose contracts have code from their deployment block on
+function codeClient(deployedAt: Record<string, bigint>, head = 1_000_000n) {
+  const calls: bigint[] = [];
+  const client = fakePublicClient({
+    getBlockNumber: async () => head,
+    getCode: async ({ address, blockNumber }: { address: Address; blockNumber: bigint }) => {
+      calls.push(blockNumber);
+      const block = deployedAt[address.toLowerCase()];
+      return block !== undefined && blockNumber >= block ? "0x6080" : undefined;
+    },
+  });
+  return { client, calls };
+}
+
+describe("address registry", () => {
+  afterEach(() => clearAddresses("mainnet"));
+
+  test("prefers registered addresses, then the manifest, then the package", () => {
+    const sales = "0x0000000000000000000000000000000000005a1e" as Address;
+    mkdirSync(join(dir, "mainnet"));
+    writeFileSync(
+      join(dir, "mainnet", "latest.json"),
+      JSON.stringify({ network: "mainnet", chainId: 43114, contracts: { sales, wrappers: zeroAddress, roles: ROLES } })
+    );
+
+    // The zero address in the manifest does not hide the packaged Wrappers
+    expect(getAddresses("mainnet")).toMatchObject({ Roles: ROLES, Sales: sales, Wrappers: addresses.mainnet.Wrappers });
+    registerAddresses("mainnet", { Roles: WRAPPERS });
+    expect(getAddresses("mainnet").Roles).toBe(WRAPPERS);
+    expect(getContract("Roles", "mainnet")).toEqual({ address: WRAPPERS, abi: abis.Roles });
+
+    clearAddresses("mainnet");
+    expect(getAddresses("mainnet").Roles).toBe(ROLES);
+  });
+
+  test("resolves custom networks from registrations or manifests", () => {
+    expect(() => getAddresses(NETWORK)).toThrow(`Unknown network: ${NETWORK}`);
+
+    mkdirSync(join(dir, NETWORK));
+    writeFileSync(join(dir, NETWORK, "latest.json"), JSON.stringify({ network: NETWORK, chainId: 4242, contracts: { roles: ROLES } }));
+    expect(getChainId(NETWORK)).toBe(4242);
+    expect(getAddresses(NETWORK)).toMatchObject({ Roles: ROLES, Wrappers: zeroAddress });
+
+    registerAddresses("networks-registered", { Wrappers: WRAPPERS }, 4343);
+    expect(getChainId("networks-registered")).toBe(4343);
+    expect(getAddresses("networks-registered").Wrappers).toBe(WRAPPERS);
+    clearAddresses("networks-registered");
+  });
+});
+
+describe("deployment blocks", () => {
+  test("reads the blocks recorded in the manifest", async () => {
+    mkdirSync(join(dir, NETWORK));
+    writeFileSync(
+      join(dir, NETWORK, "latest.json"),
+      JSON.stringify({ network: NETWORK, chainId: 31337, contracts: { wrappers: WRAPPERS }, blocks: { wrappers: 1234 } })
+    );
+
+    expect(loadDeployment(NETWORK)?.blocks).toEqual({ Wrappers: 1234n });
+    const { client, calls } = codeClient({});
+    expect(await getDeploymentBlock(NETWORK, client, "Wrappers")).toBe(1234n);
+    expect(calls).toEqual([]);
+  });
+
+  test("reads the blocks bundled with the package for the bundled addresses", async () => {
+    deploymentBlocks.mainnet!.Wrappers = 4321n;
+    try {
+      const { client, calls } = codeClient({ [WRAPPERS]: 654_330n });
+      expect(await getDeploymentBlock("mainnet", client, "Wrappers")).toBe(4321n);
+      expect(calls).toEqual([]);
+
+      // Another address has another deployment block
+      registerAddresses("mainnet", { Wrappers: WRAPPERS });
+      expect(await getDeploymentBlock("mainnet", client, "Wrappers")).toBe(654_330n);
+    } finally {
+      delete deploymentBlocks.mainnet!.Wrappers;
+      clearAddresses("mainnet");
+    }
+  });
+
+  test("finds the first block with code when the manifest has none", async () => {
+    registerAddresses(NETWORK, { Roles: ROLES, Wrappers: WRAPPERS });
+    const { client, calls } = codeClient({ [ROLES]: 654_321n, [WRAPPERS]: 654_330n });
+
+    expect(await getDeploymentBlock(NETWORK, client)).toBe(654_321n);
+    expect(await getDeploymentBlock(NETWORK, client, "Wrappers")).toBe(654_330n);
+    // Bisection, then the cache
+    expect(calls.length).toBeLessThan(50);
+    const count = calls.length;
+    expect(await getDeploymentBlock(NETWORK, client)).toBe(654_321n);
+    expect(calls).toHaveLength(count);
+  });
+
+  test("fails for contracts without code", async () => {
+    // A fresh address, as found blocks are cached per address
+    registerAddresses(NETWORK, { Wrappers: "0x0000000000000000000000000000000000000bad" });
+    await expect(getDeploymentBlock(NETWORK, codeClient({}).client, "Wrappers")).rejects.toThrow("No code");
+    await expect(getDeploymentBlock(NETWORK, codeClient({}).client, "Sales")).rejects.toThrow("no address");
+  });
+});
+
+describe("deployment history", () => {
+  test("reads the ledger oldest first", () => {
+    const proxy = "0x0000000000000000000000000000000000005a1e";
+    const entry = (implementation: string, timestamp: string) => ({
+      network: NETWORK,
+      chainId: 31337,
+      timestamp,
+      version: "1.5.0",
+      commit: "0123abc",
+      contracts: {
+        sales: { address: proxy, proxy, implementation, transactionHash: "0x01", blockNumber: 12 },
+        wrappers: { address: "0x0000000000000000000000000000000000000000" },
+      },
+    });
+    mkdirSync(join(dir, NETWORK));
+    writeFileSync(
+      join(dir, NETWORK, "history.ndjson"),
+      [entry("0x00000000000000000000000000000000000000a1", "2025-01-01T00:00:00.000Z"), entry("0x00000000000000000000000000000000000000a2", "2025-03-01T00:00:00.000Z")]
+        .map((line) => `${JSON.stringify(line)}\n`)
+        .join("")
+    );
+
+    const history = getDeploymentHistory(NETWORK);
+    expect(history.map((record) => record.contracts.Sales?.implementation)).toEqual([
+      "0x00000000000000000000000000000000000000a1",
+      "0x00000000000000000000000000000000000000a2",
+    ]);
+    expect(history[1]).toMatchObject({ chainId: 31337, timestamp: "2025-03-01T00:00:00.000Z", version: "1.5.0", commit: "0123abc" });
+    expect(history[1]!.contracts).toEqual({
+      Sales: { address: proxy, proxy, implementation: "0x00000000000000000000000000000000000000a2", transactionHash: "0x01", blockNumber: 12n },
+    });
+    expect(getDeploymentHistory("networks-none")).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { numberToHex, pad, type Address, type Hex } from "viem";
+import { addresses } from "../contracts";
+import { createNonceResolver, getNonceSlot } from "../sdk/nonces";
+import { fakePublicClient } from "./anvil";
+
+const WALLET = "0x00000000000000000000000000000000000000a1" as Address;
+const OTHER = "0x00000000000000000000000000000000000000a2" as Address;
+
+/// @notice A client whose getNonce answers after a tick, so concurrent calls overlap
+function nonceClient(nonces: Record<string, bigint>) {
+  const reads: string[] = [];
+  const client = fakePublicClient({
+    readContract: async ({ address, args }: { address: Address; args: [Address] }) => {
+      reads.push(`${address}:${args[0]}`);
+      await Bun.sleep(1);
+      return nonces[args[0]] ?? 0n;
+    },
+    getStorageAt: async ({ slot }: { slot: Hex }) => (slot === getNonceSlot(WALLET) ? pad(numberToHex(nonces[WALLET]!)) : undefined),
+  });
+  return { client, reads };
+}
+
+describe("nonce resolver", () => {
+  test("hands out consecutive nonces to concurrent reservations", async () => {
+    const { client } = nonceClient({ [WALLET]: 5n });
+    const resolver = createNonceResolver({ network: "mainnet", publicClient: client });
+
+    expect(await Promise.all([1, 2, 3].map(() => resolver.reserveNonce("Sales", WALLET)))).toEqual([5n, 6n, 7n]);
+    expect(
+      await Promise.all([resolver.reserveNonce("Sales", WALLET), resolver.getNextNonce("Sales", WALLET), resolver.reserveNonce("Sales", WALLET)])
+    ).toEqual([8n, 9n, 9n]);
+    // Each contract has its own nonces
+    expect(await resolver.reserveNonce("Payments", WALLET)).toBe(5n);
+    expect(await resolver.reserveNonce("Sales", OTHER)).toBe(0n);
+  });
+
+  test("hands released nonces out again", async () => {
+    const nonces = { [WALLET]: 5n };
+    const resolver = createNonceResolver({ network: "mainnet", publicClient: nonceClient(nonces).client });
+    await Promise.all([1, 2, 3].map(() => resolver.reserveNonce("Sales", WALLET)));
+
+    // 6 will never be sent, so 7 cannot be used either
+    resolver.releaseNonce("Sales", WALLET, 6n);
+    expect(await resolver.reserveNonce("Sales", WALLET)).toBe(6n);
+
+    // A release below the on-chain nonce goes back to it
+    nonces[WALLET] = 6n;
+    await resolver.getNextNonce("Sales", WALLET);
+    resolver.releaseNonce("Sales", WALLET, 2n);
+    expect(await resolver.getNextNonce("Sales", WALLET)).toBe(6n);
+  });
+
+  test("releases made during a refresh are kept", async () => {
+    const resolver = createNonceResolver({ network: "mainnet", publicClient: nonceClient({ [WALLET]: 5n }).client });
+    await Promise.all([1, 2, 3].map(() => resolver.reserveNonce("Sales", WALLET)));
+
+    const pending = resolver.reserveNonce("Sales", WALLET);
+    resolver.releaseNonce("Sales", WALLET, 5n);
+    expect(await pending).toBe(5n);
+  });
+
+  test("refreshes from the chain, keeping pending reservations", async () => {
+    const nonces = { [WALLET]: 5n };
+    const { client, reads } = nonceClient(nonces);
+    const resolver = createNonceResolver({ network: "mainnet", publicClient: client });
+    await Promise.all([1, 2, 3].map(() => resolver.reserveNonce("Sales", WALLET)));
+
+    // 5 was mined, 6 and 7 are still pending
+    nonces[WALLET] = 6n;
+    expect(await resolver.getNextNonce("Sales", WALLET)).toBe(8n);
+    // Nonces were used elsewhere
+    nonces[WALLET] = 12n;
+    expect(await resolver.reserveNonce("Sales", WALLET)).toBe(12n);
+    expect(reads.at(-1)).toBe(`${addresses.mainnet.Sales}:${WALLET}`);
+
+    resolver.reset("Sales", WALLET);
+    nonces[WALLET] = 3n;
+    expect(await resolver.getNextNonce("Sales", WALLET)).toBe(3n);
+  });
+
+  test("reads _nonces from storage", async () => {
+    const resolver = createNonceResolver({ network: "mainnet", publicClient: nonceClient({ [WALLET]: 9n }).client, source: "storage" });
+
+    expect(await resolver.reserveNonce("Wrappers", WALLET)).toBe(9n);
+    expect(await resolver.getNextNonce("Wrappers", WALLET)).toBe(10n);
+  });
+});
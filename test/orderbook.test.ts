@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { zeroAddress, type Address } from "viem";
+import { decodeContractLog, type CrutradeEvent } from "../sdk/events";
+import { hashLabel } from "../sdk/labels";
+import { clearAddresses, registerAddresses } from "../sdk/networks";
+import { createOrderBook, createOrderBookService } from "../sdk/orderbook";
+import { encodeLog, fakePublicClient, type EncodedLog, type EventName } from "./anvil";
+
+const NETWORK = "orderbook-test";
+const addresses = {
+  Sales: "0x0000000000000000000000000000000000005a1e",
+  Wrappers: "0x0000000000000000000000000000000000000a11",
+} as const;
+
+const seller = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const usdc = "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E" as Address;
+const WATCHES = hashLabel("WATCHES");
+const BAGS = hashLabel("BAGS");
+const fee = { operation: hashLabel("LIST"), serviceFees: 0n, fiatFees: 0n };
+const noFees = { fromFee: 0n, toFee: 0n, serviceFee: fee, fees: [] };
+
+/// @notice A log of one of the test contracts
+function logOf<C extends keyof typeof addresses>(contract: C, eventName: EventName<C>, args: Record<string, unknown>, blockNumber: bigint) {
+  return encodeLog(contract, eventName, args, { address: addresses[contract], blockNumber });
+}
+
+function decode(log: EncodedLog): CrutradeEvent {
+  return decodeContractLog(log, log.address === addresses.Sales ? "Sales" : "Wrappers")!;
+}
+
+const imports = (blockNumber: bigint) =>
+  logOf(
+    "Wrappers",
+    "Import",
+    {
+      user: seller,
+      importData: [1n, 2n, 3n, 4n].map((wrapperId) => ({
+        metaKey: `item-${wrapperId}`,
+        sku: wrapperId === 4n ? BAGS : WATCHES,
+        tokenId: wrapperId,
+        wrapperId,
+      })),
+    },
+    blockNumber
+  );
+
+const list = (salesId: bigint, wrapperId: bigint, price: bigint, start: bigint, end: bigint, blockNumber: bigint) =>
+  logOf(
+    "Sales",
+    "List",
+    {
+      wallet: seller,
+      salesId,
+      date: { expireListDate: end, expireUpcomeDate: start },
+      fee,
+      output: { wrapperId, price, erc20: usdc },
+    },
+    blockNumber
+  );
+
+describe("order book", () => {
+  afterEach(() => clearAddresses(NETWORK));
+
+  test("splits listings into live, upcoming and expired with floor and depth", () => {
+    const book = createOrderBook();
+    for (const log of [
+      imports(1n),
+      list(1n, 1n, 1_250n, 100n, 200n, 2n),
+      list(2n, 2n, 1_900n, 100n, 200n, 2n),
+      list(3n, 3n, 1_100n, 300n, 400n, 3n),
+      list(4n, 4n, 50n, 100n, 200n, 3n),
+    ]) {
+      book.apply(decode(log));
+    }
+
+    const snapshot = book.snapshot(WATCHES, 150n, { bucketSize: 1_000n });
+    expect(snapshot.live.map((listing) => listing.saleId)).toEqual([1n, 2n]);
+    expect(snapshot.upcoming.map((listing) => listing.saleId)).toEqual([3n]);
+    expect(snapshot.floorPrice).toBe(1_250n);
+    expect(snapshot.depth).toEqual([{ price: 1_000n, count: 2 }]);
+
+    // After the window only the upcoming listing is left to go live
+    const later = book.snapshot(WATCHES, 350n);
+    expect(later.live.map((listing) => listing.saleId)).toEqual([3n]);
+    expect(later.expired.map((listing) => listing.saleId)).toEqual([1n, 2n]);
+    expect(book.collections()).toEqual([WATCHES, BAGS]);
+  });
+
+  test("renews, sells and withdraws listings", () => {
+    const book = createOrderBook();
+    for (const log of [
+      imports(1n),
+      list(1n, 1n, 1_000n, 100n, 200n, 2n),
+      list(2n, 2n, 2_000n, 100n, 200n, 2n),
+      list(3n, 3n, 3_000n, 100n, 200n, 2n),
+      logOf("Sales", "Renew", { wallet: seller, salesId: 1n, date: { expireListDate: 600n, expireUpcomeDate: 500n }, fee }, 3n),
+      logOf("Sales", "Buy", { wallet: zeroAddress, salesId: 2n, fees: noFees }, 3n),
+      logOf("Sales", "Withdraw", { wallet: seller, salesId: 3n, fee }, 4n),
+    ]) {
+      book.apply(decode(log));
+    }
+
+    expect(book.listings().map((listing) => [listing.saleId, listing.start, listing.end])).toEqual([[1n, 500n, 600n]]);
+  });
+
+  test("rejects listings of wrappers whose collection is unknown", () => {
+    expect(() => createOrderBook().apply(decode(list(1n, 9n, 1n, 0n, 1n, 1n)))).toThrow("Collection of wrapper 9");
+  });
+
+  test("serves snapshots at past blocks", async () => {
+    registerAddresses(NETWORK, addresses);
+    const logs = [
+      list(1n, 1n, 1_000n, 0n, 10_000n, 10n),
+      list(2n, 2n, 700n, 0n, 10_000n, 20n),
+      logOf("Sales", "Buy", { wallet: zeroAddress, salesId: 2n, fees: noFees }, 30n),
+    ];
+    const reads: bigint[] = [];
+    const client = fakePublicClient({
+      getBlockNumber: async () => 40n,
+      getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: 1_000n + blockNumber }),
+      getLogs: async ({ address, fromBlock, toBlock }: { address: Address; fromBlock: bigint; toBlock: bigint }) =>
+        logs.filter((log) => log.address === address && log.blockNumber >= fromBlock && log.blockNumber <= toBlock),
+      // Imported before the scanned range: the service asks the contract
+      readContract: async ({ args: [wrapperId] }: { args: [bigint] }) => {
+        reads.push(wrapperId);
+        return { collection: WATCHES };
+      },
+    });
+
+    const service = createOrderBookService({ network: NETWORK, publicClient: client, fromBlock: 5n });
+
+    expect((await service.snapshot(WATCHES)).floorPrice).toBe(1_000n);
+    const past = await service.snapshot(WATCHES, { blockNumber: 25n });
+    expect(past.blockNumber).toBe(25n);
+    expect(past.timestamp).toBe(1_025n);
+    expect(past.floorPrice).toBe(700n);
+    expect(reads).toEqual([1n, 2n]);
+  });
+});
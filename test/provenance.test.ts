@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { zeroAddress, type Address } from "viem";
+import type { CrutradeEvent } from "../sdk/events";
+import { hashLabel } from "../sdk/labels";
+import { buildProvenance } from "../sdk/provenance";
+
+const alice = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const bob = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC" as Address;
+const owner = "0x90F79bf6EB2c4f870365E785982E1f101E93b906" as Address;
+
+let block = 0n;
+
+/// @notice A decoded event in the next block; only the fields provenance reads are filled
+function event(contract: CrutradeEvent["contract"], eventName: string, args: Record<string, unknown>): CrutradeEvent {
+  block++;
+  return { contract, eventName, args, blockNumber: block, logIndex: 0, transactionHash: null } as unknown as CrutradeEvent;
+}
+
+const noFee = { operation: hashLabel("LIST"), serviceFees: 0n, fiatFees: 0n };
+const date = { expireListDate: 2_000n, expireUpcomeDate: 1_000n };
+
+describe("wrapper provenance", () => {
+  test("follows a wrapper from import to export", () => {
+    const events = [
+      event("Wrappers", "Import", {
+        user: alice,
+        importData: [
+          { metaKey: "a", sku: hashLabel("SKU"), tokenId: 70n, wrapperId: 6n },
+          { metaKey: "b", sku: hashLabel("SKU"), tokenId: 71n, wrapperId: 7n },
+        ],
+      }),
+      event("Wrappers", "Transfer", { from: zeroAddress, to: alice, tokenId: 7n }),
+      event("Sales", "List", { wallet: alice, salesId: 3n, date, fee: noFee, output: { wrapperId: 7n, price: 5n, erc20: zeroAddress } }),
+      // Another wrapper's sale
+      event("Sales", "List", { wallet: bob, salesId: 4n, date, fee: noFee, output: { wrapperId: 6n, price: 5n, erc20: zeroAddress } }),
+      event("Sales", "Withdraw", { wallet: bob, salesId: 4n, fee: noFee }),
+      event("Sales", "Buy", { wallet: bob, salesId: 3n, fees: {} }),
+      event("Wrappers", "Transfer", { from: alice, to: bob, tokenId: 7n }),
+      event("Wrappers", "MarketplaceTransfer", { from: alice, to: bob, wrapperId: 7n }),
+      event("Wrappers", "BatchTransfer", { from: owner, to: alice, tokenIds: [6n, 7n] }),
+      event("Wrappers", "Transfer", { from: bob, to: alice, tokenId: 7n }),
+      event("Wrappers", "Export", { user: alice, wrapperIds: [7n] }),
+    ];
+
+    const { timeline, saleIds, owner: holder } = buildProvenance(7n, events);
+
+    expect(timeline.map((item) => item.eventName)).toEqual([
+      "Import",
+      "Transfer",
+      "List",
+      "Buy",
+      "Transfer",
+      "MarketplaceTransfer",
+      "BatchTransfer",
+      "Transfer",
+      "Export",
+    ]);
+    expect(saleIds).toEqual([3n]);
+    expect(holder).toBe(alice);
+  });
+
+  test("ignores Brands transfers of the same token id", () => {
+    const events = [event("Brands", "Transfer", { from: zeroAddress, to: bob, tokenId: 7n })];
+    expect(buildProvenance(7n, events)).toEqual({ timeline: [], saleIds: [], owner: undefined });
+  });
+});
@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { numberToHex, pad, toEventSelector, zeroHash, type Address, type Hex } from "viem";
+import type { CrutradeEvent } from "../sdk/events";
+import { hashLabel, registerLabels } from "../sdk/labels";
+import { clearAddresses, registerAddresses } from "../sdk/networks";
+import {
+  aggregateRevenue,
+  createRevenueReporter,
+  extractRevenue,
+  formatRevenueCsv,
+  periodOf,
+  type RevenueContext,
+} from "../sdk/revenue";
+import { encodeLog, fakePublicClient } from "./anvil";
+
+const buyer = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const seller = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC" as Address;
+const treasury = "0x90F79bf6EB2c4f870365E785982E1f101E93b906" as Address;
+const usdc = "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E" as Address;
+
+// Custom fee names are only known once registered
+registerLabels("REFERRAL");
+
+const JAN_31 = 1_738_281_600n; // 2025-01-31T00:00:00Z
+const FEB_01 = 1_738_368_000n;
+
+/// @notice A decoded event; only the fields the report reads are filled
+function event(
+  contract: CrutradeEvent["contract"],
+  eventName: string,
+  args: Record<string, unknown>,
+  transactionHash: Hex,
+  timestamp: bigint
+) {
+  return { contract, eventName, args, blockNumber: timestamp / 2n, logIndex: 0, transactionHash, timestamp } as unknown as CrutradeEvent & {
+    timestamp: bigint;
+  };
+}
+
+const service = (operation: string, serviceFees: bigint, fiatFees = 0n) => ({
+  operation: hashLabel(operation),
+  serviceFees,
+  fiatFees,
+});
+
+const listTx = `0x${"01".repeat(32)}` as Hex;
+const buyTx = `0x${"02".repeat(32)}` as Hex;
+
+const events = [
+  event(
+    "Sales",
+    "List",
+    { wallet: seller, salesId: 7n, date: {}, fee: service("LIST", 1_000_000n), output: { wrapperId: 1n, price: 100_000_000n, erc20: usdc } },
+    listTx,
+    JAN_31
+  ),
+  // splitFees: 3% from the buyer, 1% from the seller, split 90/10 between two wallets
+  event(
+    "Payments",
+    "FeesProcessed",
+    {
+      transactionId: 7n,
+      fees: {
+        fromFee: 3_000_001n,
+        toFee: 1_000_000n,
+        serviceFee: { operation: zeroHash, serviceFees: 0n, fiatFees: 0n },
+        fees: [
+          { name: hashLabel("TREASURY"), percentage: 9_000n, wallet: treasury },
+          { name: hashLabel("REFERRAL"), percentage: 1_000n, wallet: treasury },
+        ],
+      },
+    },
+    buyTx,
+    FEB_01
+  ),
+  event("Sales", "Buy", { wallet: buyer, salesId: 7n, fees: { serviceFee: service("BUY", 2_500_000n) } }, buyTx, FEB_01),
+];
+
+const NETWORK = "revenue-test";
+const PAYMENTS = "0x0000000000000000000000000000000000000a01" as Address;
+const MEMBERSHIPS = "0x0000000000000000000000000000000000000a02" as Address;
+const ROLES = "0x0000000000000000000000000000000000000a03" as Address;
+// Memberships is deployed after Roles, in block 120
+const MEMBERSHIPS_BLOCK = 120n;
+
+/// @notice Location of a contract's log, one transaction per block
+const at = (address: Address, blockNumber: bigint) => ({
+  address,
+  blockNumber,
+  blockHash: pad(numberToHex(blockNumber)),
+  transactionHash: pad(numberToHex(blockNumber + 1_000n)),
+});
+
+/// @notice A chain where the buyer sends at 150, joins tier 2 at 155 and pays at 160, all in USDC
+function reporterClient(tierBefore: bigint) {
+  const logs = [
+    encodeLog("Payments", "Send", { from: buyer, to: seller, amount: 5_000_000n }, at(PAYMENTS, 150n)),
+    encodeLog("Memberships", "Joined", { members: [buyer], membershipId: 2n }, at(MEMBERSHIPS, 155n)),
+    encodeLog("Payments", "PaymentProcessed", { from: buyer, to: treasury, amount: 7_000_000n }, at(PAYMENTS, 160n)),
+  ];
+  const reads: bigint[] = [];
+  const client = fakePublicClient({
+    getBlockNumber: async () => 200n,
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: JAN_31 + blockNumber }),
+    getLogs: async ({ address, fromBlock, toBlock }: { address: Address; fromBlock: bigint; toBlock: bigint }) =>
+      logs.filter((entry) => entry.address === address && entry.blockNumber >= fromBlock && entry.blockNumber <= toBlock),
+    getCode: async ({ address, blockNumber }: { address: Address; blockNumber: bigint }) =>
+      address === MEMBERSHIPS && blockNumber >= MEMBERSHIPS_BLOCK ? "0x6080" : undefined,
+    readContract: async ({ functionName, blockNumber }: { functionName: string; blockNumber: bigint }) => {
+      // Reading a contract without code fails as viem's zero-data error does
+      if (functionName !== "getMemberships" || blockNumber < MEMBERSHIPS_BLOCK) throw new Error('returned no data ("0x")');
+      reads.push(blockNumber);
+      return [tierBefore];
+    },
+    getTransactionReceipt: async ({ hash }: { hash: Hex }) => ({
+      transactionHash: hash,
+      logs: [{ address: usdc, topics: [toEventSelector("Transfer(address,address,uint256)"), zeroHash, zeroHash] }],
+    }),
+    // Payment { decimals: 6, isConfigured: true }
+    getStorageAt: async ({ address }: { address: Address }) => (address === ROLES ? pad(numberToHex(0x106)) : undefined),
+  });
+  return { client, reads };
+}
+
+const context: RevenueContext = {
+  tokenOf: () => usdc,
+  tierOf: (account) => (account === buyer ? 2n : 0n),
+  sellerOf: (saleId) => (saleId === 7n ? seller : undefined),
+};
+
+afterEach(() => clearAddresses(NETWORK));
+
+describe("revenue report", () => {
+  test("keys periods by UTC day, ISO week and month", () => {
+    expect(periodOf(FEB_01, "day")).toBe("2025-02-01");
+    expect(periodOf(FEB_01, "week")).toBe("2025-W05");
+    expect(periodOf(FEB_01, "month")).toBe("2025-02");
+    // 2021-01-03 is a Sunday in the last ISO week of 2020
+    expect(periodOf(1_609_632_000n, "week")).toBe("2020-W53");
+  });
+
+  test("splits fee shares between the buyer's and seller's tiers without losing units", () => {
+    const lines = extractRevenue(events, context);
+    const shares = lines.filter((line) => line.event === "FeesProcessed");
+
+    expect(shares.map((line) => [line.feeName, line.account, line.tier, line.amount])).toEqual([
+      ["TREASURY", buyer, 2n, 2_700_000n],
+      ["TREASURY", seller, 0n, 900_000n],
+      ["REFERRAL", buyer, 2n, 300_000n],
+      ["REFERRAL", seller, 0n, 100_000n],
+    ]);
+    // Matches (fromFee + toFee) * percentage / BPS per share, as transferred on-chain
+    expect(shares.reduce((sum, line) => sum + line.amount, 0n)).toBe(3_600_000n + 400_000n);
+    expect(lines.filter((line) => line.feeName === "SERVICE").map((line) => [line.operation, line.amount])).toEqual([
+      ["LIST", 1_000_000n],
+      ["BUY", 2_500_000n],
+    ]);
+  });
+
+  test("fails when the seller of a sold sale is unknown", () => {
+    expect(() => extractRevenue(events, { ...context, sellerOf: () => undefined })).toThrow("sale 7");
+  });
+
+  test("aggregates per period and writes formatted CSV", () => {
+    const rows = aggregateRevenue(extractRevenue(events, context), "month", new Map([[usdc.toLowerCase(), 6]]));
+    const csv = formatRevenueCsv(rows).trimEnd().split("\n");
+
+    expect(csv[0]).toBe("period,token,decimals,feeName,operation,tier,count,amount,formatted");
+    expect(csv[1]).toBe(`2025-01,${usdc},6,SERVICE,LIST,0,1,1000000,1`);
+    expect(csv).toContain(`2025-02,${usdc},6,TREASURY,BUY,2,1,2700000,2.7`);
+    expect(rows).toHaveLength(6);
+  });
+
+  test("collects lines with the tiers at each block", async () => {
+    registerAddresses(NETWORK, { Payments: PAYMENTS, Memberships: MEMBERSHIPS, Roles: ROLES });
+    const { client, reads } = reporterClient(1n);
+    const reporter = createRevenueReporter({ network: NETWORK, publicClient: client, fromBlock: 130n });
+
+    const lines = await reporter.collect();
+    expect(lines.map((line) => [line.event, line.feeName, line.account, line.tier, line.amount, line.token])).toEqual([
+      ["Send", "SEND", buyer, 1n, 5_000_000n, usdc],
+      ["PaymentProcessed", "PAYMENT", buyer, 2n, 7_000_000n, usdc],
+    ]);
+    // Tiers held before the range are read just before it
+    expect(reads).toEqual([129n]);
+  });
+
+  test("starts every account at tier 0 when the range starts before Memberships", async () => {
+    registerAddresses(NETWORK, { Payments: PAYMENTS, Memberships: MEMBERSHIPS, Roles: ROLES });
+    const { client, reads } = reporterClient(1n);
+    // The report script starts at the Roles deployment block by default
+    const reporter = createRevenueReporter({ network: NETWORK, publicClient: client, fromBlock: 100n });
+
+    const { lines, rows } = await reporter.report({ period: "day" });
+    expect(lines.map((line) => line.tier)).toEqual([0n, 2n]);
+    expect(reads).toEqual([]);
+    expect(rows.map((row) => [row.period, row.decimals, row.feeName, row.tier, formatRevenueCsv([row]).split("\n")[1]])).toEqual([
+      ["2025-01-31", 6, "PAYMENT", 2n, `2025-01-31,${usdc},6,PAYMENT,PAYMENT,2,1,7000000,7`],
+      ["2025-01-31", 6, "SEND", 0n, `2025-01-31,${usdc},6,SEND,SEND,0,1,5000000,5`],
+    ]);
+  });
+});
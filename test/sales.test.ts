@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { zeroAddress, zeroHash } from "viem";
+import { buildSaleHistory, getSaleStatus, type Sale, type SaleEvent } from "../sdk/sales";
+
+const sale: Sale = { start: 1_000n, end: 2_000n, price: 5n, wrapperId: 1n, seller: zeroAddress, active: true };
+const serviceFee = { operation: zeroHash, serviceFees: 0n, fiatFees: 0n };
+
+function event(eventName: SaleEvent["eventName"], timestamp: bigint, window?: { start: bigint; end: bigint }) {
+  const date = window && { expireUpcomeDate: window.start, expireListDate: window.end };
+  return {
+    contract: "Sales",
+    eventName,
+    args: { wallet: zeroAddress, salesId: 1n, date, fee: serviceFee },
+    blockNumber: timestamp,
+    transactionHash: zeroHash,
+    timestamp,
+  } as unknown as SaleEvent;
+}
+
+describe("sale status", () => {
+  test("follows the buy / withdraw window of SalesBase", () => {
+    expect(getSaleStatus(sale, 999n)).toBe("upcoming");
+    expect(getSaleStatus(sale, 1_000n)).toBe("live");
+    expect(getSaleStatus(sale, 2_000n)).toBe("live");
+    expect(getSaleStatus(sale, 2_001n)).toBe("expired");
+    expect(getSaleStatus({ ...sale, active: false }, 1_500n)).toBe("sold");
+  });
+
+  test("adds time-based transitions between events", () => {
+    const history = buildSaleHistory(
+      [
+        event("List", 500n, { start: 1_000n, end: 2_000n }),
+        event("Renew", 2_500n, { start: 3_000n, end: 4_000n }),
+        event("Buy", 3_500n),
+      ],
+      10_000n
+    );
+
+    expect(history.map(({ status, at, event }) => [status, at, event])).toEqual([
+      ["upcoming", 500n, "List"],
+      ["live", 1_000n, undefined],
+      ["expired", 2_001n, undefined],
+      ["upcoming", 2_500n, "Renew"],
+      ["live", 3_000n, undefined],
+      ["sold", 3_500n, "Buy"],
+    ]);
+  });
+
+  test("stops at the current time", () => {
+    const history = buildSaleHistory([event("List", 500n, { start: 1_000n, end: 2_000n })], 1_500n);
+    expect(history.map(({ status }) => status)).toEqual(["upcoming", "live"]);
+  });
+
+  test("ends with withdrawn", () => {
+    const history = buildSaleHistory(
+      [event("List", 500n, { start: 1_000n, end: 2_000n }), event("Withdraw", 1_200n)],
+      10_000n
+    );
+    expect(history.map(({ status }) => status)).toEqual(["upcoming", "live", "withdrawn"]);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, setDefaultTimeout, test } from "bun:test";
+import { abis } from "../contracts";
+import { getAddresses } from "../sdk/networks";
+import {
+  createScheduleEngine,
+  getDayOfWeek,
+  getNextOccurrence,
+  nextScheduleTime,
+  type ScheduleState,
+} from "../sdk/schedule";
+import { anvilAvailable, publicClient, startAnvilWithDeployment, stopAnvil, testClient, walletFor } from "./anvil";
+
+const seconds = (iso: string) => BigInt(Date.parse(iso) / 1000);
+
+// The schedule every Sales proxy starts with: Saturday 15:30 UTC, 7 day fallback delay
+const initial: ScheduleState = {
+  schedules: [{ id: 1n, dayOfWeek: 6, hour: 15, minute: 30 }],
+  listingDelay: 7n * 86_400n,
+};
+
+describe("schedule engine", () => {
+  test("uses Monday = 1 ... Sunday = 7", () => {
+    expect(getDayOfWeek(seconds("2025-01-06T00:00:00Z"))).toBe(1);
+    expect(getDayOfWeek(seconds("2025-01-02T23:59:59Z"))).toBe(4);
+    expect(getDayOfWeek(seconds("2025-01-05T12:00:00Z"))).toBe(7);
+  });
+
+  test("a Thursday 18:00 listing goes live on Saturday 15:30", () => {
+    expect(nextScheduleTime(initial, new Date("2025-01-02T18:00:00Z"))).toBe(seconds("2025-01-04T15:30:00Z"));
+  });
+
+  test("rolls over to next week once the slot has started", () => {
+    expect(getNextOccurrence(seconds("2025-01-04T15:29:59Z"), 6, 15, 30)).toBe(seconds("2025-01-04T15:30:00Z"));
+    expect(getNextOccurrence(seconds("2025-01-04T15:30:00Z"), 6, 15, 30)).toBe(seconds("2025-01-11T15:30:00Z"));
+  });
+
+  test("wraps around the end of the week", () => {
+    expect(getNextOccurrence(seconds("2025-01-05T10:00:00Z"), 1, 9, 0)).toBe(seconds("2025-01-06T09:00:00Z"));
+  });
+
+  test("picks the earliest of several schedules", () => {
+    const state: ScheduleState = {
+      ...initial,
+      schedules: [...initial.schedules, { id: 2n, dayOfWeek: 3, hour: 20, minute: 0 }],
+    };
+    expect(nextScheduleTime(state, seconds("2025-01-06T08:00:00Z"))).toBe(seconds("2025-01-08T20:00:00Z"));
+    expect(nextScheduleTime(state, seconds("2025-01-09T08:00:00Z"))).toBe(seconds("2025-01-11T15:30:00Z"));
+  });
+
+  test("falls back to the listing delay without active schedules", () => {
+    const at = seconds("2025-01-02T18:00:00Z");
+    expect(nextScheduleTime({ schedules: [], listingDelay: 3_600n }, at)).toBe(at + 3_600n);
+  });
+});
+
+describe.skipIf(!anvilAvailable)("schedule parity on Anvil", () => {
+  // Compiling and deploying the suite takes a while
+  setDefaultTimeout(600_000);
+
+  beforeAll(async () => {
+    await startAnvilWithDeployment();
+
+    const hash = await walletFor(0).writeContract({
+      address: getAddresses("local").Sales,
+      abi: abis.Sales,
+      functionName: "setSchedules",
+      args: [[2n, 3n], [3, 7], [20, 0], [0, 5]],
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+  });
+
+  afterAll(() => stopAnvil());
+
+  test("matches Sales.getNextScheduleTime at warped timestamps", async () => {
+    const engine = await createScheduleEngine({ network: "local", publicClient });
+
+    const checkAt = async (at: bigint) => {
+      await testClient.setNextBlockTimestamp({ timestamp: at });
+      await testClient.mine({ blocks: 1 });
+
+      const onChain = await publicClient.readContract({
+        address: getAddresses("local").Sales,
+        abi: abis.Sales,
+        functionName: "getNextScheduleTime",
+      });
+      expect(engine.nextScheduleTime(at)).toBe(onChain);
+      return onChain;
+    };
+
+    // Step through odd offsets, then land exactly on each slot to cover the rollover branch
+    let at = (await publicClient.getBlock()).timestamp;
+    for (const offset of [1n, 3_599n, 86_399n, 86_400n, 123_457n, 302_400n, 604_799n]) {
+      at += offset;
+      at = await checkAt(at);
+      await checkAt(at);
+    }
+  });
+});
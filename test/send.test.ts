@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import type { Address, Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { fakePublicClient, fakeWalletClient } from "./anvil";
+import { addresses } from "../contracts";
+import { getPaymentsDomain, signSendMessage } from "../sdk/eip712";
+import { sendPayment, verifySendSignature, type SendPaymentParams } from "../sdk/send";
+
+const sender = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcaf784d7bf4f2ff80");
+const operational = privateKeyToAccount("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+const USDC = "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E" as Address;
+const TO = "0x00000000000000000000000000000000000000b0" as Address;
+const HASH = `0x${"cd".repeat(32)}` as Hex;
+
+async function signedSend(overrides: Partial<SendPaymentParams> = {}): Promise<SendPaymentParams> {
+  const message = { nonce: 3n, expiry: BigInt(Math.floor(Date.now() / 1000) + 3600), erc20: USDC, to: TO, amount: 25_000_000n };
+  const signature = await signSendMessage(sender, getPaymentsDomain(43114, addresses.mainnet.Payments), message);
+  return { ...message, from: sender.address, signature, ...overrides };
+}
+
+function clients() {
+  const simulated: Record<string, unknown>[] = [];
+  const written: Record<string, unknown>[] = [];
+  const publicClient = fakePublicClient({
+    simulateContract: async (args: Record<string, unknown>) => {
+      simulated.push(args);
+      return { request: { ...args, gas: 100_000n } };
+    },
+  });
+  const operationalWallet = fakeWalletClient({
+    account: operational,
+    writeContract: async (request: Record<string, unknown>) => {
+      written.push(request);
+      return HASH;
+    },
+  });
+  return { config: { network: "mainnet", publicClient, operationalWallet }, simulated, written };
+}
+
+describe("payments send", () => {
+  test("simulates, then submits Payments.send from the operational wallet", async () => {
+    const params = await signedSend();
+    const { config, simulated, written } = clients();
+
+    expect(await sendPayment(config, params)).toBe(HASH);
+    expect(simulated[0]).toMatchObject({
+      account: operational,
+      address: addresses.mainnet.Payments,
+      functionName: "send",
+      args: [params.nonce, params.expiry, params.signature, USDC, sender.address, TO, params.amount],
+    });
+    // The simulated request is sent as is
+    expect(written).toEqual([{ ...simulated[0], gas: 100_000n }]);
+  });
+
+  test("rejects signatures of another wallet before simulating", async () => {
+    const params = await signedSend({ from: operational.address });
+    const { config, simulated } = clients();
+
+    await expect(verifySendSignature("mainnet", params)).rejects.toThrow(
+      `Invalid send signature: expected ${operational.address}, recovered ${sender.address}`
+    );
+    await expect(sendPayment(config, params)).rejects.toThrow("Invalid send signature");
+    // Any changed field changes the recovered signer
+    await expect(sendPayment(config, { ...(await signedSend()), amount: 1n })).rejects.toThrow("Invalid send signature");
+    expect(simulated).toEqual([]);
+  });
+
+  test("rejects expired signatures", async () => {
+    const message = { nonce: 3n, expiry: 1_000n, erc20: USDC, to: TO, amount: 1n };
+    const signature = await signSendMessage(sender, getPaymentsDomain(43114, addresses.mainnet.Payments), message);
+    const { config, simulated } = clients();
+
+    await expect(sendPayment(config, { ...message, from: sender.address, signature })).rejects.toThrow(
+      "Send signature expired at 1970-01-01T00:16:40.000Z"
+    );
+    expect(simulated).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createTimestampResolver } from "../sdk/timestamps";
+import { fakePublicClient } from "./anvil";
+
+const dir = mkdtempSync(join(tmpdir(), "crutrade-timestamps-"));
+
+function mockClient() {
+  const requested: bigint[] = [];
+  const client = {
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => {
+      requested.push(blockNumber);
+      return { timestamp: 1_700_000_000n + blockNumber };
+    },
+  };
+  return { client: fakePublicClient(client), requested };
+}
+
+describe("timestamp resolver", () => {
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("requests each block once", async () => {
+    const { client, requested } = mockClient();
+    const timestamps = createTimestampResolver({ publicClient: client });
+
+    const logs = [{ blockNumber: 5n }, { blockNumber: 7n }, { blockNumber: 5n }];
+    const [enriched] = await Promise.all([
+      timestamps.withTimestamps(logs),
+      timestamps.getTimestamp(7n),
+      timestamps.getTimestamp(7n),
+    ]);
+
+    expect(enriched.map((log) => log.timestamp)).toEqual([1_700_000_005n, 1_700_000_007n, 1_700_000_005n]);
+    expect(requested.sort()).toEqual([5n, 7n]);
+  });
+
+  test("reuses the cache file across runs", async () => {
+    const cacheFile = join(dir, "nested", "timestamps.json");
+    const first = mockClient();
+    await createTimestampResolver({ publicClient: first.client, cacheFile }).getTimestamps([1n, 2n, 3n]);
+    expect(JSON.parse(readFileSync(cacheFile, "utf8"))).toEqual({
+      "1": "1700000001",
+      "2": "1700000002",
+      "3": "1700000003",
+    });
+
+    const second = mockClient();
+    const resolver = createTimestampResolver({ publicClient: second.client, cacheFile });
+    expect(resolver.size).toBe(3);
+    expect((await resolver.getTimestamps([2n, 4n])).get(2n)).toBe(1_700_000_002n);
+    expect(second.requested).toEqual([4n]);
+  });
+});
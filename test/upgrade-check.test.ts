@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Address } from "viem";
+import { checkStorageLayouts, loadRecordedLayout, recordLayout, type ArtifactStorageLayout } from "../script/storage-layouts";
+
+const NETWORK = "testnet";
+const IMPLEMENTATION = "0x00000000000000000000000000000000000002a1" as Address;
+
+const TYPES = {
+  "t_bytes32": { encoding: "inplace", label: "bytes32", numberOfBytes: "32" },
+  "t_contract(IRoles)4021": { encoding: "inplace", label: "contract IRoles", numberOfBytes: "20" },
+  "t_string_storage": { encoding: "bytes", label: "string", numberOfBytes: "32" },
+  "t_uint256": { encoding: "inplace", label: "uint256", numberOfBytes: "32" },
+  "t_uint128": { encoding: "inplace", label: "uint128", numberOfBytes: "16" },
+};
+
+// Wrappers' own variables, as in solc's storageLayout output
+const variable = (label: string, type: keyof typeof TYPES, slot: number, file = "src/abstracts/WrapperBase.sol:WrapperBase") => ({
+  astId: 1000 + slot,
+  contract: file,
+  label,
+  offset: 0,
+  slot: String(slot),
+  type,
+});
+
+const deployedLayout: ArtifactStorageLayout = {
+  storage: [
+    variable("roles", "t_contract(IRoles)4021", 0, "src/abstracts/ModifiersBase.sol:ModifiersBase"),
+    variable("_domainSeparator", "t_bytes32", 1, "src/abstracts/ModifiersBase.sol:ModifiersBase"),
+    variable("_nextWrapperId", "t_uint256", 2),
+    variable("_httpsBaseURI", "t_string_storage", 3),
+  ],
+  types: TYPES,
+};
+
+let dir: string;
+
+function build(layout: ArtifactStorageLayout) {
+  mkdirSync(join(dir, "out", "Wrappers.sol"), { recursive: true });
+  writeFileSync(join(dir, "out", "Wrappers.sol", "Wrappers.json"), JSON.stringify({ storageLayout: layout }));
+}
+
+const options = () => ({ out: join(dir, "out"), dir: join(dir, "deployments") });
+
+describe("upgrade check", () => {
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "layouts-"));
+    build(deployedLayout);
+    recordLayout(NETWORK, "Wrappers", IMPLEMENTATION, { ...options(), commit: "abc123" });
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("records the layout of a deployed implementation once", () => {
+    expect(loadRecordedLayout(NETWORK, IMPLEMENTATION, options())).toMatchObject({
+      contract: "Wrappers",
+      commit: "abc123",
+      storageLayout: deployedLayout,
+    });
+    build({ storage: [], types: null });
+    expect(recordLayout(NETWORK, "Wrappers", IMPLEMENTATION, options())).toBe(false);
+    expect(loadRecordedLayout(NETWORK, IMPLEMENTATION, options())!.storageLayout).toEqual(deployedLayout);
+  });
+
+  test("accepts variables appended at the end", () => {
+    build({ ...deployedLayout, storage: [...deployedLayout.storage, variable("_newCounter", "t_uint256", 4)] });
+
+    expect(checkStorageLayouts(NETWORK, { Wrappers: IMPLEMENTATION }, options())).toEqual([
+      { contract: "Wrappers", implementation: IMPLEMENTATION, status: "compatible", changes: [], explanation: undefined },
+    ]);
+  });
+
+  test("reports inserted, removed and retyped slots", () => {
+    const [roles, separator, nextId, baseURI] = deployedLayout.storage;
+    const check = (storage: ArtifactStorageLayout["storage"]) =>
+      checkStorageLayouts(NETWORK, { Wrappers: IMPLEMENTATION }, (build({ storage, types: TYPES }), options()))[0]!;
+
+    // A variable declared before _httpsBaseURI shifts it
+    const inserted = check([roles!, separator!, nextId!, variable("_baseURIString", "t_string_storage", 3), { ...baseURI!, slot: "4" }]);
+    expect(inserted.status).toBe("incompatible");
+    expect(inserted.changes).toEqual([{ kind: "inserted", label: "_baseURIString", slot: "3", to: "string" }]);
+    expect(inserted.explanation).toContain("_baseURIString");
+
+    const removed = check([roles!, separator!, { ...baseURI!, slot: "2" }]);
+    expect(removed.changes).toEqual([{ kind: "removed", label: "_nextWrapperId", slot: "2", from: "uint256" }]);
+
+    const retyped = check([roles!, separator!, { ...nextId!, type: "t_uint128" }, baseURI!]);
+    expect(retyped.changes).toMatchObject([{ kind: "retyped", label: "_nextWrapperId", from: "uint256", to: "uint128" }]);
+  });
+
+  test("blocks implementations without a recorded layout", () => {
+    const other = "0x00000000000000000000000000000000000002b2" as Address;
+
+    expect(checkStorageLayouts(NETWORK, { Wrappers: other }, options())).toEqual([
+      { contract: "Wrappers", implementation: other, status: "unrecorded", changes: [] },
+    ]);
+  });
+});
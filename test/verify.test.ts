@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { encodeAbiParameters, pad, zeroHash, type Address, type Hex } from "viem";
+import { hashLabel } from "../sdk/labels";
+import { clearAddresses, contractNames, registerAddresses, type ContractName } from "../sdk/networks";
+import { IMPLEMENTATION_SLOT, verifyDeployment, type DeploymentExpectations } from "../sdk/verify";
+import { fakePublicClient } from "./anvil";
+
+const NETWORK = "verify-test";
+const OWNER = "0x00000000000000000000000000000000000000a0" as Address;
+const FIAT = "0x00000000000000000000000000000000000000f1" as Address;
+const USDC = "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E" as Address;
+
+// Proxies at 0x..01xx, implementations at 0x..02xx
+const address = (base: number, i: number) => `0x${(base + i).toString(16).padStart(40, "0")}` as Address;
+const proxies = Object.fromEntries(contractNames.map((name, i) => [name, address(0x100, i)])) as Record<ContractName, Address>;
+const implementations = Object.fromEntries(contractNames.map((name, i) => [name, address(0x200, i)])) as Record<ContractName, Address>;
+
+/// @notice State of a correctly configured deployment, editable by each test
+function deployedState() {
+  const grants = new Set([
+    `${zeroHash}:${OWNER}`,
+    ...["OWNER", "OPERATIONAL", "TREASURY", "PAUSER", "UPGRADER"].map((role) => `${hashLabel(role)}:${OWNER}`),
+    `${hashLabel("FIAT")}:${FIAT}`,
+    ...["BRANDS", "WRAPPERS", "WHITELIST", "PAYMENTS", "SALES", "MEMBERSHIPS"].map(
+      (role) => `${hashLabel(role)}:${proxies[(role[0] + role.slice(1).toLowerCase()) as ContractName]}`
+    ),
+  ]);
+  return {
+    implementations: { ...implementations },
+    grants,
+    delegates: new Set<Address>([proxies.Wrappers, proxies.Payments, proxies.Sales]),
+    roleAddresses: { [hashLabel("FIAT")]: FIAT } as Record<Hex, Address>,
+    treasury: OWNER,
+    fiatFeePercentage: 250n,
+    membershipFees: { "1": [150n, 500n] } as Record<string, [bigint, bigint]>,
+    paymentToken: USDC,
+  };
+}
+
+function mockClient(state: ReturnType<typeof deployedState>) {
+  const byImplementation = new Map(Object.entries(proxies).map(([name, proxy]) => [proxy, name as ContractName]));
+  return fakePublicClient({
+    getStorageAt: async ({ address, slot }: { address: Address; slot: Hex }) => {
+      if (slot === IMPLEMENTATION_SLOT) return pad(state.implementations[byImplementation.get(address)!]);
+      // Payments fiat fee percentage
+      return encodeAbiParameters([{ type: "uint256" }], [slot === pad("0x4") ? state.fiatFeePercentage : 0n]);
+    },
+    getCode: async ({ address }: { address: Address }) =>
+      Object.values(implementations).includes(address) ? "0x6080" : undefined,
+    readContract: async ({ functionName, args = [] }: { functionName: string; args?: readonly unknown[] }) => {
+      switch (functionName) {
+        case "hasRole":
+          return state.grants.has(`${args[0]}:${args[1]}`);
+        case "hasDelegateRole":
+          return state.delegates.has(args[0] as Address);
+        case "getRoleAddress": {
+          const role = Object.entries(proxies).find(([name]) => hashLabel(name.toUpperCase()) === args[0]);
+          return state.roleAddresses[args[0] as Hex] ?? role?.[1];
+        }
+        case "getFees":
+          return [{ name: hashLabel("TREASURY"), percentage: 10_000n, wallet: state.treasury }];
+        case "getMembershipFees":
+          return state.membershipFees[String(args[0])];
+        case "getDefaultFiatPayment":
+        case "usdcToken":
+          return state.paymentToken;
+        case "hasPaymentRole":
+          return args[0] === USDC;
+        case "paymentsContract":
+          return proxies.Payments;
+      }
+      throw new Error(`Unexpected call ${functionName}`);
+    },
+  });
+}
+
+const expected: DeploymentExpectations = {
+  implementations,
+  grants: [
+    { role: "DEFAULT_ADMIN_ROLE", account: OWNER },
+    { role: "OWNER", account: OWNER },
+    { role: "FIAT", account: FIAT },
+  ],
+  roleAddresses: { FIAT },
+  treasury: OWNER,
+  fiatFeePercentage: 250n,
+  membershipFees: { "1": { sellerFee: 150n, buyerFee: 500n } },
+  paymentToken: USDC,
+};
+
+describe("deployment verification", () => {
+  beforeEach(() => registerAddresses(NETWORK, proxies));
+  afterEach(() => clearAddresses(NETWORK));
+
+  test("passes for a deployment matching its configuration", async () => {
+    const checks = await verifyDeployment({ network: NETWORK, publicClient: mockClient(deployedState()), expected });
+
+    expect(checks.filter((check) => !check.ok)).toEqual([]);
+    expect(new Set(checks.map((check) => check.category))).toEqual(
+      new Set(["implementation", "grant", "delegate", "roleAddress", "payments", "paymentToken"])
+    );
+  });
+
+  test("reports every drift", async () => {
+    const state = deployedState();
+    state.implementations.Sales = address(0x200, 99);
+    state.grants.delete(`${hashLabel("FIAT")}:${FIAT}`);
+    state.delegates.delete(proxies.Payments);
+    state.roleAddresses[hashLabel("WRAPPERS")] = OWNER;
+    state.fiatFeePercentage = 300n;
+    state.membershipFees["1"] = [0n, 0n];
+
+    const checks = await verifyDeployment({ network: NETWORK, publicClient: mockClient(state), expected });
+    const failed = checks.filter((check) => !check.ok);
+
+    expect(failed.map((check) => `${check.category}: ${check.name}`)).toEqual([
+      "implementation: Sales",
+      `grant: FIAT → ${FIAT}`,
+      "delegate: Payments",
+      "roleAddress: WRAPPERS",
+      "payments: fiat fee",
+      "payments: membership 1 fees",
+    ]);
+    expect(failed[0]).toMatchObject({ expected: implementations.Sales, actual: `${address(0x200, 99)} (no code)` });
+    expect(failed[4]).toMatchObject({ expected: "250", actual: "300" });
+  });
+});
@@ -0,0 +1,286 @@
+import { afterAll, afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Address, Hex } from "viem";
+import { hashLabel } from "../sdk/labels";
+import { clearAddresses, registerAddresses } from "../sdk/networks";
+import { createTimestampResolver, type TimestampResolver } from "../sdk/timestamps";
+import { createEventWatcher } from "../sdk/watcher";
+import { createWebhookOutbox, matchesTopic, verifyWebhook, type WebhookPayload } from "../sdk/webhooks";
+import { encodeLog, fakePublicClient, type EncodedLog, type EventName } from "./anvil";
+
+const SECRET = "whsec_test";
+
+/// @notice A local HTTP receiver answering with the queued statuses, then 200
+function startReceiver() {
+  const received: { headers: Headers; body: string }[] = [];
+  const statuses: number[] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      received.push({ headers: request.headers, body: await request.text() });
+      return new Response(null, { status: statuses.shift() ?? 200 });
+    },
+  });
+  return { url: `http://localhost:${server.port}/hook`, received, statuses, stop: () => server.stop(true) };
+}
+
+const payload = (id: string, topic = "Sales.Buy"): WebhookPayload => ({
+  id,
+  topic,
+  network: "webhooks-test",
+  timestamp: "2025-02-01T00:00:00.000Z",
+  data: { salesId: "7" },
+});
+
+const receiver = startReceiver();
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "webhooks-"));
+  receiver.received.length = 0;
+  receiver.statuses.length = 0;
+});
+afterEach(() => rmSync(dir, { recursive: true, force: true }));
+afterAll(() => receiver.stop());
+
+describe("webhook outbox", () => {
+  test("POSTs signed payloads to the endpoints subscribed to their topic", async () => {
+    const outbox = createWebhookOutbox({
+      endpoints: [
+        { url: receiver.url, secret: SECRET, topics: ["Sales.*", "*.Paused"] },
+        { url: `${receiver.url}?roles`, secret: SECRET, topics: ["Roles.RoleGranted"] },
+      ],
+    });
+
+    expect(outbox.enqueue(payload("a"))).toBe(1);
+    expect(outbox.enqueue(payload("b", "Wrappers.Paused"))).toBe(1);
+    expect(await outbox.flush()).toBe(2);
+
+    const [first] = receiver.received;
+    expect(JSON.parse(first!.body)).toEqual(payload("a"));
+    expect(first!.headers.get("X-Crutrade-Delivery")).toBe("a");
+    expect(first!.headers.get("X-Crutrade-Topic")).toBe("Sales.Buy");
+    expect(await verifyWebhook(SECRET, first!.headers, first!.body)).toBe(true);
+    expect(await verifyWebhook("other", first!.headers, first!.body)).toBe(false);
+    expect(await verifyWebhook(SECRET, first!.headers, first!.body.replace("7", "8"))).toBe(false);
+    expect(outbox.pending()).toEqual([]);
+  });
+
+  test("matches topic patterns", () => {
+    const endpoint = { url: "", secret: "", topics: ["Sales", "*.Unpaused"] };
+    expect(matchesTopic(endpoint, "Sales.List")).toBe(true);
+    expect(matchesTopic(endpoint, "Roles.Unpaused")).toBe(true);
+    expect(matchesTopic(endpoint, "Roles.Paused")).toBe(false);
+    expect(matchesTopic({ url: "", secret: "" }, "Roles.Paused")).toBe(true);
+  });
+
+  test("retries with exponential backoff, then dead-letters", async () => {
+    let now = 1_000_000;
+    const deadLetterFile = join(dir, "dead-letter.ndjson");
+    const outbox = createWebhookOutbox({
+      endpoints: [{ url: receiver.url, secret: SECRET }],
+      deadLetterFile,
+      maxAttempts: 3,
+      baseDelayMs: 1_000,
+      now: () => now,
+    });
+    receiver.statuses.push(500, 500, 500, 500, 500);
+
+    outbox.enqueue(payload("a"));
+    expect(await outbox.flush()).toBe(0);
+    expect(outbox.pending()[0]).toMatchObject({ attempts: 1, nextAttemptAt: now + 1_000, lastError: "HTTP 500" });
+
+    // Not due yet
+    await outbox.flush();
+    expect(receiver.received).toHaveLength(1);
+
+    now += 1_000;
+    await outbox.flush();
+    expect(outbox.pending()[0]).toMatchObject({ attempts: 2, nextAttemptAt: now + 2_000 });
+
+    now += 2_000;
+    await outbox.flush();
+    expect(receiver.received).toHaveLength(3);
+    expect(outbox.pending()).toEqual([]);
+
+    const [dead] = readFileSync(deadLetterFile, "utf8").trimEnd().split("\n").map((line) => JSON.parse(line));
+    expect(dead).toMatchObject({ id: `a@${receiver.url}`, attempts: 3, payload: payload("a") });
+  });
+
+  test("resends pending deliveries after a restart", async () => {
+    const file = join(dir, "outbox.json");
+    const endpoints = [{ url: receiver.url, secret: SECRET }];
+    receiver.statuses.push(503);
+
+    const before = createWebhookOutbox({ endpoints, file, baseDelayMs: 0 });
+    before.enqueue(payload("a"));
+    await before.flush();
+    expect(before.pending()).toHaveLength(1);
+
+    const after = createWebhookOutbox({ endpoints, file });
+    // Already pending: not queued twice
+    expect(after.enqueue(payload("a"))).toBe(0);
+    expect(await after.flush()).toBe(1);
+    expect(receiver.received.map((request) => request.headers.get("X-Crutrade-Delivery"))).toEqual(["a", "a"]);
+    expect(JSON.parse(readFileSync(file, "utf8"))).toEqual([]);
+  });
+});
+
+const NETWORK = "webhooks-test";
+const SALES = "0x0000000000000000000000000000000000005a1e" as Address;
+const seller = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8" as Address;
+const usdc = "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E" as Address;
+const fee = { operation: hashLabel("LIST"), serviceFees: 0n, fiatFees: 0n };
+
+/// @notice A Sales log, one transaction per block
+function salesLog(eventName: EventName<"Sales">, args: Record<string, unknown>, blockNumber: bigint, logIndex = 0) {
+  const transactionHash = `0x${blockNumber.toString(16).padStart(64, "0")}` as Hex;
+  return encodeLog("Sales", eventName, args, { address: SALES, blockNumber, transactionHash, logIndex });
+}
+
+const list = (salesId: bigint, start: bigint, blockNumber: bigint) =>
+  salesLog(
+    "List",
+    {
+      wallet: seller,
+      salesId,
+      date: { expireListDate: start + 1_000n, expireUpcomeDate: start },
+      fee,
+      output: { wrapperId: salesId, price: 100n, erc20: usdc },
+    },
+    blockNumber
+  );
+
+/// @notice A client serving the given logs, with a watchContractEvent driven by the test
+function mockClient(logs: EncodedLog[], head: bigint) {
+  const watched: { fromBlock: bigint; onLogs: (logs: unknown[]) => void }[] = [];
+  const client = fakePublicClient({
+    getBlockNumber: async () => head,
+    getBlock: async ({ blockNumber }: { blockNumber?: bigint }) => ({ timestamp: 1_000n + (blockNumber ?? head) }),
+    getLogs: async ({ address, fromBlock, toBlock }: { address: Address; fromBlock: bigint; toBlock: bigint }) =>
+      logs.filter((log) => log.address === address && log.blockNumber >= fromBlock && log.blockNumber <= toBlock),
+    watchContractEvent: (parameters: (typeof watched)[number]) => {
+      watched.push(parameters);
+      return () => {};
+    },
+  });
+  return { client, watched };
+}
+
+describe("event watcher", () => {
+  beforeEach(() => registerAddresses(NETWORK, { Sales: SALES }));
+  afterEach(() => clearAddresses(NETWORK));
+
+  test("delivers catch-up and watched events, and sales going live", async () => {
+    const outbox = createWebhookOutbox({ endpoints: [{ url: receiver.url, secret: SECRET }] });
+    const { client, watched } = mockClient([list(1n, 1_015n, 10n)], 20n);
+    const watcher = createEventWatcher({ network: NETWORK, publicClient: client, outbox, fromBlock: 5n, pollingInterval: 60_000 });
+
+    expect(await watcher.start()).toBe(20n);
+    expect(watched.map((watch) => watch.fromBlock)).toEqual([21n]);
+
+    watched[0]!.onLogs([salesLog("Withdraw", { wallet: seller, salesId: 1n, fee }, 22n), { ...list(2n, 1_030n, 22n), logIndex: 1 }]);
+    await watcher.stop();
+    expect(watcher.getCursor("Sales")?.blockNumber).toBe(22n);
+
+    // Block 30's timestamp passes the start of sale 2 only; sale 1 was withdrawn
+    expect(await watcher.checkSales(1_030n)).toBe(1);
+    expect(await watcher.checkSales(1_030n)).toBe(0);
+    await outbox.flush();
+
+    const bodies = receiver.received.map((request) => JSON.parse(request.body) as WebhookPayload<any>);
+    expect(bodies.map((body) => body.topic)).toEqual(["Sales.List", "Sales.Withdraw", "Sales.List", "Sales.SaleLive"]);
+    expect(bodies[0]).toMatchObject({
+      id: `${NETWORK}:${list(1n, 0n, 10n).transactionHash}:0`,
+      timestamp: new Date(1_010_000).toISOString(),
+      data: { contract: "Sales", eventName: "List", blockNumber: "10", args: { salesId: "1" } },
+    });
+    expect(bodies[3]!.data).toEqual({ saleId: "2", wrapperId: "2", seller, price: "100", erc20: usdc, start: "1030", end: "2030" });
+  });
+
+  test("resumes from its cursor after a restart", async () => {
+    const stateFile = join(dir, "state.json");
+    const endpoints = [{ url: receiver.url, secret: SECRET }];
+    const logs = [list(1n, 2_000n, 10n)];
+
+    const first = createEventWatcher({
+      network: NETWORK,
+      publicClient: mockClient(logs, 10n).client,
+      outbox: createWebhookOutbox({ endpoints }),
+      stateFile,
+      fromBlock: 1n,
+    });
+    expect(await first.catchUp(10n)).toBe(1);
+
+    // Emitted while the watcher was down
+    logs.push(list(2n, 2_000n, 15n));
+    const outbox = createWebhookOutbox({ endpoints });
+    const second = createEventWatcher({ network: NETWORK, publicClient: mockClient(logs, 20n).client, outbox, stateFile, fromBlock: 1n });
+    expect(second.getCursor("Sales")?.blockNumber).toBe(10n);
+    expect(await second.catchUp(20n)).toBe(1);
+    expect(outbox.pending().map((delivery) => delivery.payload.data)).toMatchObject([{ args: { salesId: "2" } }]);
+    expect(second.sales().map((sale) => sale.saleId)).toEqual([1n, 2n]);
+  });
+
+  test("keeps the events of contracts that had none before a restart", async () => {
+    const stateFile = join(dir, "state.json");
+    const endpoints = [{ url: receiver.url, secret: SECRET }];
+    const logs: EncodedLog[] = [];
+
+    // Only new events: nothing is scanned, but the cursor starts at the head
+    const first = createEventWatcher({
+      network: NETWORK,
+      publicClient: mockClient(logs, 10n).client,
+      outbox: createWebhookOutbox({ endpoints }),
+      stateFile,
+      pollingInterval: 60_000,
+    });
+    expect(await first.start()).toBe(10n);
+    await first.stop();
+    expect(first.getCursor("Sales")?.blockNumber).toBe(10n);
+
+    // Emitted while the watcher was down
+    logs.push(list(1n, 2_000n, 15n));
+    const outbox = createWebhookOutbox({ endpoints });
+    const second = createEventWatcher({ network: NETWORK, publicClient: mockClient(logs, 20n).client, outbox, stateFile, pollingInterval: 60_000 });
+    expect(await second.start()).toBe(20n);
+    await second.stop();
+    await outbox.flush();
+    expect(receiver.received.map((request) => JSON.parse(request.body).data)).toMatchObject([{ args: { salesId: "1" } }]);
+    expect(second.getCursor("Sales")?.blockNumber).toBe(20n);
+  });
+
+  test("fetches the logs of a failed batch again with the next one", async () => {
+    const logs = [list(1n, 2_000n, 22n)];
+    const { client, watched } = mockClient(logs, 20n);
+    const resolver = createTimestampResolver({ publicClient: client });
+    let failures = 1;
+    const timestamps: TimestampResolver = {
+      ...resolver,
+      withTimestamps: (items) => (items.length && failures-- > 0 ? Promise.reject(new Error("RPC unavailable")) : resolver.withTimestamps(items)),
+    };
+    const errors: unknown[] = [];
+    const outbox = createWebhookOutbox({ endpoints: [{ url: receiver.url, secret: SECRET }] });
+    const watcher = createEventWatcher({
+      network: NETWORK,
+      publicClient: client,
+      outbox,
+      timestamps,
+      pollingInterval: 60_000,
+      onError: (error) => void errors.push(error),
+    });
+
+    await watcher.start();
+    watched[0]!.onLogs([logs[0]]);
+    logs.push(list(2n, 2_000n, 25n));
+    watched[0]!.onLogs([logs[1]]);
+    await watcher.stop();
+
+    expect(errors).toHaveLength(1);
+    const queued = outbox.pending().map((delivery) => delivery.payload.data);
+    expect(queued).toMatchObject([{ args: { salesId: "1" } }, { args: { salesId: "2" } }]);
+    expect(watcher.getCursor("Sales")?.blockNumber).toBe(25n);
+  });
+});